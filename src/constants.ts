@@ -1,3 +1,5 @@
+import { UnknownTagAction, SanitizerProfileName, SanitizerConfig, ThemePresetName, ResolvedTheme, HeadingTag, WhiteSpace, BoxPadding } from './types';
+
 export const headingSizes: Record<string, number> = {
   h1: 32,
   h2: 24,
@@ -16,18 +18,46 @@ export const inverseHeadingSizes: Record<string, string> = {
   '10.72': 'h6',
 };
 
+// The CSS named colors, as lower-case #rrggbb
 export const colorMap: Record<string, string> = {
-    'red': '#FF0000',
-    'green': '#00FF00',
-    'blue': '#0000FF',
-    'yellow': '#FFFF00',
-    'orange': '#FFA500',
-    'purple': '#800080',
-    'black': "#000000"
-    // TODO Add more colors as needed
-  };
-
-
+  'aliceblue': '#f0f8ff', 'antiquewhite': '#faebd7', 'aqua': '#00ffff', 'aquamarine': '#7fffd4',
+  'azure': '#f0ffff', 'beige': '#f5f5dc', 'bisque': '#ffe4c4', 'black': '#000000',
+  'blanchedalmond': '#ffebcd', 'blue': '#0000ff', 'blueviolet': '#8a2be2', 'brown': '#a52a2a',
+  'burlywood': '#deb887', 'cadetblue': '#5f9ea0', 'chartreuse': '#7fff00', 'chocolate': '#d2691e',
+  'coral': '#ff7f50', 'cornflowerblue': '#6495ed', 'cornsilk': '#fff8dc', 'crimson': '#dc143c',
+  'cyan': '#00ffff', 'darkblue': '#00008b', 'darkcyan': '#008b8b', 'darkgoldenrod': '#b8860b',
+  'darkgray': '#a9a9a9', 'darkgreen': '#006400', 'darkgrey': '#a9a9a9', 'darkkhaki': '#bdb76b',
+  'darkmagenta': '#8b008b', 'darkolivegreen': '#556b2f', 'darkorange': '#ff8c00', 'darkorchid': '#9932cc',
+  'darkred': '#8b0000', 'darksalmon': '#e9967a', 'darkseagreen': '#8fbc8f', 'darkslateblue': '#483d8b',
+  'darkslategray': '#2f4f4f', 'darkslategrey': '#2f4f4f', 'darkturquoise': '#00ced1', 'darkviolet': '#9400d3',
+  'deeppink': '#ff1493', 'deepskyblue': '#00bfff', 'dimgray': '#696969', 'dimgrey': '#696969',
+  'dodgerblue': '#1e90ff', 'firebrick': '#b22222', 'floralwhite': '#fffaf0', 'forestgreen': '#228b22',
+  'fuchsia': '#ff00ff', 'gainsboro': '#dcdcdc', 'ghostwhite': '#f8f8ff', 'gold': '#ffd700',
+  'goldenrod': '#daa520', 'gray': '#808080', 'green': '#008000', 'greenyellow': '#adff2f',
+  'grey': '#808080', 'honeydew': '#f0fff0', 'hotpink': '#ff69b4', 'indianred': '#cd5c5c',
+  'indigo': '#4b0082', 'ivory': '#fffff0', 'khaki': '#f0e68c', 'lavender': '#e6e6fa',
+  'lavenderblush': '#fff0f5', 'lawngreen': '#7cfc00', 'lemonchiffon': '#fffacd', 'lightblue': '#add8e6',
+  'lightcoral': '#f08080', 'lightcyan': '#e0ffff', 'lightgoldenrodyellow': '#fafad2', 'lightgray': '#d3d3d3',
+  'lightgreen': '#90ee90', 'lightgrey': '#d3d3d3', 'lightpink': '#ffb6c1', 'lightsalmon': '#ffa07a',
+  'lightseagreen': '#20b2aa', 'lightskyblue': '#87cefa', 'lightslategray': '#778899', 'lightslategrey': '#778899',
+  'lightsteelblue': '#b0c4de', 'lightyellow': '#ffffe0', 'lime': '#00ff00', 'limegreen': '#32cd32',
+  'linen': '#faf0e6', 'magenta': '#ff00ff', 'maroon': '#800000', 'mediumaquamarine': '#66cdaa',
+  'mediumblue': '#0000cd', 'mediumorchid': '#ba55d3', 'mediumpurple': '#9370db', 'mediumseagreen': '#3cb371',
+  'mediumslateblue': '#7b68ee', 'mediumspringgreen': '#00fa9a', 'mediumturquoise': '#48d1cc', 'mediumvioletred': '#c71585',
+  'midnightblue': '#191970', 'mintcream': '#f5fffa', 'mistyrose': '#ffe4e1', 'moccasin': '#ffe4b5',
+  'navajowhite': '#ffdead', 'navy': '#000080', 'oldlace': '#fdf5e6', 'olive': '#808000',
+  'olivedrab': '#6b8e23', 'orange': '#ffa500', 'orangered': '#ff4500', 'orchid': '#da70d6',
+  'palegoldenrod': '#eee8aa', 'palegreen': '#98fb98', 'paleturquoise': '#afeeee', 'palevioletred': '#db7093',
+  'papayawhip': '#ffefd5', 'peachpuff': '#ffdab9', 'peru': '#cd853f', 'pink': '#ffc0cb',
+  'plum': '#dda0dd', 'powderblue': '#b0e0e6', 'purple': '#800080', 'rebeccapurple': '#663399',
+  'red': '#ff0000', 'rosybrown': '#bc8f8f', 'royalblue': '#4169e1', 'saddlebrown': '#8b4513',
+  'salmon': '#fa8072', 'sandybrown': '#f4a460', 'seagreen': '#2e8b57', 'seashell': '#fff5ee',
+  'sienna': '#a0522d', 'silver': '#c0c0c0', 'skyblue': '#87ceeb', 'slateblue': '#6a5acd',
+  'slategray': '#708090', 'slategrey': '#708090', 'snow': '#fffafa', 'springgreen': '#00ff7f',
+  'steelblue': '#4682b4', 'tan': '#d2b48c', 'teal': '#008080', 'thistle': '#d8bfd8',
+  'tomato': '#ff6347', 'turquoise': '#40e0d0', 'violet': '#ee82ee', 'wheat': '#f5deb3',
+  'white': '#ffffff', 'whitesmoke': '#f5f5f5', 'yellow': '#ffff00', 'yellowgreen': '#9acd32'
+};
 
 // Font style/weight/decoration constants
 export const FONT_WEIGHT = {
@@ -44,6 +74,7 @@ export const FONT_STYLE = {
 export const TEXT_DECORATION = {
   NONE: 'none' as const,
   UNDERLINE: 'underline' as const,
+  OVERLINE: 'overline' as const,
   LINE_THROUGH: 'line-through' as const
 };
 
@@ -68,12 +99,233 @@ export const LIST_PREFIXES = {
   NUMBER_SUFFIX: '. '
 } as const;
 
+// Table constants
+export const TABLE_TAGS = {
+  TABLE: 'table',
+  HEAD: 'thead',
+  BODY: 'tbody',
+  FOOT: 'tfoot',
+  ROW: 'tr',
+  HEADER_CELL: 'th',
+  DATA_CELL: 'td'
+} as const;
+
+// Space between the borders of a table cell and its content in px
+export const TABLE_CELL_PADDING: Readonly<BoxPadding> = { top: 4, right: 8, bottom: 4, left: 8 };
+
+export const TABLE_BORDER_WIDTH = 1;
+
+// Largest colspan and rowspan, as in the HTML spec
+export const TABLE_MAX_COLSPAN = 1000;
+export const TABLE_MAX_ROWSPAN = 65534;
+
+// Blockquote constants
+export const QUOTE_TAGS = {
+  BLOCKQUOTE: 'blockquote',
+  CITE: 'cite'
+} as const;
+
+// Width of the bar along the left edge of a blockquote in px
+export const QUOTE_BAR_WIDTH = 3;
+
+// Starts an attribution line (<cite> in a blockquote)
+export const QUOTE_ATTRIBUTION_PREFIX = '\u2014 ';
+
+// Decoded form of `&nbsp;` - never a line break opportunity
+export const NON_BREAKING_SPACE = '\u00A0';
+
 export const DEFAULT_COLORS = {
   BLACK: '#000000',
-  WHITE: '#FFFFFF'
+  WHITE: '#ffffff'
 } as const;
 
+// Colors the tag strategies apply, also used by the light theme
+export const TAG_COLORS = {
+  LINK: '#0066cc',
+  CODE: '#d63384',
+  MUTED: '#6c757d',
+  HIGHLIGHT: '#212529',
+  HIGHLIGHT_BACKGROUND: '#fff3cd',
+  CODE_BACKGROUND: '#afb8c1', // Drawn at CODE_BACKGROUND_OPACITY
+  KEY_BACKGROUND: '#f6f8fa',
+  KEY_BORDER: '#d0d7de',
+  TABLE_BORDER: '#d0d7de',
+  TABLE_HEADER_BACKGROUND: '#f6f8fa',
+  QUOTE_BAR: '#d0d7de'
+} as const;
+
+// The code box is translucent so it suits light and dark backgrounds alike
+export const CODE_BACKGROUND_OPACITY = 0.2;
+
+// Tags drawn in the monospace font family
+export const MONOSPACE_TAGS = ['code', 'pre', 'kbd', 'samp'] as const;
+
+// Default for the monospaceFontFamily option
+export const MONOSPACE_FONT_FAMILY = 'ui-monospace, SFMono-Regular, SF Mono, Menlo, Consolas, Liberation Mono, monospace';
+
 // CSS validation constants
 export const VALID_FONT_WEIGHTS = ['normal', 'bold', '100', '200', '300', '400', '500', '600', '700', '800', '900'] as const;
 export const VALID_FONT_STYLES = ['normal', 'italic', 'oblique'] as const;
-export const VALID_TEXT_DECORATIONS = ['none', 'underline', 'line-through'] as const;
\ No newline at end of file
+export const VALID_TEXT_DECORATIONS = ['none', 'underline', 'overline', 'line-through'] as const;
+export const VALID_TEXT_DECORATION_STYLES = ['solid', 'double', 'dotted', 'dashed', 'wavy'] as const;
+export const VALID_BORDER_STYLES = ['none', 'hidden', 'solid', 'dashed', 'dotted', 'double', 'groove', 'ridge', 'inset', 'outset'] as const;
+
+export const VALID_WHITE_SPACES = ['normal', 'nowrap', 'pre', 'pre-wrap', 'pre-line', 'break-spaces'] as const;
+
+// What each white-space value keeps: runs of spaces and tabs, line breaks, and wrapping
+export const WHITE_SPACE_RULES: Readonly<Record<WhiteSpace, { preserveSpaces: boolean; preserveNewlines: boolean; wrap: boolean }>> = {
+  'normal': { preserveSpaces: false, preserveNewlines: false, wrap: true },
+  'nowrap': { preserveSpaces: false, preserveNewlines: false, wrap: false },
+  'pre': { preserveSpaces: true, preserveNewlines: true, wrap: false },
+  'pre-wrap': { preserveSpaces: true, preserveNewlines: true, wrap: true },
+  'pre-line': { preserveSpaces: false, preserveNewlines: true, wrap: true },
+  'break-spaces': { preserveSpaces: true, preserveNewlines: true, wrap: true }
+};
+
+// Tab stop width in spaces when no tab-size is set
+export const DEFAULT_TAB_SIZE = 8;
+
+// Font size that em, rem and % lengths are relative to when no size is set
+export const BASE_FONT_SIZE = 14;
+
+// Absolute font-size keywords in px
+export const FONT_SIZE_KEYWORDS: Record<string, number> = {
+  'xx-small': 9,
+  'x-small': 10,
+  'small': 13,
+  'medium': 16,
+  'large': 18,
+  'x-large': 24,
+  'xx-large': 32,
+  'xxx-large': 48
+};
+
+// Keywords that may precede the size in the `font` shorthand
+export const FONT_SHORTHAND_KEYWORDS = ['normal', 'italic', 'oblique', 'bold', 'bolder', 'lighter', 'small-caps'] as const;
+
+// Unknown-tag actions applied unless the unknownTags option overrides them
+export const DEFAULT_UNKNOWN_TAG_ACTIONS: Readonly<Record<string, UnknownTagAction>> = {
+  script: 'remove',
+  template: 'remove'
+};
+
+// URL schemes that run script; links using them are reported as unsafe
+export const UNSAFE_URL_SCHEMES: ReadonlySet<string> = new Set(['javascript', 'vbscript', 'data']);
+
+// Allow-lists of the built-in sanitizer profiles
+const BASIC_FORMATTING_TAGS = ['b', 'strong', 'i', 'em', 'u', 's', 'strike', 'del', 'sub', 'sup', 'small', 'code', 'br', 'p', 'a'];
+
+export const SANITIZER_PROFILES: Readonly<Record<SanitizerProfileName, SanitizerConfig>> = {
+  'strict': {
+    tags: ['p', 'br']
+  },
+  'basic-formatting': {
+    tags: BASIC_FORMATTING_TAGS,
+    attributes: { a: ['href'] },
+    urlSchemes: ['http', 'https', 'mailto']
+  },
+  'rich': {
+    tags: [
+      ...BASIC_FORMATTING_TAGS,
+      'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'span', 'mark', 'pre', 'kbd', 'samp', 'blockquote', 'cite',
+      'table', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td'
+    ],
+    attributes: {
+      '*': ['class', 'style', 'title'], a: ['href'], ol: ['start', 'type'], ul: ['type'],
+      th: ['colspan', 'rowspan'], td: ['colspan', 'rowspan']
+    },
+    cssProperties: [
+      'color', 'font', 'font-weight', 'font-style', 'font-size', 'font-family', 'text-decoration',
+      'text-decoration-line', 'text-decoration-color', 'text-decoration-style', 'text-decoration-thickness',
+      'line-height', 'letter-spacing', 'word-spacing', 'background', 'background-color', 'padding', 'border-radius',
+      'border', 'border-color', 'border-width', 'white-space', 'tab-size'
+    ],
+    urlSchemes: ['http', 'https', 'mailto', 'tel']
+  }
+};
+
+// Heading sizes relative to the default font size, so the light theme keeps the sizes above at 14px
+const DEFAULT_HEADING_SCALE = Object.fromEntries(
+  Object.entries(headingSizes).map(([tagName, size]) => [tagName, size / BASE_FONT_SIZE])
+) as Record<HeadingTag, number>;
+
+// Styles the themes set for tags, keyed by tag name
+const themeTagStyles = (colors: {
+  link: string; code: string; muted: string; highlight: string; highlightBackground: string; keyBackground: string; keyBorder: string
+}): ResolvedTheme['tags'] => ({
+  a: { color: colors.link },
+  code: { color: colors.code },
+  pre: { color: colors.code },
+  kbd: { color: colors.code, backgroundColor: colors.keyBackground, borderColor: colors.keyBorder },
+  samp: { color: colors.code },
+  mark: { color: colors.highlight, backgroundColor: colors.highlightBackground },
+  small: { color: colors.muted },
+  blockquote: { color: colors.muted },
+  cite: { color: colors.muted },
+  s: { color: colors.muted },
+  strike: { color: colors.muted },
+  del: { color: colors.muted }
+});
+
+export const THEME_PRESETS: Readonly<Record<ThemePresetName, ResolvedTheme>> = {
+  'light': {
+    textColor: DEFAULT_COLORS.BLACK,
+    background: 'transparent',
+    tags: themeTagStyles({
+      link: TAG_COLORS.LINK,
+      code: TAG_COLORS.CODE,
+      muted: TAG_COLORS.MUTED,
+      highlight: TAG_COLORS.HIGHLIGHT,
+      highlightBackground: TAG_COLORS.HIGHLIGHT_BACKGROUND,
+      keyBackground: TAG_COLORS.KEY_BACKGROUND,
+      keyBorder: TAG_COLORS.KEY_BORDER
+    }),
+    headingScale: DEFAULT_HEADING_SCALE,
+    headingSpacing: 0.5,
+    listIndent: 20,
+    tableBorderColor: TAG_COLORS.TABLE_BORDER,
+    tableHeaderBackground: TAG_COLORS.TABLE_HEADER_BACKGROUND,
+    quoteIndent: 16,
+    quoteBarColor: TAG_COLORS.QUOTE_BAR
+  },
+  'dark': {
+    textColor: '#e6e6e6',
+    background: '#1e1e1e',
+    tags: themeTagStyles({
+      link: '#6cb6ff',
+      code: '#f69d50',
+      muted: '#9ca3af',
+      highlight: '#ffd866',
+      highlightBackground: '#5c4813',
+      keyBackground: '#161b22',
+      keyBorder: '#30363d'
+    }),
+    headingScale: DEFAULT_HEADING_SCALE,
+    headingSpacing: 0.5,
+    listIndent: 20,
+    tableBorderColor: '#30363d',
+    tableHeaderBackground: '#161b22',
+    quoteIndent: 16,
+    quoteBarColor: '#3d444d'
+  },
+  'print': {
+    textColor: DEFAULT_COLORS.BLACK,
+    background: DEFAULT_COLORS.WHITE,
+    tags: themeTagStyles({
+      link: DEFAULT_COLORS.BLACK,
+      code: DEFAULT_COLORS.BLACK,
+      muted: '#555555',
+      highlight: DEFAULT_COLORS.BLACK,
+      highlightBackground: '#ffff00',
+      keyBackground: DEFAULT_COLORS.WHITE,
+      keyBorder: DEFAULT_COLORS.BLACK
+    }),
+    headingScale: { h1: 2, h2: 1.5, h3: 1.25, h4: 1.1, h5: 1, h6: 0.9 },
+    headingSpacing: 0.4,
+    listIndent: 24,
+    tableBorderColor: DEFAULT_COLORS.BLACK,
+    tableHeaderBackground: '#eeeeee',
+    quoteIndent: 20,
+    quoteBarColor: '#555555'
+  }
+};
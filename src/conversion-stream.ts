@@ -0,0 +1,58 @@
+import { TextSegment, VegaLiteSpec, ConversionResult, Diagnostic } from './types';
+import { StreamingHTMLParser } from './streaming-parser';
+
+/**
+ * Lays out segments and generates a spec, reporting problems to the optional collector
+ */
+export type SegmentRenderer = (segments: TextSegment[], diagnostics?: Diagnostic[]) => VegaLiteSpec;
+
+/**
+ * Chunked HTML to Vega-Lite conversion, created by `HTMLToVegaLite.createStream()`
+ *
+ * Parsing is incremental; layout and spec generation rerun over all segments after each chunk,
+ * since a later chunk can change line wrapping and bounds.
+ */
+export class HTMLToVegaLiteStream {
+  private parser: StreamingHTMLParser;
+  private render: SegmentRenderer;
+  private spec: VegaLiteSpec;
+
+  constructor(parser: StreamingHTMLParser, render: SegmentRenderer) {
+    this.parser = parser;
+    this.render = render;
+    this.spec = this.render([]);
+  }
+
+  /**
+   * Add the next chunk of HTML
+   *
+   * @param chunk - Next piece of the document
+   * @returns Spec for everything received so far
+   */
+  public write(chunk: string): VegaLiteSpec {
+    this.parser.write(chunk);
+    this.spec = this.render(this.parser.getSegments());
+    return this.spec;
+  }
+
+  /**
+   * Finish the document
+   *
+   * @returns Final spec with the diagnostics from parsing, layout and generation
+   */
+  public end(): ConversionResult {
+    const diagnostics: Diagnostic[] = [];
+    const parseResult = this.parser.end();
+    diagnostics.push(...(parseResult.diagnostics ?? []));
+
+    this.spec = this.render(parseResult.segments, diagnostics);
+    return { spec: this.spec, diagnostics };
+  }
+
+  /**
+   * Get the spec for everything received so far
+   */
+  public getSpec(): VegaLiteSpec {
+    return this.spec;
+  }
+}
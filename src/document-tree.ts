@@ -0,0 +1,132 @@
+import { BlockNode, DocumentContent, DocumentNode, InlineNode, SourceRange, TextSegment } from './types';
+import { TextHelpers } from './helpers/text';
+import { DocumentHelpers } from './helpers/document';
+import { SpacingAnalyzer } from './spacing-analyzer';
+
+/**
+ * Builds the document tree while HTMLParser runs the tag strategies
+ *
+ * The parser opens and closes an element for every tag a strategy handles and appends each
+ * segment it produces to the innermost open element, so the leaves of the tree are the raw
+ * segments in order. `build()` then applies the whitespace normalization and spacing analysis to
+ * the leaves, which makes `DocumentHelpers.toSegments()` of the result equal to the segments
+ * HTMLParser.parseHTML returns.
+ */
+export class DocumentTreeBuilder {
+  private root: DocumentNode;
+  private openElements: Array<BlockNode | InlineNode>;
+
+  constructor() {
+    this.root = { type: 'document', children: [] };
+    this.openElements = [];
+  }
+
+  /**
+   * Open an element; segments appended until it is closed become its content
+   *
+   * @param tagName - Lower-case tag name
+   * @param attributes - Attribute source the strategy received
+   * @param range - Source range of the start tag
+   * @param isBlock - Whether the element is a block (its strategy breaks lines)
+   */
+  public openElement(tagName: string, attributes: string, range: SourceRange, isBlock: boolean): void {
+    if (isBlock) {
+      this.markContainsBlock();
+    }
+    const element: BlockNode | InlineNode = { type: isBlock ? 'block' : 'inline', tagName, attributes, range, children: [] };
+    this.currentChildren().push(element);
+    this.openElements.push(element);
+  }
+
+  /**
+   * Close the innermost open element with this tag name and every element opened inside it
+   *
+   * @param tagName - Lower-case tag name
+   */
+  public closeElement(tagName: string): void {
+    for (let i = this.openElements.length - 1; i >= 0; i--) {
+      if (this.openElements[i]?.tagName === tagName) {
+        this.openElements.length = i;
+        return;
+      }
+    }
+  }
+
+  /**
+   * Append raw segments to the innermost open element
+   *
+   * @param segments - Segments in the order the parser produced them
+   */
+  public appendSegments(segments: TextSegment[]): void {
+    const children = this.currentChildren();
+    for (const segment of segments) {
+      children.push(segment.text === '\n' ? { type: 'line-break', segment } : { type: 'text', segment });
+    }
+  }
+
+  /**
+   * Build the finished tree: normalize the whitespace of the text runs, drop those left empty and assign spacing
+   *
+   * @param source - Source the segment offsets refer to
+   * @param textColor - Default text color of the parse, see SpacingAnalyzer.assignSpacing
+   * @returns New document tree; the builder can keep growing
+   */
+  public build(source: string, textColor?: string): DocumentNode {
+    const document: DocumentNode = { type: 'document', children: this.normalizeChildren(this.root.children) };
+
+    const leaves = DocumentHelpers.getLeaves(document);
+    // A lone segment keeps no spacing metadata, as in SpacingAnalyzer.analyzeAndAssignSpacing
+    if (leaves.length > 1) {
+      leaves.forEach((leaf, index) => {
+        leaf.segment = SpacingAnalyzer.assignSpacing(leaf.segment, leaves[index + 1]?.segment ?? null, source, textColor);
+      });
+    }
+    return document;
+  }
+
+  /**
+   * Copy nodes with normalized segments, leaving out text runs that are only collapsible whitespace
+   */
+  private normalizeChildren(children: DocumentContent[]): DocumentContent[] {
+    const normalized: DocumentContent[] = [];
+    // Child lists still to copy, each with the list its copies go into; deep nesting must not exhaust the call stack
+    const pending: Array<{ children: DocumentContent[]; into: DocumentContent[] }> = [{ children, into: normalized }];
+
+    for (let next = pending.pop(); next; next = pending.pop()) {
+      for (const child of next.children) {
+        if (child.type === 'block' || child.type === 'inline') {
+          const copy: BlockNode | InlineNode = { ...child, children: [] };
+          next.into.push(copy);
+          pending.push({ children: child.children, into: copy.children });
+          continue;
+        }
+        // Preformatted text splits into its lines
+        for (const segment of TextHelpers.normalizeSegmentWhitespace([child.segment])) {
+          next.into.push(segment.text === '\n' ? { type: 'line-break', segment } : { type: 'text', segment });
+        }
+      }
+    }
+    return normalized;
+  }
+
+  /**
+   * Flag the open inline elements a block is opening inside, up to the innermost open block.
+   * Those further out were flagged when that block opened.
+   */
+  private markContainsBlock(): void {
+    for (let i = this.openElements.length - 1; i >= 0; i--) {
+      const element = this.openElements[i];
+      if (!element || element.type === 'block' || element.containsBlock) {
+        return;
+      }
+      element.containsBlock = true;
+    }
+  }
+
+  /**
+   * Get the child list new content goes into
+   */
+  private currentChildren(): DocumentContent[] {
+    return (this.openElements[this.openElements.length - 1] ?? this.root).children;
+  }
+}
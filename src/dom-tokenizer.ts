@@ -0,0 +1,108 @@
+import { HTMLToken, TokenizedDocument } from './types';
+import { HTMLTokenizer } from './tokenizer';
+import { TagBalancer } from './tag-balancer';
+import { AttributeHelpers } from './helpers/attributes';
+
+/**
+ * Turns an already parsed DOM tree (browser or jsdom) into the token stream HTMLTokenizer
+ * and TagBalancer produce for markup, so the tree is dispatched to the same tag strategies
+ * without serializing and re-parsing it.
+ *
+ * Attribute values are read from `Element.attributes`, so they arrive decoded and without
+ * quoting ambiguity. Alongside the tokens a canonical serialization is built, because segment
+ * source offsets and the spacing analysis refer to source text.
+ */
+export class DOMTokenizer {
+  private static readonly ELEMENT_NODE = 1;
+  private static readonly TEXT_NODE = 3;
+  private static readonly DOCUMENT_NODE = 9;
+  private static readonly DOCUMENT_FRAGMENT_NODE = 11;
+
+  /**
+   * Check if a value is a DOM node. Works for jsdom nodes in Node.js, where `Node` is not a global.
+   *
+   * @param value - Value to check
+   * @returns true for objects with a numeric `nodeType` and `childNodes`
+   */
+  public static isNode(value: unknown): value is Node {
+    return typeof value === 'object' && value !== null &&
+           typeof (value as Node).nodeType === 'number' &&
+           typeof (value as Node).childNodes === 'object';
+  }
+
+  /**
+   * Tokenize a node and its descendants.
+   * A Document contributes its body (or root element); a DocumentFragment its children.
+   *
+   * @param node - Root of the tree to convert
+   * @returns Tokens and the canonical source their offsets refer to
+   */
+  public tokenize(node: Node): TokenizedDocument {
+    const tokens: HTMLToken[] = [];
+    let source = '';
+
+    const append = (token: Omit<HTMLToken, 'start' | 'end'>, markup: string): void => {
+      tokens.push({ ...token, start: source.length, end: source.length + markup.length });
+      source += markup;
+    };
+
+    const visit = (current: Node, rawText: boolean): void => {
+      switch (current.nodeType) {
+        case DOMTokenizer.TEXT_NODE: {
+          const text = current.nodeValue ?? '';
+          if (text) {
+            // Raw text content is kept verbatim, as HTMLTokenizer reads it from markup
+            const markup = rawText ? text : this.escapeText(text);
+            append({ type: 'text', text: markup }, markup);
+          }
+          break;
+        }
+        case DOMTokenizer.ELEMENT_NODE: {
+          const element = current as Element;
+          const tagName = element.localName.toLowerCase();
+          const attributes = this.serializeAttributes(element);
+
+          append({ type: 'start-tag', tagName, attributes }, `<${tagName}${attributes}>`);
+          if (TagBalancer.VOID_TAGS.has(tagName)) break;
+
+          const isRawText = HTMLTokenizer.isRawTextTag(tagName);
+          element.childNodes.forEach(child => visit(child, isRawText));
+          append({ type: 'end-tag', tagName }, `</${tagName}>`);
+          break;
+        }
+        case DOMTokenizer.DOCUMENT_NODE: {
+          const root = (current as Document).body ?? (current as Document).documentElement;
+          if (root) {
+            root.childNodes.forEach(child => visit(child, false));
+          }
+          break;
+        }
+        case DOMTokenizer.DOCUMENT_FRAGMENT_NODE:
+          current.childNodes.forEach(child => visit(child, false));
+          break;
+        default:
+          // Comments, processing instructions and doctypes carry no renderable content
+          break;
+      }
+    };
+
+    visit(node, false);
+    return { tokens, source };
+  }
+
+  /**
+   * Serialize an element's attributes in the form the tag strategies read: ` name="value"`
+   */
+  private serializeAttributes(element: Element): string {
+    return AttributeHelpers.serializeAttributes(
+      Array.from(element.attributes, (attribute): [string, string] => [attribute.name, attribute.value])
+    );
+  }
+
+  /**
+   * Escape text so the parser's character reference decoding restores it
+   */
+  private escapeText(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+  }
+}
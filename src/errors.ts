@@ -0,0 +1,35 @@
+import { LimitName, SourceRange } from './types';
+
+/**
+ * Thrown when the unknown-tag policy is `error` and the input contains a tag without a strategy
+ */
+export class UnsupportedTagError extends Error {
+  /** Lower-case name of the tag */
+  public readonly tagName: string;
+  /** Source range of the tag */
+  public readonly range: SourceRange;
+
+  constructor(tagName: string, range: SourceRange) {
+    super(`Unsupported tag: ${tagName}`);
+    this.name = 'UnsupportedTagError';
+    this.tagName = tagName;
+    this.range = range;
+  }
+}
+
+/**
+ * Thrown when a conversion limit is exceeded and `limits.onLimitExceeded` is `throw`
+ */
+export class LimitExceededError extends Error {
+  /** Limit that was exceeded */
+  public readonly limit: LimitName;
+  /** Configured maximum */
+  public readonly max: number;
+
+  constructor(limit: LimitName, max: number, message: string) {
+    super(message);
+    this.name = 'LimitExceededError';
+    this.limit = limit;
+    this.max = max;
+  }
+}
@@ -0,0 +1,83 @@
+import { EntityHelpers } from './entities';
+
+/**
+ * Attribute parsing and serialization for the raw attribute source of tag tokens
+ */
+export class AttributeHelpers {
+  /** One attribute: name, then an optional double-quoted, single-quoted or unquoted value */
+  private static readonly ATTRIBUTE_PATTERN = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+  /**
+   * Parse the raw attribute source of a tag
+   *
+   * Names are lower-cased, values have character references decoded, attributes without a
+   * value map to the empty string, and the first occurrence of a repeated name wins, as in HTML.
+   *
+   * @param attributes - Attribute source between the tag name and `>`
+   * @returns Attribute values by name, in source order
+   */
+  static parseAttributes(attributes: string): Map<string, string> {
+    const parsed = new Map<string, string>();
+
+    for (const match of attributes.matchAll(this.ATTRIBUTE_PATTERN)) {
+      const name = match[1]?.toLowerCase();
+      if (!name || parsed.has(name)) continue;
+
+      const raw = match[2] ?? match[3] ?? match[4] ?? '';
+      parsed.set(name, EntityHelpers.decodeAttributeValue(raw));
+    }
+
+    return parsed;
+  }
+
+  /**
+   * Get the scheme of a URL attribute value, as browsers read it
+   *
+   * @param url - Decoded URL
+   * @returns Lower-case scheme, or undefined for relative URLs
+   */
+  static getUrlScheme(url: string): string | undefined {
+    // Browsers ignore control characters and spaces inside the scheme (`java\tscript:`)
+    return /^([a-zA-Z][a-zA-Z0-9+.-]*):/.exec(url.replace(/[\u0000- \u007F]/g, ''))?.[1]?.toLowerCase();
+  }
+
+  /**
+   * Read an integer attribute value (`<ol start="3">`, `<td colspan="2">`)
+   *
+   * @param attributes - Parsed attributes
+   * @param name - Lower-case attribute name
+   * @returns The value, or undefined if the attribute is missing or not an integer
+   */
+  static getInteger(attributes: ReadonlyMap<string, string>, name: string): number | undefined {
+    const value = attributes.get(name)?.trim();
+    return value !== undefined && /^[+-]?\d+$/.test(value) ? parseInt(value, 10) : undefined;
+  }
+
+  /**
+   * Read an enumerated attribute value, matched case-insensitively
+   *
+   * @param attributes - Parsed attributes
+   * @param name - Lower-case attribute name
+   * @param values - Allowed values
+   * @returns The matching allowed value, or undefined if the attribute is missing or not allowed
+   */
+  static getEnum<T extends string>(attributes: ReadonlyMap<string, string>, name: string, values: readonly T[]): T | undefined {
+    const value = attributes.get(name)?.trim().toLowerCase();
+    return values.find(allowed => allowed.toLowerCase() === value);
+  }
+
+  /**
+   * Serialize attributes in canonical form: ` name="value"` with `&` and quotes escaped
+   *
+   * @param attributes - Attribute values by name
+   * @returns Attribute source that parses back to the same values
+   */
+  static serializeAttributes(attributes: Iterable<[string, string]>): string {
+    let serialized = '';
+    for (const [name, value] of attributes) {
+      const escaped = value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+      serialized += ` ${name}="${escaped}"`;
+    }
+    return serialized;
+  }
+}
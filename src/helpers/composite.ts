@@ -1,5 +1,6 @@
-import { TextStyle } from '../types';
-import { LIST_TAGS, LIST_PREFIXES } from '../constants';
+import { TextStyle, ValidationResult, CompositeState, TableCell } from '../types';
+import { AttributeHelpers } from './attributes';
+import { LIST_TAGS, LIST_PREFIXES, TABLE_TAGS } from '../constants';
 
 /**
  * Generic helper functions for composite tag strategies (tag families like lists, tables, backquotes, etc.)
@@ -11,25 +12,41 @@ import { LIST_TAGS, LIST_PREFIXES } from '../constants';
  * - Generic stack operations for composite structures
  */
 export class CompositeHelpers {
-  /** Static counters for any composite family that needs numbering */
-  private static counters: Map<string, Map<string, number>> = new Map();
-  
-  /** Static stacks to track current context for each composite family */
-  private static stacks: Map<string, string[]> = new Map();
+  /** State used when strategies are called directly; every parse creates its own (see HTMLParser.createParseState) */
+  private static defaultState: CompositeState = CompositeHelpers.createState();
+
+  /**
+   * Create empty state for a parse
+   * 
+   * @returns State with no open containers and no counters
+   */
+  static createState(): CompositeState {
+    return { stacks: new Map(), counters: new Map() };
+  }
+
+  /**
+   * Get the state used when strategies are called directly instead of through a parse
+   * 
+   * @returns Shared state for direct calls
+   */
+  static getDefaultState(): CompositeState {
+    return CompositeHelpers.defaultState;
+  }
 
   /**
    * Reset all state for a specific composite family (or all families if no family specified)
    * 
    * @param family - Optional family identifier (e.g., 'list', 'table', 'backquote')
+   * @param state - Composite state of the parse (defaults to the state for direct calls)
    */
-  static resetCompositeState(family?: string): void {
+  static resetCompositeState(family?: string, state: CompositeState = CompositeHelpers.defaultState): void {
     if (family) {
-      CompositeHelpers.counters.delete(family);
-      CompositeHelpers.stacks.delete(family);
+      state.counters.delete(family);
+      state.stacks.delete(family);
     } else {
       // Reset all families
-      CompositeHelpers.counters.clear();
-      CompositeHelpers.stacks.clear();
+      state.counters.clear();
+      state.stacks.clear();
     }
   }
 
@@ -51,23 +68,24 @@ export class CompositeHelpers {
    * @param family - Family identifier
    * @param tagType - Type of tag within family
    * @param needsCounter - Whether this tag type needs a counter
+   * @param state - Composite state of the parse (defaults to the state for direct calls)
    */
-  static pushToStack(family: string, tagType: string, needsCounter = false): void {
+  static pushToStack(family: string, tagType: string, needsCounter = false, state: CompositeState = CompositeHelpers.defaultState): void {
     // Ensure family stack exists
-    if (!CompositeHelpers.stacks.has(family)) {
-      CompositeHelpers.stacks.set(family, []);
+    if (!state.stacks.has(family)) {
+      state.stacks.set(family, []);
     }
     
-    const stack = CompositeHelpers.stacks.get(family)!;
+    const stack = state.stacks.get(family)!;
     stack.push(tagType);
     
     if (needsCounter) {
       // Ensure family counters exist
-      if (!CompositeHelpers.counters.has(family)) {
-        CompositeHelpers.counters.set(family, new Map());
+      if (!state.counters.has(family)) {
+        state.counters.set(family, new Map());
       }
       
-      const familyCounters = CompositeHelpers.counters.get(family)!;
+      const familyCounters = state.counters.get(family)!;
       const key = CompositeHelpers.generateCounterKey(family, tagType, stack.length);
       familyCounters.set(key, 0);
     }
@@ -79,10 +97,11 @@ export class CompositeHelpers {
    * 
    * @param family - Family identifier
    * @param shouldCleanupCounters - Whether to cleanup counters for this family
+   * @param state - Composite state of the parse (defaults to the state for direct calls)
    * @returns The tag type that was popped, or undefined if stack was empty
    */
-  static popFromStack(family: string, shouldCleanupCounters = false): string | undefined {
-    const stack = CompositeHelpers.stacks.get(family);
+  static popFromStack(family: string, shouldCleanupCounters = false, state: CompositeState = CompositeHelpers.defaultState): string | undefined {
+    const stack = state.stacks.get(family);
     if (!stack || stack.length === 0) {
       return undefined;
     }
@@ -90,7 +109,7 @@ export class CompositeHelpers {
     const poppedType = stack.pop()!;
     
     if (shouldCleanupCounters) {
-      const familyCounters = CompositeHelpers.counters.get(family);
+      const familyCounters = state.counters.get(family);
       if (familyCounters) {
         const key = CompositeHelpers.generateCounterKey(family, poppedType, stack.length + 1);
         familyCounters.delete(key);
@@ -104,10 +123,11 @@ export class CompositeHelpers {
    * Get current nesting level for a composite family
    * 
    * @param family - Family identifier
+   * @param state - Composite state of the parse (defaults to the state for direct calls)
    * @returns Current nesting level
    */
-  static getCurrentNestingLevel(family: string): number {
-    const stack = CompositeHelpers.stacks.get(family);
+  static getCurrentNestingLevel(family: string, state: CompositeState = CompositeHelpers.defaultState): number {
+    const stack = state.stacks.get(family);
     return stack ? stack.length : 0;
   }
 
@@ -115,10 +135,11 @@ export class CompositeHelpers {
    * Get the parent tag type for current context in a family
    * 
    * @param family - Family identifier
+   * @param state - Composite state of the parse (defaults to the state for direct calls)
    * @returns Parent tag type or undefined if not in context
    */
-  static getParentType(family: string): string | undefined {
-    const stack = CompositeHelpers.stacks.get(family);
+  static getParentType(family: string, state: CompositeState = CompositeHelpers.defaultState): string | undefined {
+    const stack = state.stacks.get(family);
     return stack && stack.length > 0 ? stack[stack.length - 1] : undefined;
   }
 
@@ -126,11 +147,12 @@ export class CompositeHelpers {
    * Get current context for a composite family (for testing/debugging)
    * 
    * @param family - Family identifier
+   * @param state - Composite state of the parse (defaults to the state for direct calls)
    * @returns Current context with stack and counters for the family
    */
-  static getCompositeContext(family: string): { stack: string[], counters: Map<string, number> } {
-    const stack = CompositeHelpers.stacks.get(family) || [];
-    const counters = CompositeHelpers.counters.get(family) || new Map();
+  static getCompositeContext(family: string, state: CompositeState = CompositeHelpers.defaultState): { stack: string[], counters: Map<string, number> } {
+    const stack = state.stacks.get(family) || [];
+    const counters = state.counters.get(family) || new Map();
     
     return {
       stack: [...stack],
@@ -142,10 +164,11 @@ export class CompositeHelpers {
    * Check if currently inside a composite family context
    * 
    * @param family - Family identifier
+   * @param state - Composite state of the parse (defaults to the state for direct calls)
    * @returns true if currently parsing within the family
    */
-  static isInCompositeContext(family: string): boolean {
-    const stack = CompositeHelpers.stacks.get(family);
+  static isInCompositeContext(family: string, state: CompositeState = CompositeHelpers.defaultState): boolean {
+    const stack = state.stacks.get(family);
     return stack ? stack.length > 0 : false;
   }
 
@@ -153,10 +176,11 @@ export class CompositeHelpers {
    * Get the current stack for a composite family (for debugging/logging)
    * 
    * @param family - Family identifier  
+   * @param state - Composite state of the parse (defaults to the state for direct calls)
    * @returns Array of tag types in the current stack
    */
-  static getCompositeStack(family: string): readonly string[] {
-    const stack = CompositeHelpers.stacks.get(family);
+  static getCompositeStack(family: string, state: CompositeState = CompositeHelpers.defaultState): readonly string[] {
+    const stack = state.stacks.get(family);
     return stack ? [...stack] : [];
   }
 
@@ -166,10 +190,11 @@ export class CompositeHelpers {
    * @param family - Family identifier
    * @param tagType - Tag type that needs numbering
    * @param nestingLevel - Current nesting level
+   * @param state - Composite state of the parse (defaults to the state for direct calls)
    * @returns Current counter value after increment
    */
-  static incrementAndGetCounter(family: string, tagType: string, nestingLevel: number): number {
-    const familyCounters = CompositeHelpers.counters.get(family);
+  static incrementAndGetCounter(family: string, tagType: string, nestingLevel: number, state: CompositeState = CompositeHelpers.defaultState): number {
+    const familyCounters = state.counters.get(family);
     if (!familyCounters) {
       return 1;
     }
@@ -190,12 +215,15 @@ export class CompositeHelpers {
  */
 export class ListHelpers {
   private static readonly FAMILY = 'list';
+  private static readonly ATTRIBUTES: ReadonlySet<string> = new Set(['class', 'id', 'style', 'title', 'type', 'start']);
 
   /**
    * Reset all list state (useful for starting fresh parsing)
+   * 
+   * @param state - Composite state of the parse (defaults to the state for direct calls)
    */
-  static resetListState(): void {
-    CompositeHelpers.resetCompositeState(ListHelpers.FAMILY);
+  static resetListState(state: CompositeState = CompositeHelpers.getDefaultState()): void {
+    CompositeHelpers.resetCompositeState(ListHelpers.FAMILY, state);
   }
 
   /**
@@ -213,62 +241,86 @@ export class ListHelpers {
    * Push list type to stack when entering a list container
    * 
    * @param listType - Type of list (ul or ol)
+   * @param state - Composite state of the parse (defaults to the state for direct calls)
    */
-  static pushListToStack(listType: string): void {
+  static pushListToStack(listType: string, state: CompositeState = CompositeHelpers.getDefaultState()): void {
     const needsCounter = listType === LIST_TAGS.ORDERED_LIST;
-    CompositeHelpers.pushToStack(ListHelpers.FAMILY, listType, needsCounter);
+    CompositeHelpers.pushToStack(ListHelpers.FAMILY, listType, needsCounter, state);
+  }
+
+  /**
+   * Number the items of the ordered list just pushed from its start attribute, if it has a valid one
+   * 
+   * @param attributes - Parsed attributes of the <ol> tag
+   * @param state - Composite state of the parse (defaults to the state for direct calls)
+   */
+  static applyListStart(attributes: ReadonlyMap<string, string>, state: CompositeState = CompositeHelpers.getDefaultState()): void {
+    const start = AttributeHelpers.getInteger(attributes, 'start');
+    const familyCounters = state.counters.get(ListHelpers.FAMILY);
+    if (start === undefined || !familyCounters) {
+      return;
+    }
+
+    // The first item increments the counter to the start number
+    const key = ListHelpers.generateCounterKey(LIST_TAGS.ORDERED_LIST, ListHelpers.getCurrentNestingLevel(state));
+    familyCounters.set(key, start - 1);
   }
 
   /**
    * Pop list type from stack when exiting a list container
    * Also cleans up any associated counters for ordered lists
    * 
+   * @param state - Composite state of the parse (defaults to the state for direct calls)
    * @returns The list type that was popped, or undefined if stack was empty
    */
-  static popListFromStack(): string | undefined {
-    return CompositeHelpers.popFromStack(ListHelpers.FAMILY, true);
+  static popListFromStack(state: CompositeState = CompositeHelpers.getDefaultState()): string | undefined {
+    return CompositeHelpers.popFromStack(ListHelpers.FAMILY, true, state);
   }
 
   /**
    * Get current list stack depth
    * 
+   * @param state - Composite state of the parse (defaults to the state for direct calls)
    * @returns Current nesting level
    */
-  static getCurrentNestingLevel(): number {
-    return CompositeHelpers.getCurrentNestingLevel(ListHelpers.FAMILY);
+  static getCurrentNestingLevel(state: CompositeState = CompositeHelpers.getDefaultState()): number {
+    return CompositeHelpers.getCurrentNestingLevel(ListHelpers.FAMILY, state);
   }
 
   /**
    * Get the parent list type for current context
    * 
+   * @param state - Composite state of the parse (defaults to the state for direct calls)
    * @returns Parent list type or undefined if not in a list
    */
-  static getParentListType(): string | undefined {
-    return CompositeHelpers.getParentType(ListHelpers.FAMILY);
+  static getParentListType(state: CompositeState = CompositeHelpers.getDefaultState()): string | undefined {
+    return CompositeHelpers.getParentType(ListHelpers.FAMILY, state);
   }
 
   /**
    * Generate list item prefix based on current list context
    * 
    * @param listItemTag - The list item tag (should be 'li')
+   * @param state - Composite state of the parse (defaults to the state for direct calls)
    * @returns Prefix string (e.g., '• ' or '1. ') or empty string if not applicable
    */
-  static getListItemPrefix(listItemTag: string): string {
+  static getListItemPrefix(listItemTag: string, state: CompositeState = CompositeHelpers.getDefaultState()): string {
     if (listItemTag !== LIST_TAGS.LIST_ITEM) {
       return '';
     }
 
-    const parentListType = ListHelpers.getParentListType();
+    const parentListType = ListHelpers.getParentListType(state);
     
     if (parentListType === LIST_TAGS.UNORDERED_LIST) {
       return LIST_PREFIXES.BULLET;
     } else if (parentListType === LIST_TAGS.ORDERED_LIST) {
       // Increment counter and return numbered prefix
-      const nestingLevel = ListHelpers.getCurrentNestingLevel();
+      const nestingLevel = ListHelpers.getCurrentNestingLevel(state);
       const currentCount = CompositeHelpers.incrementAndGetCounter(
         ListHelpers.FAMILY, 
         LIST_TAGS.ORDERED_LIST, 
-        nestingLevel
+        nestingLevel,
+        state
       );
       return currentCount + LIST_PREFIXES.NUMBER_SUFFIX;
     }
@@ -281,17 +333,18 @@ export class ListHelpers {
    * 
    * @param style - Text style to modify
    * @param tagName - HTML tag name
+   * @param state - Composite state of the parse (defaults to the state for direct calls)
    * @returns Modified text style with list properties
    */
-  static applyListStyling(style: TextStyle, tagName: string): TextStyle {
+  static applyListStyling(style: TextStyle, tagName: string, state: CompositeState = CompositeHelpers.getDefaultState()): TextStyle {
     const normalizedTagName = tagName.toLowerCase();
     
     if (normalizedTagName === LIST_TAGS.LIST_ITEM) {
-      const parentListType = ListHelpers.getParentListType();
+      const parentListType = ListHelpers.getParentListType(state);
       return {
         ...style,
         isListItem: true,
-        listNestingLevel: ListHelpers.getCurrentNestingLevel(),
+        listNestingLevel: ListHelpers.getCurrentNestingLevel(state),
         listType: parentListType as 'ul' | 'ol'
       };
     }
@@ -302,10 +355,11 @@ export class ListHelpers {
   /**
    * Get current list context for testing
    * 
+   * @param state - Composite state of the parse (defaults to the state for direct calls)
    * @returns Current list context with stack and counters
    */
-  static getListContext(): { stack: string[], counters: Map<string, number> } {
-    return CompositeHelpers.getCompositeContext(ListHelpers.FAMILY);
+  static getListContext(state: CompositeState = CompositeHelpers.getDefaultState()): { stack: string[], counters: Map<string, number> } {
+    return CompositeHelpers.getCompositeContext(ListHelpers.FAMILY, state);
   }
 
   /**
@@ -321,22 +375,48 @@ export class ListHelpers {
            normalizedTag === LIST_TAGS.LIST_ITEM;
   }
 
+  /**
+   * Validate the attributes of a list tag: only common attributes and the list attributes
+   * are supported, and `start` must be an integer
+   * 
+   * @param attributes - Raw attribute source
+   * @returns Validation result with errors
+   */
+  static validateListAttributes(attributes: string): ValidationResult {
+    const parsed = AttributeHelpers.parseAttributes(attributes);
+    const errors: string[] = [];
+    
+    if ([...parsed.keys()].some(name => !ListHelpers.ATTRIBUTES.has(name))) {
+      errors.push('Invalid or unsupported attributes for list tag');
+    }
+    if (parsed.has('start') && AttributeHelpers.getInteger(parsed, 'start') === undefined) {
+      errors.push(`Invalid start attribute for list tag: ${parsed.get('start')}`);
+    }
+    
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
   /**
    * Check if currently inside a list context
    * 
+   * @param state - Composite state of the parse (defaults to the state for direct calls)
    * @returns true if currently parsing within a list
    */
-  static isInListContext(): boolean {
-    return CompositeHelpers.isInCompositeContext(ListHelpers.FAMILY);
+  static isInListContext(state: CompositeState = CompositeHelpers.getDefaultState()): boolean {
+    return CompositeHelpers.isInCompositeContext(ListHelpers.FAMILY, state);
   }
 
   /**
    * Get the depth of list nesting for debugging/logging
    * 
+   * @param state - Composite state of the parse (defaults to the state for direct calls)
    * @returns Array of list types in the current stack
    */
-  static getListStack(): readonly string[] {
-    return CompositeHelpers.getCompositeStack(ListHelpers.FAMILY);
+  static getListStack(state: CompositeState = CompositeHelpers.getDefaultState()): readonly string[] {
+    return CompositeHelpers.getCompositeStack(ListHelpers.FAMILY, state);
   }
 
   /**
@@ -358,44 +438,208 @@ export class ListHelpers {
 }
 
 /**
- * Example helper class for other composite tag families
- * This demonstrates how to use CompositeHelpers for other tag families
+ * Table-specific helper functions that use the generic CompositeHelpers
+ * 
+ * Besides the stack of open tables, the table family counters hold for each nesting level the
+ * number of the table, its row count, the next free column of the current row and, for each
+ * column, the last row that a cell spanning down from an earlier row covers.
+ */
+export class TableHelpers {
+  private static readonly FAMILY = 'table';
+
+  /**
+   * Reset all table state
+   * 
+   * @param state - Composite state of the parse (defaults to the state for direct calls)
+   */
+  static resetTableState(state: CompositeState = CompositeHelpers.getDefaultState()): void {
+    CompositeHelpers.resetCompositeState(TableHelpers.FAMILY, state);
+  }
+
+  /**
+   * Number the table just pushed to the stack and forget the grid of an earlier table at its level
+   * 
+   * @param state - Composite state of the parse (defaults to the state for direct calls)
+   */
+  static startTable(state: CompositeState = CompositeHelpers.getDefaultState()): void {
+    const level = CompositeHelpers.getCurrentNestingLevel(TableHelpers.FAMILY, state);
+    const counters = TableHelpers.getCounters(state);
+    for (const key of [...counters.keys()]) {
+      if (key.startsWith(`${TableHelpers.FAMILY}-span-${level}-`)) {
+        counters.delete(key);
+      }
+    }
+
+    const tableNumber = (counters.get(`${TableHelpers.FAMILY}-tables`) ?? 0) + 1;
+    counters.set(`${TableHelpers.FAMILY}-tables`, tableNumber);
+    counters.set(`${TableHelpers.FAMILY}-number-${level}`, tableNumber);
+    counters.set(`${TableHelpers.FAMILY}-column-${level}`, 0);
+  }
+
+  /**
+   * Start a new row in the innermost table
+   * 
+   * @param state - Composite state of the parse (defaults to the state for direct calls)
+   */
+  static startRow(state: CompositeState = CompositeHelpers.getDefaultState()): void {
+    const level = CompositeHelpers.getCurrentNestingLevel(TableHelpers.FAMILY, state);
+    if (level === 0) return;
+
+    CompositeHelpers.incrementAndGetCounter(TableHelpers.FAMILY, TABLE_TAGS.TABLE, level, state);
+    TableHelpers.getCounters(state).set(`${TableHelpers.FAMILY}-column-${level}`, 0);
+  }
+
+  /**
+   * Place a cell in the current row of the innermost table, after the columns that cells of
+   * earlier rows span into, and reserve the columns and rows it spans
+   * 
+   * @param colSpan - Number of columns the cell spans, at least 1
+   * @param rowSpan - Number of rows the cell spans, at least 1
+   * @param header - Whether the cell is a header cell
+   * @param state - Composite state of the parse (defaults to the state for direct calls)
+   * @returns Place of the cell, or undefined outside a table
+   */
+  static placeCell(colSpan: number, rowSpan: number, header: boolean, state: CompositeState = CompositeHelpers.getDefaultState()): TableCell | undefined {
+    const level = CompositeHelpers.getCurrentNestingLevel(TableHelpers.FAMILY, state);
+    if (level === 0) return undefined;
+
+    const counters = TableHelpers.getCounters(state);
+    const rowKey = CompositeHelpers.generateCounterKey(TableHelpers.FAMILY, TABLE_TAGS.TABLE, level);
+    if (!counters.get(rowKey)) {
+      // A cell outside of any row starts one
+      TableHelpers.startRow(state);
+    }
+    const row = (counters.get(rowKey) ?? 1) - 1;
+
+    let column = counters.get(`${TableHelpers.FAMILY}-column-${level}`) ?? 0;
+    while ((counters.get(`${TableHelpers.FAMILY}-span-${level}-${column}`) ?? -1) >= row) {
+      column++;
+    }
+    for (let spanned = column; spanned < column + colSpan; spanned++) {
+      counters.set(`${TableHelpers.FAMILY}-span-${level}-${spanned}`, row + rowSpan - 1);
+    }
+    counters.set(`${TableHelpers.FAMILY}-column-${level}`, column + colSpan);
+
+    return {
+      table: counters.get(`${TableHelpers.FAMILY}-number-${level}`) ?? 0,
+      row,
+      column,
+      rowSpan,
+      colSpan,
+      header
+    };
+  }
+
+  /**
+   * Validate table attributes: colspan and rowspan must be positive integers
+   * 
+   * @param attributes - HTML attributes string
+   * @returns Validation result
+   */
+  static validateTableAttributes(attributes: string): ValidationResult {
+    const parsed = AttributeHelpers.parseAttributes(attributes);
+    const errors: string[] = [];
+
+    for (const name of ['colspan', 'rowspan']) {
+      const value = AttributeHelpers.getInteger(parsed, name);
+      if (parsed.has(name) && (value === undefined || value < 1)) {
+        errors.push(`Invalid ${name} attribute for table cell: ${parsed.get(name)}`);
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Check if currently inside a table
+   * 
+   * @param state - Composite state of the parse (defaults to the state for direct calls)
+   * @returns true if currently parsing within a table
+   */
+  static isInTableContext(state: CompositeState = CompositeHelpers.getDefaultState()): boolean {
+    return CompositeHelpers.isInCompositeContext(TableHelpers.FAMILY, state);
+  }
+
+  /**
+   * Get the counters of the table family, creating them if needed
+   */
+  private static getCounters(state: CompositeState): Map<string, number> {
+    if (!state.counters.has(TableHelpers.FAMILY)) {
+      state.counters.set(TableHelpers.FAMILY, new Map());
+    }
+    return state.counters.get(TableHelpers.FAMILY)!;
+  }
+}
+
+/**
+ * Blockquote-specific helper functions that use the generic CompositeHelpers
+ * 
+ * The backquote family stack holds the open blockquotes; its counters number the blockquotes
+ * of a parse.
  */
 export class BackquoteHelpers {
   private static readonly FAMILY = 'backquote';
 
   /**
    * Reset all backquote state
+   * 
+   * @param state - Composite state of the parse (defaults to the state for direct calls)
    */
-  static resetBackquoteState(): void {
-    CompositeHelpers.resetCompositeState(BackquoteHelpers.FAMILY);
+  static resetBackquoteState(state: CompositeState = CompositeHelpers.getDefaultState()): void {
+    CompositeHelpers.resetCompositeState(BackquoteHelpers.FAMILY, state);
   }
 
   /**
-   * Push backquote type to stack (e.g., 'code', 'pre', 'kbd')
+   * Push backquote type to stack (e.g., 'blockquote')
+   * 
+   * @param state - Composite state of the parse (defaults to the state for direct calls)
    */
-  static pushBackquoteToStack(tagType: string): void {
-    CompositeHelpers.pushToStack(BackquoteHelpers.FAMILY, tagType);
+  static pushBackquoteToStack(tagType: string, state: CompositeState = CompositeHelpers.getDefaultState()): void {
+    CompositeHelpers.pushToStack(BackquoteHelpers.FAMILY, tagType, false, state);
   }
 
   /**
    * Pop backquote type from stack
+   * 
+   * @param state - Composite state of the parse (defaults to the state for direct calls)
    */
-  static popBackquoteFromStack(): string | undefined {
-    return CompositeHelpers.popFromStack(BackquoteHelpers.FAMILY);
+  static popBackquoteFromStack(state: CompositeState = CompositeHelpers.getDefaultState()): string | undefined {
+    return CompositeHelpers.popFromStack(BackquoteHelpers.FAMILY, false, state);
   }
 
   /**
    * Check if currently inside a backquote context
+   * 
+   * @param state - Composite state of the parse (defaults to the state for direct calls)
+   */
+  static isInBackquoteContext(state: CompositeState = CompositeHelpers.getDefaultState()): boolean {
+    return CompositeHelpers.isInCompositeContext(BackquoteHelpers.FAMILY, state);
+  }
+
+  /**
+   * Number the next blockquote of the parse, from 1
+   * 
+   * @param state - Composite state of the parse (defaults to the state for direct calls)
    */
-  static isInBackquoteContext(): boolean {
-    return CompositeHelpers.isInCompositeContext(BackquoteHelpers.FAMILY);
+  static numberQuote(state: CompositeState = CompositeHelpers.getDefaultState()): number {
+    if (!state.counters.has(BackquoteHelpers.FAMILY)) {
+      state.counters.set(BackquoteHelpers.FAMILY, new Map());
+    }
+    const counters = state.counters.get(BackquoteHelpers.FAMILY)!;
+    const quoteNumber = (counters.get(`${BackquoteHelpers.FAMILY}-quotes`) ?? 0) + 1;
+    counters.set(`${BackquoteHelpers.FAMILY}-quotes`, quoteNumber);
+    return quoteNumber;
   }
 
   /**
    * Get current backquote context for testing
+   * 
+   * @param state - Composite state of the parse (defaults to the state for direct calls)
    */
-  static getBackquoteContext(): { stack: string[], counters: Map<string, number> } {
-    return CompositeHelpers.getCompositeContext(BackquoteHelpers.FAMILY);
+  static getBackquoteContext(state: CompositeState = CompositeHelpers.getDefaultState()): { stack: string[], counters: Map<string, number> } {
+    return CompositeHelpers.getCompositeContext(BackquoteHelpers.FAMILY, state);
   }
 }
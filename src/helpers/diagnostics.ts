@@ -0,0 +1,82 @@
+import { Diagnostic, DiagnosticCode, DiagnosticSeverity, SourceRange, TextSegment, ValidationResult } from '../types';
+
+/**
+ * Utility functions for creating and combining diagnostics
+ */
+export class DiagnosticHelpers {
+  /**
+   * Create a diagnostic, leaving out the tag name and range when they are unknown
+   *
+   * @param code - Stable diagnostic code
+   * @param severity - Diagnostic severity
+   * @param message - Human-readable message
+   * @param tagName - Tag the diagnostic is about
+   * @param range - Source range the diagnostic refers to
+   * @returns New diagnostic
+   */
+  static create(
+    code: DiagnosticCode,
+    severity: DiagnosticSeverity,
+    message: string,
+    tagName?: string,
+    range?: SourceRange
+  ): Diagnostic {
+    const diagnostic: Diagnostic = { code, severity, message };
+    if (tagName !== undefined) {
+      diagnostic.tagName = tagName;
+    }
+    if (range !== undefined) {
+      diagnostic.range = range;
+    }
+    return diagnostic;
+  }
+
+  /**
+   * Get the source range of a segment
+   *
+   * @param segment - Text segment
+   * @returns Source range, or undefined for generated text
+   */
+  static segmentRange(segment: TextSegment): SourceRange | undefined {
+    if (segment.sourceStart === undefined || segment.sourceEnd === undefined) {
+      return undefined;
+    }
+    return { start: segment.sourceStart, end: segment.sourceEnd };
+  }
+
+  /**
+   * Get the structured diagnostics of a validation result
+   *
+   * Strategies that only report message strings get `invalid-attribute` warnings.
+   *
+   * @param validation - Result of a strategy's validateAttributes
+   * @returns Diagnostics for every validation error
+   */
+  static fromValidation(validation: ValidationResult): Diagnostic[] {
+    return validation.diagnostics ??
+      validation.errors.map(message => this.create('invalid-attribute', 'warning', message));
+  }
+
+  /**
+   * Fill in the tag name and range of diagnostics reported without them
+   *
+   * @param diagnostics - Diagnostics reported for a tag
+   * @param tagName - Tag being parsed
+   * @param range - Source range of the tag
+   * @returns Diagnostics with tag name and range set
+   */
+  static withTagContext(diagnostics: Diagnostic[], tagName: string, range: SourceRange): Diagnostic[] {
+    return diagnostics.map(diagnostic => ({
+      ...diagnostic,
+      tagName: diagnostic.tagName ?? tagName,
+      range: diagnostic.range ?? range
+    }));
+  }
+
+  /**
+   * Check if a diagnostic should be surfaced to the author (errors and warnings)
+   */
+  static isReportable(diagnostic: Diagnostic): boolean {
+    return diagnostic.severity !== 'info';
+  }
+}
@@ -0,0 +1,99 @@
+import { DocumentContent, DocumentNode, InlineContent, LineBreakNode, TextRun, TextSegment } from '../types';
+
+/**
+ * Utility functions for walking and lowering the document tree
+ */
+export class DocumentHelpers {
+  /**
+   * Lower a document tree, or part of one, to the flat segments HTMLParser.parseHTML returns
+   *
+   * @param node - Document, block or inline node
+   * @returns Segments of every text run and line break, in document order
+   */
+  static toSegments(node: DocumentNode | DocumentContent): TextSegment[] {
+    return this.getLeaves(node).map(leaf => leaf.segment);
+  }
+
+  /**
+   * Collect the text runs and line breaks of a node in document order
+   *
+   * @param node - Document, block or inline node
+   * @returns Leaf nodes
+   */
+  static getLeaves(node: DocumentNode | DocumentContent): Array<TextRun | LineBreakNode> {
+    const leaves: Array<TextRun | LineBreakNode> = [];
+    // Nodes still to visit, the next one last; deep nesting must not exhaust the call stack
+    const pending: Array<DocumentNode | DocumentContent> = [node];
+
+    for (let current = pending.pop(); current; current = pending.pop()) {
+      if (current.type === 'text' || current.type === 'line-break') {
+        leaves.push(current);
+        continue;
+      }
+      for (let i = current.children.length - 1; i >= 0; i--) {
+        const child = current.children[i];
+        if (child) pending.push(child);
+      }
+    }
+    return leaves;
+  }
+
+  /**
+   * Split a node into inline flows: the segments of each maximal run of inline content that
+   * shares a parent, in document order. Blocks always start a new flow; a table is one flow, as
+   * its cells are laid out together.
+   *
+   * @param node - Document, block or inline node
+   * @returns Segments of each flow
+   */
+  static getFlows(node: DocumentNode | DocumentContent): TextSegment[][] {
+    if (this.isInline(node) || this.isTable(node)) {
+      return [this.toSegments(node)];
+    }
+
+    const flows: TextSegment[][] = [];
+    let inline: TextSegment[] = [];
+    const endFlow = (): void => {
+      if (inline.length > 0) {
+        flows.push(inline);
+        inline = [];
+      }
+    };
+
+    // Nodes still to visit, the next one last; null marks the end of an element's children
+    const pending: Array<DocumentNode | DocumentContent | null> = [node];
+    while (pending.length > 0) {
+      const current = pending.pop();
+      if (!current) {
+        endFlow();
+      } else if (this.isInline(current)) {
+        for (const segment of this.toSegments(current)) inline.push(segment);
+      } else if (this.isTable(current)) {
+        endFlow();
+        flows.push(this.toSegments(current));
+      } else {
+        endFlow();
+        pending.push(null);
+        for (let i = current.children.length - 1; i >= 0; i--) {
+          const child = current.children[i];
+          if (child) pending.push(child);
+        }
+      }
+    }
+    return flows;
+  }
+
+  /**
+   * Check if a node is inline content with no block below it
+   */
+  private static isInline(node: DocumentNode | DocumentContent): node is InlineContent {
+    return node.type === 'text' || node.type === 'line-break' || (node.type === 'inline' && !node.containsBlock);
+  }
+
+  /**
+   * Check if a node is a table, which is laid out as one flow
+   */
+  private static isTable(node: DocumentNode | DocumentContent): boolean {
+    return node.type === 'block' && node.tagName === 'table';
+  }
+}
@@ -0,0 +1,139 @@
+import { NAMED_CHARACTER_REFERENCES, LEGACY_CHARACTER_REFERENCES } from '../html-entities';
+
+/**
+ * Character reference decoding for text content and attribute values
+ */
+export class EntityHelpers {
+  /** Longest named reference in the HTML5 table (`CounterClockwiseContourIntegral`) */
+  private static readonly MAX_NAME_LENGTH = 32;
+
+  /** Windows-1252 replacements browsers apply to numeric references in the C1 range */
+  private static readonly C1_REPLACEMENTS: Record<number, number> = {
+    0x80: 0x20AC, 0x82: 0x201A, 0x83: 0x0192, 0x84: 0x201E, 0x85: 0x2026, 0x86: 0x2020,
+    0x87: 0x2021, 0x88: 0x02C6, 0x89: 0x2030, 0x8A: 0x0160, 0x8B: 0x2039, 0x8C: 0x0152,
+    0x8E: 0x017D, 0x91: 0x2018, 0x92: 0x2019, 0x93: 0x201C, 0x94: 0x201D, 0x95: 0x2022,
+    0x96: 0x2013, 0x97: 0x2014, 0x98: 0x02DC, 0x99: 0x2122, 0x9A: 0x0161, 0x9B: 0x203A,
+    0x9C: 0x0153, 0x9E: 0x017E, 0x9F: 0x0178
+  };
+
+  /**
+   * Decode named and numeric character references in text content
+   *
+   * @param text - Raw text as written in the HTML source
+   * @returns Text with `&amp;`, `&#8212;`, `&#x2014;`, `&eacute;` etc. replaced by their characters
+   */
+  static decodeText(text: string): string {
+    return this.decode(text, false);
+  }
+
+  /**
+   * Decode character references in an attribute value
+   *
+   * Legacy references without a semicolon are left alone when followed by `=` or an
+   * alphanumeric character, so query strings like `?a=1&copy=2` survive intact.
+   *
+   * @param value - Raw attribute value (without quotes)
+   * @returns Decoded attribute value
+   */
+  static decodeAttributeValue(value: string): string {
+    return this.decode(value, true);
+  }
+
+  /**
+   * Shared decoding routine following the HTML5 character reference state
+   */
+  private static decode(input: string, inAttribute: boolean): string {
+    if (input.indexOf('&') === -1) {
+      return input;
+    }
+
+    let output = '';
+    let index = 0;
+
+    while (index < input.length) {
+      const ampIndex = input.indexOf('&', index);
+      if (ampIndex === -1) {
+        output += input.slice(index);
+        break;
+      }
+
+      output += input.slice(index, ampIndex);
+      const reference = input.charAt(ampIndex + 1) === '#'
+        ? this.readNumericReference(input, ampIndex)
+        : this.readNamedReference(input, ampIndex, inAttribute);
+
+      if (reference) {
+        output += reference.value;
+        index = ampIndex + reference.length;
+      } else {
+        output += '&';
+        index = ampIndex + 1;
+      }
+    }
+
+    return output;
+  }
+
+  /**
+   * Read a `&#123;` or `&#x7B;` reference starting at the given `&`
+   */
+  private static readNumericReference(input: string, ampIndex: number): { value: string; length: number } | null {
+    const match = /^&#(?:[xX]([0-9a-fA-F]+)|([0-9]+));?/.exec(input.slice(ampIndex, ampIndex + 16));
+    if (!match) {
+      return null;
+    }
+
+    const codePoint = match[1] !== undefined ? parseInt(match[1], 16) : parseInt(match[2] ?? '', 10);
+    return { value: this.codePointToString(codePoint), length: match[0].length };
+  }
+
+  /**
+   * Read a named reference such as `&amp;` starting at the given `&`
+   */
+  private static readNamedReference(
+    input: string,
+    ampIndex: number,
+    inAttribute: boolean
+  ): { value: string; length: number } | null {
+    const match = /^[a-zA-Z][a-zA-Z0-9]*/.exec(input.slice(ampIndex + 1, ampIndex + 1 + this.MAX_NAME_LENGTH));
+    if (!match) {
+      return null;
+    }
+
+    const name = match[0];
+    if (input.charAt(ampIndex + 1 + name.length) === ';') {
+      const value = NAMED_CHARACTER_REFERENCES[name];
+      if (value !== undefined) {
+        return { value, length: name.length + 2 };
+      }
+    }
+
+    // Without a semicolon only legacy references are recognised, longest prefix first
+    for (let length = Math.min(name.length, 6); length >= 2; length--) {
+      const candidate = name.slice(0, length);
+      if (!LEGACY_CHARACTER_REFERENCES.has(candidate)) continue;
+
+      const next = input.charAt(ampIndex + 1 + length);
+      if (inAttribute && (next === '=' || /[a-zA-Z0-9]/.test(next))) {
+        return null;
+      }
+
+      const value = NAMED_CHARACTER_REFERENCES[candidate];
+      return value !== undefined ? { value, length: length + 1 } : null;
+    }
+
+    return null;
+  }
+
+  /**
+   * Convert a numeric reference to a string, applying the HTML5 replacement rules
+   */
+  private static codePointToString(codePoint: number): string {
+    if (codePoint === 0 || codePoint > 0x10FFFF || (codePoint >= 0xD800 && codePoint <= 0xDFFF)) {
+      return '\uFFFD';
+    }
+
+    const replacement = this.C1_REPLACEMENTS[codePoint];
+    return String.fromCodePoint(replacement ?? codePoint);
+  }
+}
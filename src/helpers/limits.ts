@@ -0,0 +1,57 @@
+import { Diagnostic, LimitName, ParseOptions } from '../types';
+import { DiagnosticHelpers } from './diagnostics';
+import { LimitExceededError } from '../errors';
+
+/**
+ * Utility functions for enforcing the conversion limits of `ParseOptions.limits`
+ */
+export class LimitHelpers {
+  /**
+   * Handle an exceeded limit: throw if the limits say so, otherwise report it once
+   *
+   * @param options - Parse options holding the limits
+   * @param limit - Limit that was exceeded
+   * @param max - Configured maximum
+   * @param diagnostics - Collector the `limit-exceeded` diagnostic is added to
+   * @throws LimitExceededError if `onLimitExceeded` is `throw`
+   */
+  static exceed(options: ParseOptions, limit: LimitName, max: number, diagnostics: Diagnostic[]): void {
+    const message = this.describe(limit, max);
+    if (options.limits?.onLimitExceeded === 'throw') {
+      throw new LimitExceededError(limit, max, message);
+    }
+    const truncated = `${message}; content past the limit was dropped`;
+    if (!diagnostics.some(diagnostic => diagnostic.code === 'limit-exceeded' && diagnostic.message === truncated)) {
+      diagnostics.push(DiagnosticHelpers.create('limit-exceeded', 'warning', truncated));
+    }
+  }
+
+  /**
+   * Cut HTML to a maximum length, also dropping a tag the cut would split
+   *
+   * @param html - HTML source
+   * @param max - Maximum length
+   * @returns Leading part of the source
+   */
+  static truncateHTML(html: string, max: number): string {
+    const truncated = html.slice(0, max);
+    const lastOpen = truncated.lastIndexOf('<');
+    return lastOpen > truncated.lastIndexOf('>') ? truncated.slice(0, lastOpen) : truncated;
+  }
+
+  /**
+   * Describe an exceeded limit
+   */
+  private static describe(limit: LimitName, max: number): string {
+    switch (limit) {
+      case 'input-length':
+        return `Input is longer than the limit of ${max} characters`;
+      case 'nesting-depth':
+        return `Elements are nested deeper than the limit of ${max}`;
+      case 'segments':
+        return `Output has more than the limit of ${max} text segments`;
+      case 'processing-time':
+        return `Parsing took longer than the limit of ${max}ms`;
+    }
+  }
+}
@@ -1,10 +1,33 @@
-import { TextStyle, TextSegment, TextMeasurement } from '../types';
-import { colorMap, inverseHeadingSizes, FONT_STYLE, FONT_WEIGHT, TEXT_DECORATION, VALID_FONT_WEIGHTS, VALID_FONT_STYLES, VALID_TEXT_DECORATIONS } from '../constants';
+import {
+  TextStyle, TextSegment, TextMeasurement, ValidationResult, Diagnostic, FontWeight,
+  TextDecoration, TextDecorationLine, TextDecorationStyle, BoxPadding, WhiteSpace
+} from '../types';
+import { AttributeHelpers } from './attributes';
+import { DiagnosticHelpers } from './diagnostics';
+import {
+  colorMap, headingSizes, FONT_STYLE, FONT_WEIGHT, TEXT_DECORATION, VALID_FONT_STYLES, VALID_TEXT_DECORATIONS, VALID_TEXT_DECORATION_STYLES, VALID_BORDER_STYLES,
+  VALID_WHITE_SPACES, BASE_FONT_SIZE, FONT_SIZE_KEYWORDS, FONT_SHORTHAND_KEYWORDS, DEFAULT_COLORS
+} from '../constants';
+
+/**
+ * Parts of a text-decoration value
+ */
+interface TextDecorationParts {
+  lines?: TextDecorationLine[];
+  style?: TextDecorationStyle;
+  color?: string | 'currentcolor';
+  thickness?: number | 'auto';
+}
 
 /**
  * Style utility functions for font/weight/size/color resolution and CSS parsing
  */
 export class StyleHelpers {
+  // Properties that shape the box drawn behind text
+  private static readonly BOX_PROPERTIES: ReadonlyArray<keyof TextStyle> = [
+    'backgroundColor', 'backgroundOpacity', 'backgroundPadding', 'backgroundRadius', 'borderColor', 'borderWidth'
+  ];
+
   /**
    * Get default text style
    * 
@@ -24,44 +47,142 @@ export class StyleHelpers {
    * Extract style attribute from HTML attributes string
    * 
    * @param attributes - HTML attributes string
-   * @returns Extracted style string or null if not found
+   * @returns Extracted style string with character references decoded, or null if not found
    */
   static extractStyleAttribute(attributes: string): string | null {
-    const styleMatch = attributes.match(/style=['"](.*?)['"]/);
-    return styleMatch && styleMatch[1] ? styleMatch[1] : null;
+    return AttributeHelpers.parseAttributes(attributes).get('style') || null;
+  }
+
+  /**
+   * Split a CSS declaration list into properties and values
+   * 
+   * @param styleStr - CSS style string (`color: red; font-weight: bold`)
+   * @returns Declarations in source order, with lower-cased property names
+   */
+  static parseDeclarations(styleStr: string): Array<{ property: string; value: string }> {
+    const declarations: Array<{ property: string; value: string }> = [];
+    for (const declaration of styleStr.split(';')) {
+      const colon = declaration.indexOf(':');
+      if (colon === -1) continue;
+      
+      const property = declaration.slice(0, colon).trim().toLowerCase();
+      const value = declaration.slice(colon + 1).trim();
+      if (property && value) {
+        declarations.push({ property, value });
+      }
+    }
+    return declarations;
   }
 
   /**
    * Parse CSS color property and apply to style
    * 
+   * The color is stored in canonical form, with its alpha as `opacity`. Invalid values and
+   * `currentColor` leave the inherited color in place.
+   * 
    * @param styleStr - CSS style string
    * @param style - TextStyle object to modify
    */
   static parseColor(styleStr: string, style: TextStyle): void {
-    const colorMatch = styleStr.match(/color:\s*([^;]+)/);
-    if (colorMatch && colorMatch[1]) {
-      style.color = colorMatch[1].trim();
+    const value = this.getDeclarationValue(styleStr, 'color');
+    if (value === null || value.toLowerCase() === 'currentcolor') return;
+
+    const parsed = this.parseCssColor(value);
+    if (!parsed) return;
+
+    style.color = parsed.color;
+    if (parsed.alpha < 1) {
+      style.opacity = parsed.alpha;
+    } else {
+      delete style.opacity;
     }
   }
 
+  /**
+   * Convert a CSS color to canonical form
+   * 
+   * Accepts the named colors, `transparent`, `#rgb`, `#rgba`, `#rrggbb`, `#rrggbbaa`, and
+   * `rgb()`, `rgba()`, `hsl()` and `hsla()` in both the comma and the space syntax.
+   * 
+   * @param value - CSS color value
+   * @returns Lower-case `#rrggbb` color and alpha from 0 to 1, or null if the value is not a color
+   */
+  static parseCssColor(value: string): { color: string; alpha: number } | null {
+    const color = value.trim().toLowerCase();
+    if (color === 'transparent') {
+      return { color: colorMap['black'] ?? '#000000', alpha: 0 };
+    }
+    const named = colorMap[color];
+    if (named) {
+      return { color: named, alpha: 1 };
+    }
+
+    const hex = color.match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/);
+    if (hex?.[1]) {
+      const digits = hex[1].length <= 4 ? hex[1].replace(/./g, digit => digit + digit) : hex[1];
+      const alpha = digits.length === 8 ? parseInt(digits.slice(6), 16) / 255 : 1;
+      return { color: `#${digits.slice(0, 6)}`, alpha: this.roundAlpha(alpha) };
+    }
+
+    const fn = color.match(/^(rgba?|hsla?)\((.*)\)$/);
+    if (!fn?.[1] || fn[2] === undefined) return null;
+
+    // Comma syntax `rgb(1, 2, 3, 0.5)` or space syntax `rgb(1 2 3 / 50%)`
+    const args = fn[2].trim();
+    let channels: string[];
+    let alphaArg: string | undefined;
+    if (args.includes(',')) {
+      channels = args.split(',').map(arg => arg.trim());
+      alphaArg = channels.length === 4 ? channels.pop() : undefined;
+    } else {
+      const [channelArgs = '', slashAlpha, ...rest] = args.split('/');
+      if (rest.length > 0) return null;
+      channels = channelArgs.trim().split(/\s+/);
+      alphaArg = slashAlpha?.trim();
+    }
+    if (channels.length !== 3) return null;
+
+    const alpha = alphaArg === undefined ? 1 : this.parseColorNumber(alphaArg, 1);
+    const rgb = fn[1].startsWith('rgb')
+      ? channels.map(channel => this.parseColorNumber(channel, 255))
+      : this.hslToRgb(channels);
+    if (alpha === null || !rgb || rgb.some(channel => channel === null)) return null;
+
+    const hexColor = (rgb as number[])
+      .map(channel => Math.round(Math.min(255, Math.max(0, channel))).toString(16).padStart(2, '0'))
+      .join('');
+    return { color: `#${hexColor}`, alpha: this.roundAlpha(Math.min(1, Math.max(0, alpha))) };
+  }
+
   /**
    * Parse CSS font-weight property and apply to style
    * 
+   * `bolder` and `lighter` are relative to the weight the style has so far. Invalid values
+   * leave it in place.
+   * 
    * @param styleStr - CSS style string
    * @param style - TextStyle object to modify
    */
   static parseFontWeight(styleStr: string, style: TextStyle): void {
-    const fontWeightMatch = styleStr.match(/font-weight:\s*([^;]+)/);
-    if (fontWeightMatch && fontWeightMatch[1]) {
-      const weight = fontWeightMatch[1].trim();
-      if (weight === 'bold' || parseInt(weight) >= 600) {
-        style.fontWeight = 'bold';
-      } else {
-        style.fontWeight = 'normal';
-      }
+    const value = this.getDeclarationValue(styleStr, 'font-weight');
+    const weight = value === null ? null : this.resolveFontWeight(value, style.fontWeight);
+    if (weight !== null) {
+      style.fontWeight = weight;
     }
   }
 
+  /**
+   * Get the numeric value of a font weight
+   * 
+   * @param weight - Font weight
+   * @returns Weight from 1 to 1000 (`normal` is 400, `bold` is 700)
+   */
+  static getNumericFontWeight(weight: FontWeight): number {
+    if (weight === FONT_WEIGHT.NORMAL) return 400;
+    if (weight === FONT_WEIGHT.BOLD) return 700;
+    return weight;
+  }
+
   /**
    * Parse CSS font-style property and apply to style
    * 
@@ -81,34 +202,534 @@ export class StyleHelpers {
   }
 
   /**
-   * Parse CSS text-decoration property and apply to style
+   * Parse the CSS text-decoration shorthand and its longhands and apply to style
+   * 
+   * The shorthand resets the color, style and thickness it leaves out. Declarations are
+   * applied in source order; invalid ones are ignored.
    * 
    * @param styleStr - CSS style string
    * @param style - TextStyle object to modify
    */
   static parseTextDecoration(styleStr: string, style: TextStyle): void {
-    const textDecorationMatch = styleStr.match(/text-decoration:\s*([^;]+)/);
-    if (textDecorationMatch && textDecorationMatch[1]) {
-      const decoration = textDecorationMatch[1].trim();
-      if (decoration.includes('underline')) {
-        style.textDecoration = 'underline';
+    for (const { property, value } of this.parseDeclarations(styleStr)) {
+      if (!property.startsWith('text-decoration')) continue;
+      const decoration = this.resolveTextDecoration(property, value, style.fontSize);
+      if (!decoration) continue;
+
+      if (property === 'text-decoration') {
+        delete style.textDecorationColor;
+        delete style.textDecorationStyle;
+        delete style.textDecorationThickness;
+        style.textDecoration = this.combineDecorationLines(decoration.lines ?? []);
+      } else if (decoration.lines) {
+        style.textDecoration = this.combineDecorationLines(decoration.lines);
+      }
+      if (decoration.style) {
+        style.textDecorationStyle = decoration.style;
+      }
+      if (decoration.color === 'currentcolor') {
+        delete style.textDecorationColor;
+      } else if (decoration.color) {
+        style.textDecorationColor = decoration.color;
+      }
+      if (decoration.thickness === 'auto') {
+        delete style.textDecorationThickness;
+      } else if (decoration.thickness !== undefined) {
+        style.textDecorationThickness = decoration.thickness;
+      }
+    }
+  }
+
+  /**
+   * Get the lines of a text decoration
+   * 
+   * @param decoration - Text decoration
+   * @returns Lines in the order underline, overline, line-through (empty for `none`)
+   */
+  static getDecorationLines(decoration?: TextDecoration): TextDecorationLine[] {
+    return (decoration ?? TEXT_DECORATION.NONE)
+      .split(' ')
+      .filter((line): line is TextDecorationLine => line !== TEXT_DECORATION.NONE);
+  }
+
+  /**
+   * Add a line to a text decoration, keeping the lines it already has
+   * 
+   * @param decoration - Text decoration
+   * @param line - Line to add
+   * @returns Combined text decoration
+   */
+  static addDecorationLine(decoration: TextDecoration | undefined, line: TextDecorationLine): TextDecoration {
+    return this.combineDecorationLines([...this.getDecorationLines(decoration), line]);
+  }
+
+  /**
+   * Parse CSS font-size property and apply to style
+   * 
+   * @param styleStr - CSS style string
+   * @param style - TextStyle object to modify
+   */
+  static parseFontSize(styleStr: string, style: TextStyle): void {
+    const value = this.getDeclarationValue(styleStr, 'font-size');
+    const fontSize = value === null ? null : this.resolveFontSize(value, style.fontSize);
+    if (fontSize !== null) {
+      style.fontSize = fontSize;
+    }
+  }
+
+  /**
+   * Parse CSS font-family property and apply to style
+   * 
+   * @param styleStr - CSS style string
+   * @param style - TextStyle object to modify
+   */
+  static parseFontFamily(styleStr: string, style: TextStyle): void {
+    const value = this.getDeclarationValue(styleStr, 'font-family');
+    if (value) {
+      // Canvas fonts and Vega text marks both take the CSS fallback list as is
+      style.fontFamily = value;
+    }
+  }
+
+  /**
+   * Parse CSS line-height property and apply to style
+   * 
+   * @param styleStr - CSS style string
+   * @param style - TextStyle object to modify
+   */
+  static parseLineHeight(styleStr: string, style: TextStyle): void {
+    const value = this.getDeclarationValue(styleStr, 'line-height');
+    const lineHeight = value === null ? null : this.resolveLineHeight(value, style.fontSize);
+    if (lineHeight === 'normal') {
+      delete style.lineHeight;
+    } else if (lineHeight !== null) {
+      style.lineHeight = lineHeight;
+    }
+  }
+
+  /**
+   * Parse CSS letter-spacing and word-spacing properties and apply to style
+   * 
+   * @param styleStr - CSS style string
+   * @param style - TextStyle object to modify
+   */
+  static parseSpacing(styleStr: string, style: TextStyle): void {
+    for (const property of ['letterSpacing', 'wordSpacing'] as const) {
+      const value = this.getDeclarationValue(styleStr, property === 'letterSpacing' ? 'letter-spacing' : 'word-spacing');
+      const spacing = value === null ? null : this.resolveSpacing(value, style.fontSize);
+      if (spacing === 'normal') {
+        delete style[property];
+      } else if (spacing !== null) {
+        style[property] = spacing;
+      }
+    }
+  }
+
+  /**
+   * Parse CSS white-space and tab-size properties and apply to style
+   * 
+   * @param styleStr - CSS style string
+   * @param style - TextStyle object to modify
+   */
+  static parseWhiteSpace(styleStr: string, style: TextStyle): void {
+    const whiteSpace = this.getDeclarationValue(styleStr, 'white-space')?.toLowerCase();
+    if (whiteSpace === 'normal') {
+      delete style.whiteSpace;
+    } else if ((VALID_WHITE_SPACES as readonly string[]).includes(whiteSpace ?? '')) {
+      style.whiteSpace = whiteSpace as WhiteSpace;
+    }
+
+    const value = this.getDeclarationValue(styleStr, 'tab-size');
+    const tabSize = value === null ? null : this.resolveTabSize(value);
+    if (tabSize !== null) {
+      style.tabSize = tabSize;
+    }
+  }
+
+  /**
+   * Parse CSS background-color (or a background shorthand holding only a color), padding,
+   * border-radius and border and apply to style
+   * 
+   * Padding, radius and border shape the rect drawn behind the text without moving the text. A
+   * transparent background keeps the inherited one, which would show through it.
+   * 
+   * @param styleStr - CSS style string
+   * @param style - TextStyle object to modify
+   */
+  static parseBackground(styleStr: string, style: TextStyle): void {
+    for (const { property, value } of this.parseDeclarations(styleStr)) {
+      if (property.startsWith('border') && property !== 'border-radius') {
+        const border = this.resolveBorder(property, value, style);
+        if (border?.width === 0) {
+          delete style.borderWidth;
+          delete style.borderColor;
+        } else if (border) {
+          if (border.width !== undefined) {
+            style.borderWidth = border.width;
+          }
+          if (border.color) {
+            style.borderColor = border.color;
+          }
+        }
+        continue;
+      }
+      if (property !== 'background-color' && property !== 'background') continue;
+      const background = this.resolveBackgroundColor(value, style);
+      if (!background || background.alpha === 0) continue;
+
+      style.backgroundColor = background.color;
+      if (background.alpha < 1) {
+        style.backgroundOpacity = background.alpha;
       } else {
-        style.textDecoration = 'none';
+        delete style.backgroundOpacity;
       }
     }
+
+    const padding = this.getDeclarationValue(styleStr, 'padding');
+    const backgroundPadding = padding === null ? null : this.resolvePadding(padding, style.fontSize);
+    if (backgroundPadding) {
+      style.backgroundPadding = backgroundPadding;
+    }
+
+    const radius = this.getDeclarationValue(styleStr, 'border-radius');
+    const backgroundRadius = radius === null ? null : this.parseLength(radius, style.fontSize);
+    if (backgroundRadius !== null && backgroundRadius >= 0) {
+      style.backgroundRadius = backgroundRadius;
+    }
+  }
+
+  /**
+   * Parse the CSS font shorthand (`italic bold 16px/1.5 Georgia, serif`) and apply to style
+   * 
+   * Like in CSS, the shorthand resets the style, weight and line height it leaves out.
+   * 
+   * @param styleStr - CSS style string
+   * @param style - TextStyle object to modify
+   */
+  static parseFontShorthand(styleStr: string, style: TextStyle): void {
+    const value = this.getDeclarationValue(styleStr, 'font');
+    const font = value === null ? null : this.resolveFontShorthand(value, style.fontSize, style.fontWeight);
+    if (!font) return;
+
+    style.fontStyle = font.fontStyle;
+    style.fontWeight = font.fontWeight;
+    style.fontSize = font.fontSize;
+    style.fontFamily = font.fontFamily;
+    if (font.lineHeight === 'normal') {
+      delete style.lineHeight;
+    } else {
+      style.lineHeight = font.lineHeight;
+    }
   }
 
   /**
    * Parse all CSS properties from a style string and apply to style object
    * 
+   * The font shorthand is applied first so the longhand properties override it, and the line
+   * height, spacing, decoration thickness and background padding last so em lengths use the
+   * new font size.
+   * 
    * @param styleStr - CSS style string
    * @param style - TextStyle object to modify
    */
   static parseAllCssProperties(styleStr: string, style: TextStyle): void {
+    this.parseFontShorthand(styleStr, style);
     this.parseColor(styleStr, style);
     this.parseFontWeight(styleStr, style);
     this.parseFontStyle(styleStr, style);
+    this.parseFontSize(styleStr, style);
+    this.parseFontFamily(styleStr, style);
+    this.parseLineHeight(styleStr, style);
+    this.parseSpacing(styleStr, style);
     this.parseTextDecoration(styleStr, style);
+    this.parseBackground(styleStr, style);
+    this.parseWhiteSpace(styleStr, style);
+  }
+
+  /**
+   * Convert a CSS length to px
+   * 
+   * @param value - CSS length (`12px`, `9pt`, `1.5em`, `2rem`, `120%`, `0`)
+   * @param fontSize - Font size em and % lengths are relative to
+   * @returns Length in px, or null if the value is not a length
+   */
+  static parseLength(value: string, fontSize: number = BASE_FONT_SIZE): number | null {
+    const match = value.trim().toLowerCase().match(/^(-?(?:\d+\.?\d*|\.\d+))(px|pt|em|rem|%)?$/);
+    if (!match?.[1]) return null;
+
+    const amount = parseFloat(match[1]);
+    switch (match[2]) {
+      case 'px':
+        return amount;
+      case 'pt':
+        return amount * 4 / 3;
+      case 'em':
+        return amount * fontSize;
+      case 'rem':
+        return amount * BASE_FONT_SIZE;
+      case '%':
+        return amount * fontSize / 100;
+      default:
+        // Only zero may leave out the unit
+        return amount === 0 ? 0 : null;
+    }
+  }
+
+  /**
+   * Get the value of the last declaration of a property
+   */
+  private static getDeclarationValue(styleStr: string, property: string): string | null {
+    const declarations = this.parseDeclarations(styleStr).filter(declaration => declaration.property === property);
+    return declarations[declarations.length - 1]?.value ?? null;
+  }
+
+  /**
+   * Read a color channel: a number, or a percentage of `max`
+   */
+  private static parseColorNumber(value: string, max: number): number | null {
+    const match = value.match(/^([+-]?(?:\d+\.?\d*|\.\d+))(%?)$/);
+    if (!match?.[1]) return null;
+    const number = parseFloat(match[1]);
+    return match[2] ? (number / 100) * max : number;
+  }
+
+  /**
+   * Convert `hsl()` hue, saturation and lightness channels to 0-255 red, green and blue
+   */
+  private static hslToRgb(channels: string[]): number[] | null {
+    const [hueArg = '', saturationArg = '', lightnessArg = ''] = channels;
+    const hue = hueArg.match(/^([+-]?(?:\d+\.?\d*|\.\d+))(deg|turn)?$/);
+    const saturation = this.parseColorNumber(saturationArg.replace(/%$/, ''), 100);
+    const lightness = this.parseColorNumber(lightnessArg.replace(/%$/, ''), 100);
+    if (!hue?.[1] || saturation === null || lightness === null) return null;
+
+    const degrees = parseFloat(hue[1]) * (hue[2] === 'turn' ? 360 : 1);
+    const h = ((degrees % 360) + 360) % 360 / 360;
+    const s = Math.min(100, Math.max(0, saturation)) / 100;
+    const l = Math.min(100, Math.max(0, lightness)) / 100;
+    const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+    const p = 2 * l - q;
+    const channel = (t: number): number => {
+      const tt = t < 0 ? t + 1 : t > 1 ? t - 1 : t;
+      if (tt < 1 / 6) return p + (q - p) * 6 * tt;
+      if (tt < 1 / 2) return q;
+      if (tt < 2 / 3) return p + (q - p) * (2 / 3 - tt) * 6;
+      return p;
+    };
+    return [channel(h + 1 / 3), channel(h), channel(h - 1 / 3)].map(value => value * 255);
+  }
+
+  /**
+   * Round an alpha value to three decimals
+   */
+  private static roundAlpha(alpha: number): number {
+    return Math.round(alpha * 1000) / 1000;
+  }
+
+  /**
+   * Combine decoration lines into a text decoration
+   */
+  private static combineDecorationLines(lines: TextDecorationLine[]): TextDecoration {
+    const order: TextDecorationLine[] = [TEXT_DECORATION.UNDERLINE, TEXT_DECORATION.OVERLINE, TEXT_DECORATION.LINE_THROUGH];
+    const combined = order.filter(line => lines.includes(line)).join(' ');
+    return (combined || TEXT_DECORATION.NONE) as TextDecoration;
+  }
+
+  /**
+   * Split a text-decoration shorthand or longhand value into its parts, or null if it is invalid
+   * for the property
+   */
+  private static resolveTextDecoration(property: string, value: string, fontSize: number = BASE_FONT_SIZE): TextDecorationParts | null {
+    const parts: TextDecorationParts = {};
+    // Split on whitespace outside of color functions such as rgb(0 0 0)
+    for (const token of value.trim().toLowerCase().match(/[^\s(]+(\([^)]*\))?/g) ?? []) {
+      const color = token === 'currentcolor' ? token : this.parseCssColor(token)?.color;
+      const thickness = token === 'auto' || token === 'from-font' ? 'auto' : this.parseLength(token, fontSize);
+      if (token === TEXT_DECORATION.NONE || (VALID_TEXT_DECORATIONS.slice(1) as readonly string[]).includes(token)) {
+        if (parts.lines && (token === TEXT_DECORATION.NONE || parts.lines.length === 0)) return null;
+        parts.lines = token === TEXT_DECORATION.NONE ? [] : [...(parts.lines ?? []), token as TextDecorationLine];
+      } else if ((VALID_TEXT_DECORATION_STYLES as readonly string[]).includes(token) && !parts.style) {
+        parts.style = token as TextDecorationStyle;
+      } else if (color && !parts.color) {
+        parts.color = color;
+      } else if (thickness !== null && (thickness === 'auto' || thickness >= 0) && parts.thickness === undefined) {
+        parts.thickness = thickness;
+      } else {
+        return null;
+      }
+    }
+
+    // A longhand takes only its own part
+    const expected: Record<string, keyof TextDecorationParts> = {
+      'text-decoration-line': 'lines',
+      'text-decoration-style': 'style',
+      'text-decoration-color': 'color',
+      'text-decoration-thickness': 'thickness'
+    };
+    const only = expected[property];
+    if (property !== 'text-decoration' && (!only || Object.keys(parts).some(key => key !== only) || parts[only] === undefined)) {
+      return null;
+    }
+    return Object.keys(parts).length > 0 ? parts : null;
+  }
+
+  /**
+   * Resolve a font-weight value against the parent weight, or null if it is invalid;
+   * 400 and 700 are kept as `normal` and `bold`
+   */
+  private static resolveFontWeight(value: string, parentWeight: FontWeight = FONT_WEIGHT.NORMAL): FontWeight | null {
+    const keyword = value.trim().toLowerCase();
+    const parent = this.getNumericFontWeight(parentWeight);
+    let weight: number;
+    if (keyword === 'normal') {
+      weight = 400;
+    } else if (keyword === 'bold') {
+      weight = 700;
+    } else if (keyword === 'bolder') {
+      // Relative weights follow the CSS Fonts table
+      weight = parent < 350 ? 400 : parent < 550 ? 700 : 900;
+    } else if (keyword === 'lighter') {
+      weight = parent < 550 ? 100 : parent < 750 ? 400 : 700;
+    } else if (/^\d+(\.\d+)?$/.test(keyword)) {
+      weight = parseFloat(keyword);
+      if (weight < 1 || weight > 1000) return null;
+    } else {
+      return null;
+    }
+    return weight === 400 ? FONT_WEIGHT.NORMAL : weight === 700 ? FONT_WEIGHT.BOLD : weight;
+  }
+
+  /**
+   * Resolve a font-size value to px, or null if it is invalid
+   */
+  private static resolveFontSize(value: string, fontSize: number = BASE_FONT_SIZE): number | null {
+    const keyword = value.trim().toLowerCase();
+    if (keyword === 'smaller') return fontSize / 1.2;
+    if (keyword === 'larger') return fontSize * 1.2;
+
+    const size = FONT_SIZE_KEYWORDS[keyword] ?? this.parseLength(keyword, fontSize);
+    return size !== null && size > 0 ? size : null;
+  }
+
+  /**
+   * Resolve a line-height value to px; a plain number multiplies the font size
+   */
+  private static resolveLineHeight(value: string, fontSize: number = BASE_FONT_SIZE): number | 'normal' | null {
+    const trimmed = value.trim().toLowerCase();
+    if (trimmed === 'normal') return 'normal';
+
+    const lineHeight = /^(\d+\.?\d*|\.\d+)$/.test(trimmed) ? parseFloat(trimmed) * fontSize : this.parseLength(trimmed, fontSize);
+    return lineHeight !== null && lineHeight >= 0 ? lineHeight : null;
+  }
+
+  /**
+   * Resolve a background color, or null if it is invalid; `none` (of the background shorthand)
+   * is transparent and `currentColor` the text color of the style
+   */
+  private static resolveBackgroundColor(value: string, style?: TextStyle): { color: string; alpha: number } | null {
+    const keyword = value.trim().toLowerCase();
+    if (keyword === 'currentcolor') {
+      return { color: style?.color ?? DEFAULT_COLORS.BLACK, alpha: style?.opacity ?? 1 };
+    }
+    return this.parseCssColor(keyword === 'none' ? 'transparent' : value);
+  }
+
+  /**
+   * Resolve a border shorthand, border-width or border-color value, or null if it is invalid;
+   * a border without a style (or with `none`) has width 0
+   */
+  private static resolveBorder(property: string, value: string, style?: TextStyle): { width?: number; color?: string } | null {
+    const widths: Record<string, number> = { thin: 1, medium: 3, thick: 5 };
+    const parts: { width?: number; color?: string; style?: string } = {};
+    // Split on whitespace outside of color functions such as rgb(0 0 0)
+    for (const token of value.trim().toLowerCase().match(/[^\s(]+(\([^)]*\))?/g) ?? []) {
+      const width = widths[token] ?? this.parseLength(token, style?.fontSize);
+      const color = token === 'currentcolor' ? style?.color ?? DEFAULT_COLORS.BLACK : this.parseCssColor(token)?.color;
+      if ((VALID_BORDER_STYLES as readonly string[]).includes(token) && !parts.style) {
+        parts.style = token;
+      } else if (width !== null && width >= 0 && parts.width === undefined) {
+        parts.width = width;
+      } else if (color && !parts.color) {
+        parts.color = color;
+      } else {
+        return null;
+      }
+    }
+
+    switch (property) {
+      case 'border':
+        return parts.style === undefined || parts.style === 'none' || parts.style === 'hidden'
+          ? { width: 0 }
+          : { width: parts.width ?? widths['medium'] ?? 3, color: parts.color ?? style?.color ?? DEFAULT_COLORS.BLACK };
+      case 'border-width':
+        return parts.width !== undefined && !parts.style && !parts.color ? { width: parts.width } : null;
+      case 'border-color':
+        return parts.color && !parts.style && parts.width === undefined ? { color: parts.color } : null;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Resolve a padding of one to four non-negative lengths (top, right, bottom, left as in CSS),
+   * or null if it is invalid
+   */
+  private static resolvePadding(value: string, fontSize: number = BASE_FONT_SIZE): BoxPadding | null {
+    const lengths = value.trim().split(/\s+/).map(token => this.parseLength(token, fontSize));
+    if (lengths.length > 4 || lengths.some(length => length === null || length < 0)) return null;
+
+    const [top = 0, right = top, bottom = top, left = right] = lengths as number[];
+    return { top, right, bottom, left };
+  }
+
+  /**
+   * Resolve a tab-size value to a number of spaces, or null if it is not a non-negative integer
+   */
+  private static resolveTabSize(value: string): number | null {
+    return /^\d+$/.test(value.trim()) ? parseInt(value, 10) : null;
+  }
+
+  /**
+   * Resolve a letter-spacing or word-spacing value to px
+   */
+  private static resolveSpacing(value: string, fontSize: number = BASE_FONT_SIZE): number | 'normal' | null {
+    return value.trim().toLowerCase() === 'normal' ? 'normal' : this.parseLength(value, fontSize);
+  }
+
+  /**
+   * Split a font shorthand value into its parts, or null if it is invalid
+   */
+  private static resolveFontShorthand(value: string, fontSize?: number, parentWeight?: FontWeight): {
+    fontStyle: TextStyle['fontStyle'];
+    fontWeight: TextStyle['fontWeight'];
+    fontSize: number;
+    lineHeight: number | 'normal';
+    fontFamily: string;
+  } | null {
+    const tokens = value.trim().replace(/\s*\/\s*/, '/').split(/\s+/);
+    let fontStyle: TextStyle['fontStyle'] = FONT_STYLE.NORMAL;
+    let fontWeight: TextStyle['fontWeight'] = FONT_WEIGHT.NORMAL;
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = (tokens[i] ?? '').toLowerCase();
+      // Keywords and bare numbers come before the size; `normal` may stand for any of them
+      const weight = token === 'normal' ? null : this.resolveFontWeight(token, parentWeight);
+      if ((FONT_SHORTHAND_KEYWORDS as readonly string[]).includes(token) || weight !== null) {
+        if (token === 'italic' || token === 'oblique') fontStyle = FONT_STYLE.ITALIC;
+        if (weight !== null) fontWeight = weight;
+        continue;
+      }
+
+      // The first other token is the size, optionally with the line height after a slash
+      const [sizeValue = '', lineHeightValue] = token.split('/');
+      const size = this.resolveFontSize(sizeValue, fontSize);
+      const lineHeight = lineHeightValue === undefined ? 'normal' : this.resolveLineHeight(lineHeightValue, size ?? undefined);
+      const fontFamily = tokens.slice(i + 1).join(' ');
+      if (size === null || lineHeight === null || !fontFamily) return null;
+
+      return { fontStyle, fontWeight, fontSize: size, lineHeight, fontFamily };
+    }
+    return null;
   }
 
   /**
@@ -123,7 +744,7 @@ export class StyleHelpers {
     
     switch (property) {
       case 'font-weight':
-        if (!VALID_FONT_WEIGHTS.includes(value as any)) {
+        if (this.resolveFontWeight(value) === null) {
           errors.push(`Invalid font-weight value: ${value}`);
         }
         break;
@@ -133,16 +754,75 @@ export class StyleHelpers {
         }
         break;
       case 'text-decoration':
-        if (!VALID_TEXT_DECORATIONS.some(dec => value.includes(dec))) {
-          errors.push(`Invalid text-decoration value: ${value}`);
+      case 'text-decoration-line':
+      case 'text-decoration-style':
+      case 'text-decoration-color':
+      case 'text-decoration-thickness':
+        if (this.resolveTextDecoration(property, value) === null) {
+          errors.push(`Invalid ${property} value: ${value}`);
+        }
+        break;
+      case 'font-size':
+        if (this.resolveFontSize(value) === null) {
+          errors.push(`Invalid font-size value: ${value}`);
+        }
+        break;
+      case 'line-height':
+        if (this.resolveLineHeight(value) === null) {
+          errors.push(`Invalid line-height value: ${value}`);
+        }
+        break;
+      case 'letter-spacing':
+      case 'word-spacing':
+        if (this.resolveSpacing(value) === null) {
+          errors.push(`Invalid ${property} value: ${value}`);
+        }
+        break;
+      case 'font':
+        if (this.resolveFontShorthand(value) === null) {
+          errors.push(`Invalid font value: ${value}`);
         }
         break;
       case 'color':
-        // Basic color validation - can be enhanced
-        if (!/^(#[0-9a-f]{3,6}|[a-z]+|rgb\(.*\))$/i.test(value)) {
+        if (value.toLowerCase() !== 'currentcolor' && this.parseCssColor(value) === null) {
           errors.push(`Invalid color value: ${value}`);
         }
         break;
+      case 'background':
+      case 'background-color':
+        if (this.resolveBackgroundColor(value) === null || (property === 'background-color' && value.trim().toLowerCase() === 'none')) {
+          errors.push(`Invalid ${property} value: ${value}`);
+        }
+        break;
+      case 'border':
+      case 'border-width':
+      case 'border-color':
+        if (this.resolveBorder(property, value) === null) {
+          errors.push(`Invalid ${property} value: ${value}`);
+        }
+        break;
+      case 'white-space':
+        if (!(VALID_WHITE_SPACES as readonly string[]).includes(value.toLowerCase())) {
+          errors.push(`Invalid white-space value: ${value}`);
+        }
+        break;
+      case 'tab-size':
+        if (this.resolveTabSize(value) === null) {
+          errors.push(`Invalid tab-size value: ${value}`);
+        }
+        break;
+      case 'padding':
+        if (this.resolvePadding(value) === null) {
+          errors.push(`Invalid padding value: ${value}`);
+        }
+        break;
+      case 'border-radius': {
+        const radius = this.parseLength(value);
+        if (radius === null || radius < 0) {
+          errors.push(`Invalid border-radius value: ${value}`);
+        }
+        break;
+      }
     }
     
     return errors;
@@ -154,18 +834,24 @@ export class StyleHelpers {
    * @param attributes - HTML attributes string
    * @returns Validation result with errors
    */
-  static validateStyleAttribute(attributes: string): { isValid: boolean; errors: string[] } {
+  static validateStyleAttribute(attributes: string): ValidationResult {
     const errors: string[] = [];
+    const diagnostics: Diagnostic[] = [];
     const styleStr = this.extractStyleAttribute(attributes);
     
     if (!styleStr) {
-      return { isValid: true, errors: [] }; // No style attribute is valid
+      return { isValid: true, errors: [], diagnostics: [] }; // No style attribute is valid
     }
     
     // Parse and validate each CSS property
     const cssPropertyPattern = /([a-zA-Z-]+)\s*:\s*([^;]+)/g;
     let match;
-    const validProperties = new Set(['color', 'font-weight', 'font-style', 'text-decoration']);
+    const validProperties = new Set([
+      'color', 'font', 'font-weight', 'font-style', 'font-size', 'font-family', 'text-decoration',
+      'text-decoration-line', 'text-decoration-style', 'text-decoration-color', 'text-decoration-thickness',
+      'line-height', 'letter-spacing', 'word-spacing', 'background', 'background-color', 'padding', 'border-radius',
+      'border', 'border-color', 'border-width', 'white-space', 'tab-size'
+    ]);
     
     while ((match = cssPropertyPattern.exec(styleStr)) !== null) {
       if (!match[1] || !match[2]) continue;
@@ -173,30 +859,39 @@ export class StyleHelpers {
       const property = match[1].trim();
       const value = match[2].trim();
       
-      if (!validProperties.has(property)) {
-        errors.push(`Unsupported CSS property: ${property}`);
+      // Custom properties and var() references are only known once the cascade resolves them
+      if (property.startsWith('--') || /var\(/i.test(value)) {
+        continue;
+      } else if (!validProperties.has(property)) {
+        const message = `Unsupported CSS property: ${property}`;
+        errors.push(message);
+        diagnostics.push(DiagnosticHelpers.create('unsupported-css-property', 'warning', message));
       } else {
-        errors.push(...this.validateCssProperty(property, value));
+        for (const message of this.validateCssProperty(property, value)) {
+          errors.push(message);
+          diagnostics.push(DiagnosticHelpers.create('invalid-css-value', 'warning', message));
+        }
       }
     }
     
-    return { isValid: errors.length === 0, errors };
+    return { isValid: errors.length === 0, errors, diagnostics };
   }
 
   /**
    * Check if a text segment is unstyled (no HTML tags applied)
    * 
    * @param segment - TextSegment to check
+   * @param textColor - Default text color, black if omitted
    * @returns true if segment has no styling applied
    */
-  static isUnstyledSegment(segment: TextSegment): boolean {
+  static isUnstyledSegment(segment: TextSegment, textColor: string = DEFAULT_COLORS.BLACK): boolean {
     const color = segment.color?.toLowerCase();
 
     return (
       segment.fontWeight === FONT_WEIGHT.NORMAL &&
       segment.fontStyle === FONT_STYLE.NORMAL &&
       segment.textDecoration === TEXT_DECORATION.NONE &&
-      (!color || color === colorMap['black'])
+      (!color || color === textColor)
     );
   }
 
@@ -205,25 +900,29 @@ export class StyleHelpers {
    * 
    * @param segment - TextSegment to check
    * @param measurement - Optional measurement info
+   * @param sizes - Font size of each heading tag (the default sizes if omitted)
    * @returns true if segment appears to be a heading
    */
-  static isHeadingStyle(segment: TextSegment, measurement?: { height: number }): boolean {
-    return segment.fontWeight === FONT_WEIGHT.BOLD && 
-           segment.fontSize !== undefined &&
-           inverseHeadingSizes[segment.fontSize.toString()] !== undefined;
+  static isHeadingStyle(
+    segment: TextSegment,
+    measurement?: { height: number },
+    sizes: Readonly<Record<string, number>> = headingSizes
+  ): boolean {
+    return segment.fontWeight === FONT_WEIGHT.BOLD && this.getHeadingType(segment, sizes) !== null;
   }
 
   /**
    * Get the heading type (h1-h6) from a text segment
    * 
    * @param segment - TextSegment to analyze
+   * @param sizes - Font size of each heading tag (the default sizes if omitted)
    * @returns Heading type string (h1-h6) or null if not a heading
    */
-  static getHeadingType(segment: TextSegment): string | null {
-    if (segment.fontSize && inverseHeadingSizes[segment.fontSize.toString()]) {
-      return inverseHeadingSizes[segment.fontSize.toString()] || null;
+  static getHeadingType(segment: TextSegment, sizes: Readonly<Record<string, number>> = headingSizes): string | null {
+    if (!segment.fontSize) {
+      return null;
     }
-    return null;
+    return Object.keys(sizes).find(tagName => sizes[tagName] === segment.fontSize) ?? null;
   }
 
   /**
@@ -240,35 +939,77 @@ export class StyleHelpers {
     const fontSize = style.fontSize || baseFontSize;
     let charWidth = fontSize * 0.6; // Base character width
     
-    // Adjust for bold text (wider)
-    if (style.fontWeight === FONT_WEIGHT.BOLD) {
-      charWidth *= 1.15;
-    }
-    
-    // Adjust for italic text (slightly wider due to slant)
-    if (style.fontStyle === FONT_STYLE.ITALIC) {
-      charWidth *= 1.05;
+    // Monospace fonts keep the same advance in every weight and style
+    if (!this.isMonospaceFontFamily(style.fontFamily)) {
+      // Adjust for the font weight: bold text is 15% wider, the lightest 5% narrower
+      const boldness = (Math.min(900, Math.max(100, this.getNumericFontWeight(style.fontWeight))) - 400) / 300;
+      if (boldness !== 0) {
+        charWidth *= 1 + (boldness > 0 ? 0.15 : 0.05) * boldness;
+      }
+      
+      // Adjust for italic text (slightly wider due to slant)
+      if (style.fontStyle === FONT_STYLE.ITALIC) {
+        charWidth *= 1.05;
+      }
     }
     
     return {
-      width: text.length * charWidth,
+      width: text.length * charWidth + this.getSpacingWidth(text, style),
       height: fontSize
     };
   }
 
+  /**
+   * Record where the box of an element starts when the element draws a background or border
+   * of its own instead of inheriting the one around it, so that each element gets its own box
+   * 
+   * @param style - Style of the element
+   * @param parent - Style the element inherits
+   * @param start - Source offset of the start tag of the element
+   * @returns The style, with boxStart set if the element starts a box
+   */
+  static markBoxStart(style: TextStyle, parent: TextStyle, start: number): TextStyle {
+    const hasBox = !!style.backgroundColor || !!(style.borderColor && style.borderWidth);
+    const ownsBox = hasBox && StyleHelpers.BOX_PROPERTIES.some(property => style[property] !== parent[property]);
+    return ownsBox ? { ...style, boxStart: start } : style;
+  }
+
+  /**
+   * Check if a font family list falls back to the generic monospace family
+   * 
+   * @param fontFamily - CSS font-family list
+   * @returns true if the list names `monospace`
+   */
+  static isMonospaceFontFamily(fontFamily?: string): boolean {
+    return (fontFamily ?? '').split(',').some(family => family.trim().replace(/^["']|["']$/g, '').toLowerCase() === 'monospace');
+  }
+
+  /**
+   * Get the width letter-spacing and word-spacing add to a text
+   * 
+   * @param text - Text to measure
+   * @param style - TextStyle object
+   * @returns Extra width in px
+   */
+  static getSpacingWidth(text: string, style: TextStyle): number {
+    const letterSpacing = (style.letterSpacing ?? 0) * Array.from(text).length;
+    const wordSpacing = (style.wordSpacing ?? 0) * (text.match(/ /g)?.length ?? 0);
+    return letterSpacing + wordSpacing;
+  }
+
   /**
    * Create font string for canvas context from TextStyle
    * 
    * @param style - TextStyle object
    * @param baseFontSize - Base font size
-   * @param fontFamily - Font family string
+   * @param fontFamily - Font family string, used unless the style sets its own
    * @returns CSS font string for canvas context
    */
   static createCanvasFontString(style: TextStyle, baseFontSize: number = 14, fontFamily: string = 'Arial, sans-serif'): string {
-    const weight = style.fontWeight === FONT_WEIGHT.BOLD ? FONT_WEIGHT.BOLD : FONT_WEIGHT.NORMAL;
+    const weight = style.fontWeight;
     const fontStyle = style.fontStyle === FONT_STYLE.ITALIC ? FONT_STYLE.ITALIC : FONT_STYLE.NORMAL;
     const fontSize = style.fontSize || baseFontSize;
     
-    return `${fontStyle} ${weight} ${fontSize}px ${fontFamily}`;
+    return `${fontStyle} ${weight} ${fontSize}px ${style.fontFamily ?? fontFamily}`;
   }
 }
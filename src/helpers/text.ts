@@ -1,4 +1,5 @@
-import { TextSegment } from '../types';
+import { TextSegment, TextStyle, HTMLToken } from '../types';
+import { NON_BREAKING_SPACE, WHITE_SPACE_RULES } from '../constants';
 
 /**
  * Text utility functions for whitespace handling and line break normalization
@@ -22,18 +23,40 @@ export class TextHelpers {
   /**
    * Check if there's meaningful content after this position
    * 
-   * @param remainingParts - Array of remaining HTML parts
-   * @param currentIndex - Current index in the parts array
-   * @returns true if there's meaningful content remaining
+   * @param tokens - Tokens of the document being parsed
+   * @param tokenIndex - Index of the current token
+   * @returns true if non-whitespace text or another opening tag follows
    */
-  static hasMoreContent(remainingParts: string[], currentIndex: number): boolean {
-    const remainingContent = remainingParts.slice(currentIndex).join('');
-    return remainingContent.trim().length > 0;
+  static hasMoreContent(tokens: HTMLToken[], tokenIndex: number): boolean {
+    for (let i = tokenIndex + 1; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (token && TextHelpers.isContentToken(token)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Check if a token is content that follows a closing block tag: non-whitespace text or an opening tag
+   *
+   * @param token - Token to check
+   * @returns true for content tokens
+   */
+  static isContentToken(token: HTMLToken): boolean {
+    if (token.type === 'text') {
+      return !!token.text?.trim();
+    }
+    return token.type === 'start-tag' || token.type === 'self-closing-tag';
   }
 
   /**
-   * Normalize whitespace in segments by trimming leading/trailing spaces
-   * and using that information to infer spacing between segments
+   * Normalize whitespace in segments according to their white-space style
+   * 
+   * Collapsed text (normal, nowrap) is trimmed, and the trimmed ends are later used to infer
+   * spacing between segments; inner runs of whitespace become one space. Text that keeps its
+   * line breaks (pre, pre-wrap, pre-line, break-spaces) is split into its lines with a newline
+   * segment between them; pre-line collapses each line like normal text, the others keep it as is.
    * 
    * @param segments - Array of text segments to normalize
    * @returns Array of normalized text segments
@@ -52,23 +75,88 @@ export class TextHelpers {
         continue;
       }
       
-      // Trim whitespace and create normalized segment
-      const trimmedText = segment.text.trim();
-      
-      // Skip empty segments after trimming
-      if (!trimmedText) {
+      const rules = TextHelpers.getWhiteSpaceRules(segment);
+      if (!rules.preserveNewlines) {
+        const collapsed = TextHelpers.collapseWhitespace(segment, 0, segment.text.length);
+        if (collapsed) {
+          normalized.push(collapsed);
+        }
         continue;
       }
       
-      normalized.push({
-        ...segment,
-        text: trimmedText
-      });
+      let lineStart = 0;
+      for (const lineBreak of segment.text.matchAll(/\r\n|[\n\r]/g)) {
+        const breakStart = lineBreak.index ?? 0;
+        normalized.push(...TextHelpers.normalizeLine(segment, lineStart, breakStart, rules.preserveSpaces));
+        normalized.push({
+          ...segment,
+          ...TextHelpers.mapTextRangeToSource(segment, breakStart, breakStart + lineBreak[0].length),
+          text: '\n'
+        });
+        lineStart = breakStart + lineBreak[0].length;
+      }
+      normalized.push(...TextHelpers.normalizeLine(segment, lineStart, segment.text.length, rules.preserveSpaces));
     }
     
     return normalized;
   }
 
+  /**
+   * Get what the white-space style of a segment keeps
+   * 
+   * @param style - Style to check
+   * @returns Whether spaces and line breaks are preserved and whether lines wrap
+   */
+  static getWhiteSpaceRules(style: TextStyle): { preserveSpaces: boolean; preserveNewlines: boolean; wrap: boolean } {
+    return WHITE_SPACE_RULES[style.whiteSpace ?? 'normal'];
+  }
+
+  /**
+   * Trim HTML whitespace (space, tab, newline, form feed, carriage return) from both ends.
+   * Unlike String.prototype.trim this keeps non-breaking spaces decoded from `&nbsp;`.
+   * 
+   * @param text - Text to trim
+   * @returns Trimmed text
+   */
+  static trimHtmlWhitespace(text: string): string {
+    return text.replace(/^[ \t\n\f\r]+|[ \t\n\f\r]+$/g, '');
+  }
+
+  /**
+   * Check if two adjacent segments are joined by a non-breaking space or both do not wrap,
+   * in which case the layout must not wrap between them
+   * 
+   * @param previous - Segment laid out before the boundary
+   * @param next - Segment laid out after the boundary
+   * @returns true if the boundary is not a line break opportunity
+   */
+  static isNonBreakingBoundary(previous: TextSegment | undefined, next: TextSegment): boolean {
+    if (!previous || previous.text === '\n') return false;
+    // Text that does not wrap (nowrap, pre) is one unbreakable run across its segments
+    if (!TextHelpers.getWhiteSpaceRules(previous).wrap && !TextHelpers.getWhiteSpaceRules(next).wrap) return true;
+    return previous.text.endsWith(NON_BREAKING_SPACE) || next.text.startsWith(NON_BREAKING_SPACE);
+  }
+
+  /**
+   * Map a character range of a segment's text back to HTML source offsets.
+   * The mapping is exact when the text has the same length as its source (no character
+   * references); otherwise the whole segment's source range is returned.
+   * 
+   * @param segment - Segment with source offsets
+   * @param from - Start index in segment.text
+   * @param to - End index (exclusive) in segment.text
+   * @returns Source range, or an empty object when the segment has no source offsets
+   */
+  static mapTextRangeToSource(segment: TextSegment, from: number, to: number): { sourceStart?: number; sourceEnd?: number } {
+    if (segment.sourceStart === undefined || segment.sourceEnd === undefined) {
+      return {};
+    }
+    if (segment.sourceEnd - segment.sourceStart !== segment.text.length) {
+      return { sourceStart: segment.sourceStart, sourceEnd: segment.sourceEnd };
+    }
+    return { sourceStart: segment.sourceStart + from, sourceEnd: segment.sourceStart + to };
+  }
+
   /**
    * Escape special regex characters in a string
    * 
@@ -88,4 +176,45 @@ export class TextHelpers {
   static cleanHtmlWhitespace(html: string): string {
     return html.replace(/\s+/g, ' ').trim();
   }
+
+  /**
+   * Normalize one line of text that keeps its line breaks, or return nothing for an empty line
+   */
+  private static normalizeLine(segment: TextSegment, from: number, to: number, preserveSpaces: boolean): TextSegment[] {
+    if (!preserveSpaces) {
+      const collapsed = TextHelpers.collapseWhitespace(segment, from, to);
+      return collapsed ? [collapsed] : [];
+    }
+    if (from === to) {
+      return [];
+    }
+    return [{ ...segment, ...TextHelpers.mapTextRangeToSource(segment, from, to), text: segment.text.slice(from, to) }];
+  }
+
+  /**
+   * Trim a range of a segment's text and collapse its inner whitespace, or return null if nothing is left
+   */
+  private static collapseWhitespace(segment: TextSegment, from: number, to: number): TextSegment | null {
+    const text = segment.text.slice(from, to);
+    // Trim whitespace (non-breaking spaces are content)
+    const trimmedText = TextHelpers.trimHtmlWhitespace(text);
+    if (!trimmedText) {
+      return null;
+    }
+
+    const collapsed: TextSegment = { ...segment, text: trimmedText.replace(/[ \t\n\f\r]+/g, ' ') };
+
+    // Keep source offsets pointing at the trimmed text
+    const leading = text.length - text.replace(/^[ \t\n\f\r]+/, '').length;
+    const trailing = text.length - text.replace(/[ \t\n\f\r]+$/, '').length;
+    if (from === 0 && to === segment.text.length) {
+      if (segment.sourceStart !== undefined && segment.sourceEnd !== undefined) {
+        collapsed.sourceStart = segment.sourceStart + leading;
+        collapsed.sourceEnd = segment.sourceEnd - trailing;
+      }
+    } else {
+      Object.assign(collapsed, TextHelpers.mapTextRangeToSource(segment, from + leading, to - trailing));
+    }
+    return collapsed;
+  }
 }
@@ -0,0 +1,88 @@
+import { HeadingTag, ResolvedTheme, TextStyle, ThemePolicy } from '../types';
+import { BASE_FONT_SIZE, MONOSPACE_FONT_FAMILY, MONOSPACE_TAGS, THEME_PRESETS } from '../constants';
+
+/**
+ * Utility functions for resolving `HTMLToVegaLiteOptions.theme`
+ */
+export class ThemeHelpers {
+  /**
+   * Fill in a theme from the preset it names or extends
+   *
+   * @param theme - Preset name or custom theme (`light` if omitted)
+   * @returns Theme with every setting filled in
+   * @throws Error if the theme names an unknown preset
+   */
+  static resolve(theme: ThemePolicy = 'light'): ResolvedTheme {
+    const presetName = typeof theme === 'string' ? theme : theme.extends ?? 'light';
+    const preset = THEME_PRESETS[presetName];
+    if (!preset) {
+      throw new Error(`Unknown theme preset: ${presetName}`);
+    }
+    if (typeof theme === 'string') {
+      return preset;
+    }
+
+    const tags = { ...preset.tags };
+    for (const [tagName, style] of Object.entries(theme.tags ?? {})) {
+      const key = tagName.toLowerCase();
+      tags[key] = { ...tags[key], ...style };
+    }
+
+    return {
+      textColor: theme.textColor ?? preset.textColor,
+      background: theme.background ?? preset.background,
+      tags,
+      headingScale: { ...preset.headingScale, ...theme.headingScale },
+      headingSpacing: theme.headingSpacing ?? preset.headingSpacing,
+      listIndent: theme.listIndent ?? preset.listIndent,
+      tableBorderColor: theme.tableBorderColor ?? preset.tableBorderColor,
+      tableHeaderBackground: theme.tableHeaderBackground ?? preset.tableHeaderBackground,
+      quoteIndent: theme.quoteIndent ?? preset.quoteIndent,
+      quoteBarColor: theme.quoteBarColor ?? preset.quoteBarColor
+    };
+  }
+
+  /**
+   * Get the heading font sizes of a theme
+   *
+   * @param theme - Resolved theme
+   * @param fontSize - Base font size the heading scale is relative to
+   * @returns Font size of each heading tag, rounded to hundredths of a pixel
+   */
+  static getHeadingSizes(theme: ResolvedTheme, fontSize: number = BASE_FONT_SIZE): Record<HeadingTag, number> {
+    const sizes = {} as Record<HeadingTag, number>;
+    for (const [tagName, scale] of Object.entries(theme.headingScale) as Array<[HeadingTag, number]>) {
+      sizes[tagName] = Math.round(scale * fontSize * 100) / 100;
+    }
+    return sizes;
+  }
+
+  /**
+   * Get the style a theme gives a tag, including the font size of headings and the font family
+   * of code
+   *
+   * @param theme - Resolved theme
+   * @param tagName - Lower-case tag name
+   * @param fontSize - Base font size
+   * @param monospaceFontFamily - Font family of code, pre, kbd and samp text
+   * @returns Style to apply over the tag's strategy, or null if the theme has none
+   */
+  static getTagStyle(
+    theme: ResolvedTheme,
+    tagName: string,
+    fontSize: number = BASE_FONT_SIZE,
+    monospaceFontFamily: string = MONOSPACE_FONT_FAMILY
+  ): Partial<TextStyle> | null {
+    const headingSize = this.getHeadingSizes(theme, fontSize)[tagName as HeadingTag];
+    const monospace = (MONOSPACE_TAGS as readonly string[]).includes(tagName);
+    const style = theme.tags[tagName];
+    if (headingSize === undefined && !monospace && !style) {
+      return null;
+    }
+    return {
+      ...(headingSize !== undefined && { fontSize: headingSize }),
+      ...(monospace && { fontFamily: monospaceFontFamily }),
+      ...style
+    };
+  }
+}
@@ -6,8 +6,15 @@ import {
   VegaLiteSpec, 
   TextSegment, 
   PositionedTextSegment,
-  ParseResult 
+  ParseResult,
+  ConversionResult,
+  Diagnostic
 } from './types';
+import { DiagnosticHelpers } from './helpers/diagnostics';
+import { ThemeHelpers } from './helpers/theme';
+import { StreamingHTMLParser } from './streaming-parser';
+import { HTMLToVegaLiteStream } from './conversion-stream';
+import { DOMTokenizer } from './dom-tokenizer';
 
 /**
  * Main HTML to Vega-Lite converter class
@@ -27,7 +34,7 @@ export class HTMLToVegaLite {
       startY: 30,
       lineHeight: undefined, 
       maxWidth: 400,
-      background: 'transparent',
+      background: ThemeHelpers.resolve(options.theme).background,
       ...options
     };
 
@@ -42,15 +49,89 @@ export class HTMLToVegaLite {
   }
 
   /**
-   * Convert HTML string to Vega-Lite specification
+   * Convert HTML to Vega-Lite specification
    * Main API method for end users
+   * 
+   * Accepts an HTML string or an already parsed DOM node (Element, DocumentFragment or
+   * Document, from the browser or jsdom), which is walked without re-parsing.
    */
-  public convert(html: string, overrideOptions: Partial<HTMLToVegaLiteOptions> = {}): VegaLiteSpec {
+  public convert(input: string | Node, overrideOptions: Partial<HTMLToVegaLiteOptions> = {}): VegaLiteSpec {
     // Validate input
-    if (!html || typeof html !== 'string') {
+    if (!DOMTokenizer.isNode(input) && (!input || typeof input !== 'string')) {
+      throw new Error('Input must be a non-empty string or a DOM node');
+    }
+
+    return this.reportDiagnostics(this.convertWithDiagnostics(input, overrideOptions), overrideOptions);
+  }
+
+  /**
+   * Convert CommonMark to Vega-Lite specification
+   * Markdown is turned into the same text segments as the equivalent HTML, so lists,
+   * headings and links are laid out exactly as their HTML counterparts.
+   */
+  public convertMarkdown(markdown: string, overrideOptions: Partial<HTMLToVegaLiteOptions> = {}): VegaLiteSpec {
+    // Validate input
+    if (!markdown || typeof markdown !== 'string') {
       throw new Error('Input must be a non-empty string');
     }
 
+    const parseResult = this.parser.parseMarkdown(markdown, { ...this.options, ...overrideOptions });
+    return this.reportDiagnostics(this.renderParseResult(parseResult, overrideOptions), overrideOptions);
+  }
+
+  /**
+   * Convert HTML to Vega-Lite specification and return every diagnostic
+   * from parsing, layout and generation instead of logging them.
+   * Invalid input produces an empty spec with an `invalid-input` error rather than throwing;
+   * only an `unknownTags` policy of `error` makes it throw (UnsupportedTagError), and only
+   * `limits.onLimitExceeded: 'throw'` makes an exceeded limit throw (LimitExceededError).
+   */
+  public convertWithDiagnostics(input: string | Node, overrideOptions: Partial<HTMLToVegaLiteOptions> = {}): ConversionResult {
+    // Parse HTML to text segments
+    return this.renderParseResult(this.parser.parseHTML(input, { ...this.options, ...overrideOptions }), overrideOptions);
+  }
+
+  /**
+   * Start converting HTML that arrives in chunks.
+   * Each `write()` parses only the new input, then re-lays out and regenerates the spec.
+   */
+  public createStream(overrideOptions: Partial<HTMLToVegaLiteOptions> = {}): HTMLToVegaLiteStream {
+    return new HTMLToVegaLiteStream(
+      new StreamingHTMLParser(this.parser, { ...this.options, ...overrideOptions }),
+      (segments, diagnostics) => this.renderSegments(segments, overrideOptions, diagnostics)
+    );
+  }
+
+  /**
+   * Lay out a parse result and collect the diagnostics of every stage
+   */
+  private renderParseResult(parseResult: ParseResult, overrideOptions: Partial<HTMLToVegaLiteOptions>): ConversionResult {
+    const diagnostics: Diagnostic[] = [...(parseResult.diagnostics ?? [])];
+    const spec = this.renderSegments(parseResult.segments, overrideOptions, diagnostics);
+    return { spec, diagnostics };
+  }
+
+  /**
+   * Pass the errors and warnings of a conversion to the logger and return its spec
+   */
+  private reportDiagnostics(result: ConversionResult, overrideOptions: Partial<HTMLToVegaLiteOptions>): VegaLiteSpec {
+    const reportable = result.diagnostics.filter(diagnostic => DiagnosticHelpers.isReportable(diagnostic));
+    if (reportable.length > 0) {
+      const logger = overrideOptions.logger ?? this.options.logger ?? console;
+      logger.warn('HTML conversion diagnostics:', reportable);
+    }
+
+    return result.spec;
+  }
+
+  /**
+   * Lay out parsed segments and generate the Vega-Lite specification
+   */
+  private renderSegments(
+    segments: TextSegment[],
+    overrideOptions: Partial<HTMLToVegaLiteOptions>,
+    diagnostics?: Diagnostic[]
+  ): VegaLiteSpec {
     // Merge options, but don't pass fontSize unless explicitly overridden
     const mergedOptions = { ...this.options, ...overrideOptions };
     
@@ -59,32 +140,32 @@ export class HTMLToVegaLite {
     if (!overrideOptions.hasOwnProperty('fontSize')) {
       delete generatorOptions.fontSize;
     }
-
-    // Parse HTML to text segments
-    const parseResult = this.parser.parseHTML(html);
-    
-    if (parseResult.errors && parseResult.errors.length > 0) {
-      console.warn('HTML parsing warnings:', parseResult.errors);
+    // A different theme brings its own background, heading sizes and list indentation
+    let layoutEngine = this.layoutEngine;
+    if (overrideOptions.theme !== undefined) {
+      generatorOptions.background = overrideOptions.background ?? ThemeHelpers.resolve(overrideOptions.theme).background;
+      layoutEngine = new TextLayoutEngine(mergedOptions);
     }
 
     // Layout segments with positioning
-    const positionedSegments = this.layoutEngine.layoutSegments(
-      parseResult.segments, 
-      mergedOptions.maxWidth
+    const positionedSegments = layoutEngine.layoutSegments(
+      segments, 
+      mergedOptions.maxWidth,
+      diagnostics
     );
 
     // Calculate bounds
-    const bounds = this.layoutEngine.calculateBounds(positionedSegments);
+    const bounds = layoutEngine.calculateBounds(positionedSegments);
 
     // Generate Vega-Lite specification
-    return this.generator.generateSpec(positionedSegments, bounds, generatorOptions);
+    return this.generator.generateSpec(positionedSegments, bounds, generatorOptions, diagnostics);
   }
 
   /**
    * Parse HTML only (useful for debugging or custom layouts)
    */
-  public parseHTML(html: string): ParseResult {
-    return this.parser.parseHTML(html);
+  public parseHTML(input: string | Node): ParseResult {
+    return this.parser.parseHTML(input, this.options);
   }
 
   /**
@@ -116,6 +197,11 @@ export class HTMLToVegaLite {
       this.options.lineHeight = newOptions.fontSize * 1.4;
     }
 
+    // A new theme brings its own background unless one is passed along
+    if (newOptions.theme !== undefined && newOptions.background === undefined) {
+      this.options.background = ThemeHelpers.resolve(newOptions.theme).background;
+    }
+
     this.layoutEngine.updateOptions(this.options);
     this.generator.updateOptions(this.options);
   }
@@ -173,16 +259,27 @@ export class HTMLToVegaLite {
   /**
    * Quick conversion method (static) for simple use cases
    */
-  public static convert(html: string, options: HTMLToVegaLiteOptions = {}): VegaLiteSpec {
+  public static convert(input: string | Node, options: HTMLToVegaLiteOptions = {}): VegaLiteSpec {
     const converter = new HTMLToVegaLite(options);
-    return converter.convert(html);
+    return converter.convert(input);
   }
 }
 
 // Re-export types and classes for external use
 export * from './types';
 export { HTMLParser } from './parser';
+export { StreamingHTMLParser } from './streaming-parser';
+export { HTMLToVegaLiteStream } from './conversion-stream';
+export { HTMLTokenizer } from './tokenizer';
+export { UnsupportedTagError, LimitExceededError } from './errors';
+export { HTMLSanitizer } from './sanitizer';
+export { Stylesheet } from './stylesheet';
+export { DOMTokenizer } from './dom-tokenizer';
+export { MarkdownTokenizer } from './markdown-tokenizer';
+export { TagBalancer } from './tag-balancer';
 export { TextLayoutEngine } from './layout';
+export { DocumentHelpers } from './helpers/document';
+export { ThemeHelpers } from './helpers/theme';
 export { VegaLiteGenerator } from './vega-generator';
 
 // Export strategy system
@@ -1,6 +1,16 @@
-import { TextStyle, TextSegment, PositionedTextSegment, TextMeasurement, HTMLToVegaLiteOptions } from './types';
-import { colorMap, inverseHeadingSizes, headingSizes, FONT_STYLE, FONT_WEIGHT, TEXT_DECORATION } from './constants';
+import {
+  TextStyle, TextSegment, PositionedTextSegment, TextMeasurement, HTMLToVegaLiteOptions, Diagnostic, DocumentNode,
+  ResolvedTheme, HeadingTag, TableCell
+} from './types';
+import {
+  colorMap, inverseHeadingSizes, FONT_STYLE, FONT_WEIGHT, TEXT_DECORATION, DEFAULT_TAB_SIZE, TABLE_CELL_PADDING,
+  QUOTE_BAR_WIDTH
+} from './constants';
 import { StyleHelpers } from './helpers/style';
+import { TextHelpers } from './helpers/text';
+import { DiagnosticHelpers } from './helpers/diagnostics';
+import { DocumentHelpers } from './helpers/document';
+import { ThemeHelpers } from './helpers/theme';
 
 /**
  * Text layout engine that positions text segments
@@ -11,6 +21,8 @@ export class TextLayoutEngine {
   private startX: number;
   private startY: number;
   private lineHeight: number;
+  private theme: ResolvedTheme;
+  private headingSizes: Record<HeadingTag, number>;
   private canvasContext: CanvasRenderingContext2D | null = null;
 
   constructor(options: HTMLToVegaLiteOptions = {}) {
@@ -19,6 +31,8 @@ export class TextLayoutEngine {
     this.startX = options.startX ?? 10;
     this.startY = options.startY ?? 30;
     this.lineHeight = options.lineHeight ?? this.fontSize * 1.4;
+    this.theme = ThemeHelpers.resolve(options.theme);
+    this.headingSizes = ThemeHelpers.getHeadingSizes(this.theme, this.fontSize);
     
     this.initializeCanvas();
   }
@@ -58,7 +72,7 @@ export class TextLayoutEngine {
     const fontSize = style.fontSize || this.fontSize;
     
     return {
-      width: metrics.width,
+      width: metrics.width + StyleHelpers.getSpacingWidth(text, style),
       height: fontSize
     };
   }
@@ -68,10 +82,10 @@ export class TextLayoutEngine {
   /**
    * Get additional spacing below heading based on heading level
    * H1 gets the most spacing, H6 gets the least
-   * Uses half of the heading font size as spacing
+   * Uses the theme's share of the heading font size as spacing
    */
   private getHeadingSpacing(headingType: string): number {
-    return (headingSizes[headingType] || 0) / 2;
+    return (this.headingSizes[headingType as HeadingTag] || 0) * this.theme.headingSpacing;
   }
 
   /**
@@ -88,13 +102,13 @@ export class TextLayoutEngine {
       
       // Check if next segment is still a heading
       const nextMeasurement = this.measureText(nextSegment.text, nextSegment);
-      if (!StyleHelpers.isHeadingStyle(nextSegment, nextMeasurement)) {
+      if (!StyleHelpers.isHeadingStyle(nextSegment, nextMeasurement, this.headingSizes)) {
         // Next segment is not a heading, so current heading block ends here
         return true;
       }
       
       // Check if it's the same heading type
-      const nextHeadingType = StyleHelpers.getHeadingType(nextSegment);
+      const nextHeadingType = StyleHelpers.getHeadingType(nextSegment, this.headingSizes);
       if (nextHeadingType !== currentHeadingType) {
         // Different heading type, so current heading block ends here
         return true;
@@ -113,13 +127,63 @@ export class TextLayoutEngine {
 
   /**
    * Layout text segments with positioning and line wrapping
+   * 
+   * @param segments - Segments to position
+   * @param maxWidth - Width to wrap at (defaults to 400)
+   * @param diagnostics - Optional collector for layout problems such as text that cannot be wrapped
    */
-  public layoutSegments(segments: TextSegment[], maxWidth?: number): PositionedTextSegment[] {
+  public layoutSegments(segments: TextSegment[], maxWidth?: number, diagnostics?: Diagnostic[]): PositionedTextSegment[] {
     const positioned: PositionedTextSegment[] = [];
-    let currentX = this.startX;
-    let currentY = this.startY;
     const wrapWidth = maxWidth ?? 400;
 
+    this.layoutFlow(segments, { x: this.startX, y: this.startY }, wrapWidth, positioned);
+
+    if (diagnostics) {
+      diagnostics.push(...this.findOverflow(positioned, wrapWidth));
+    }
+
+    return positioned;
+  }
+
+  /**
+   * Layout a document tree block by block
+   * 
+   * Each run of inline content is laid out on its own, continuing from where the previous one
+   * ended, so line-based lookahead (such as the extra spacing below a heading) stops at the
+   * end of its block instead of running into the next one.
+   * 
+   * @param document - Document tree from HTMLParser.parseHTML
+   * @param maxWidth - Width to wrap at (defaults to 400)
+   * @param diagnostics - Optional collector for layout problems such as text that cannot be wrapped
+   */
+  public layoutDocument(document: DocumentNode, maxWidth?: number, diagnostics?: Diagnostic[]): PositionedTextSegment[] {
+    const positioned: PositionedTextSegment[] = [];
+    const wrapWidth = maxWidth ?? 400;
+    const cursor = { x: this.startX, y: this.startY };
+
+    for (const flow of DocumentHelpers.getFlows(document)) {
+      this.layoutFlow(flow, cursor, wrapWidth, positioned);
+    }
+
+    if (diagnostics) {
+      diagnostics.push(...this.findOverflow(positioned, wrapWidth));
+    }
+
+    return positioned;
+  }
+
+  /**
+   * Position a flow of segments starting at the cursor, and move the cursor past them
+   */
+  private layoutFlow(
+    segments: TextSegment[],
+    cursor: { x: number; y: number },
+    wrapWidth: number,
+    positioned: PositionedTextSegment[]
+  ): void {
+    let currentX = cursor.x;
+    let currentY = cursor.y;
+
     for (let i = 0; i < segments.length; i++) {
       const segment = segments[i];
       if (!segment) continue;
@@ -127,50 +191,90 @@ export class TextLayoutEngine {
       // Handle explicit line breaks
       if (segment.text === '\n') {
         currentX = this.startX;
-        currentY += this.lineHeight;
+        currentY += segment.lineHeight ?? this.lineHeight;
+        continue;
+      }
+
+      // Lay out the cells of a table together
+      if (segment.tableCell) {
+        const table = segment.tableCell.table;
+        let end = i + 1;
+        while (segments[end]?.tableCell?.table === table) end++;
+
+        const cursorAfter = this.layoutTable(segments.slice(i, end), { x: currentX, y: currentY }, wrapWidth, positioned);
+        currentX = cursorAfter.x;
+        currentY = cursorAfter.y;
+        // The table already ends its last line
+        i = segments[end]?.text === '\n' ? end : end - 1;
         continue;
       }
       
       // Check if this segment needs word wrapping
       const measurement = this.measureText(segment.text, segment);
-      const segmentLineHeight = Math.max(this.lineHeight, measurement.height);
+      // A CSS line-height sets the line height exactly, otherwise large text makes the line taller
+      const segmentLineHeight = segment.lineHeight ?? Math.max(this.lineHeight, measurement.height);
 
-      const isHeading = StyleHelpers.isHeadingStyle(segment, measurement);
+      const isHeading = StyleHelpers.isHeadingStyle(segment, measurement, this.headingSizes);
+      const whiteSpace = TextHelpers.getWhiteSpaceRules(segment);
+      // Quoted text is indented, so its lines end that much earlier
+      const lineWrapWidth = wrapWidth - this.getQuoteIndentation(segment);
+      // Space for the padding of a box around the text
+      const box = this.getBoxPadding(segments, i);
       
-      // Check if segment fits on current line
-      const segmentWouldExceedWidth = currentX + measurement.width > wrapWidth;
-      const shouldWrapSegment = segmentWouldExceedWidth && currentX > this.startX;
+      // Check if segment fits on current line (never break at a non-breaking space or inside text
+      // that does not wrap; preformatted text that wraps breaks between its own words)
+      const isNonBreaking = TextHelpers.isNonBreakingBoundary(segments[i - 1], segment);
+      const segmentWouldExceedWidth = currentX + box.left + measurement.width + box.right > lineWrapWidth;
+      const wrapsOwnWords = whiteSpace.preserveSpaces && whiteSpace.wrap;
+      const shouldWrapSegment = segmentWouldExceedWidth && currentX > this.startX && !isNonBreaking && !wrapsOwnWords;
       
       if (shouldWrapSegment) {
         // This segment needs to wrap to next line
         currentX = this.startX;
         currentY += segmentLineHeight;
       }
+      currentX += box.left;
       
-      if (measurement.width > wrapWidth && segment.text.includes(' ')) {
+      if (whiteSpace.preserveSpaces) {
+        // Preformatted text keeps its runs of spaces and expands its tabs
+        const cursorAfter = this.layoutPreservedText(segment, { x: currentX, y: currentY }, lineWrapWidth, segmentLineHeight, positioned);
+        currentX = cursorAfter.x + box.right;
+        currentY = cursorAfter.y;
+        if (segment.hasSpaceAfter) {
+          currentX += this.measureText(' ', segment).width;
+        }
+      } else if (measurement.width > lineWrapWidth && segment.text.includes(' ') && whiteSpace.wrap) {
         // Word wrap this segment
         const words = segment.text.split(' ');
         let currentLine = '';
+        // Range of the current line within segment.text, for source offsets
+        let lineStart = 0;
+        let lineEnd = 0;
+        let searchFrom = 0;
         
         for (let i = 0; i < words.length; i++) {
           const word = words[i];
           if (!word) continue; // Skip empty words
           
+          const wordStart = segment.text.indexOf(word, searchFrom);
+          searchFrom = wordStart + word.length;
+          
           const testLine = currentLine ? `${currentLine} ${word}` : word;
           const testMeasurement = this.measureText(testLine, segment);
           
-          if (testMeasurement.width > wrapWidth && currentLine) {
+          if (testMeasurement.width > lineWrapWidth && currentLine) {
             // Add current line if it has content
             const lineMeasurement = this.measureText(currentLine, segment);
             
             // Calculate indentation for list items in word wrapping
             let indentationX = 0;
             if (segment.isListItem && segment.listNestingLevel) {
-              indentationX = 20 + ((segment.listNestingLevel - 1) * 20);
+              indentationX = this.theme.listIndent * segment.listNestingLevel;
             }
             
-            positioned.push({
+            this.pushPositioned(positioned, {
               ...segment,
+              ...TextHelpers.mapTextRangeToSource(segment, lineStart, lineEnd),
               text: currentLine,
               x: currentX + indentationX,
               y: currentY + (segment.verticalOffset || 0),
@@ -178,11 +282,14 @@ export class TextLayoutEngine {
               height: lineMeasurement.height
             });
             currentX = this.startX;
-            currentY += this.lineHeight;
+            currentY += segment.lineHeight ?? this.lineHeight;
             currentLine = word;
+            lineStart = wordStart;
           } else {
+            if (!currentLine) lineStart = wordStart;
             currentLine = testLine;
           }
+          lineEnd = searchFrom;
         }
         
         // Add remaining text
@@ -192,21 +299,22 @@ export class TextLayoutEngine {
           // Calculate indentation for list items in word wrapping
           let indentationX = 0;
           if (segment.isListItem && segment.listNestingLevel) {
-            indentationX = 20 + ((segment.listNestingLevel - 1) * 20);
+            indentationX = this.theme.listIndent * segment.listNestingLevel;
           }
           
           // Don't apply offset for wrapped segments that continue text flow
-          const offsetX = StyleHelpers.isUnstyledSegment(segment) && !segment.isListItem && currentX === this.startX ? 2 : 0;
+          const offsetX = StyleHelpers.isUnstyledSegment(segment, this.theme.textColor) && !segment.isListItem && currentX === this.startX ? 2 : 0;
           
-          positioned.push({
+          this.pushPositioned(positioned, {
             ...segment,
+            ...TextHelpers.mapTextRangeToSource(segment, lineStart, lineEnd),
             text: currentLine,
             x: currentX + indentationX + offsetX,
             y: currentY + (segment.verticalOffset || 0), // Apply vertical offset for sub/sup
             width: lineMeasurement.width,
             height: lineMeasurement.height
           });
-          currentX += lineMeasurement.width;
+          currentX += lineMeasurement.width + box.right;
           
           // Intelligent spacing for word-wrapped segments
           if (segment.hasSpaceAfter) {
@@ -248,7 +356,7 @@ export class TextLayoutEngine {
         
         // Apply additional spacing after heading blocks (word-wrapped case)
         if (isHeading) {
-          const headingType = StyleHelpers.getHeadingType(segment);
+          const headingType = StyleHelpers.getHeadingType(segment, this.headingSizes);
           if (headingType && this.isEndOfHeadingBlock(segments, i, headingType)) {
             // This is the end of a heading block, add extra spacing
             const additionalSpacing = this.getHeadingSpacing(headingType);
@@ -257,27 +365,27 @@ export class TextLayoutEngine {
         }
       } else {
         // Line wrapping logic for segments that don't need word wrapping
-        const hasWrapped = currentX > this.startX && currentX + measurement.width > wrapWidth;
+        const hasWrapped = currentX > this.startX + box.left && currentX + measurement.width > lineWrapWidth && !isNonBreaking;
         if (hasWrapped) {
           currentX = this.startX;
           currentY += segmentLineHeight;
         }
 
-        const isUnstyled = StyleHelpers.isUnstyledSegment(segment);
+        const isUnstyled = StyleHelpers.isUnstyledSegment(segment, this.theme.textColor);
 
         // Calculate indentation for list items
         let indentationX = 0;
         if (segment.isListItem && segment.listNestingLevel) {
           // Base padding for first-level lists: 20px
           // Additional indentation for nested lists: 20px per level
-          indentationX = 20 + ((segment.listNestingLevel - 1) * 20);
+          indentationX = this.theme.listIndent * segment.listNestingLevel;
         }
 
         // Apply small offset for unstyled text (e.g., 2px), but not for list items or after wrapping
         const offsetX = isUnstyled && !segment.isListItem && !hasWrapped ? 2 : 0;
         const totalOffsetX = offsetX + indentationX;
 
-        positioned.push({
+        this.pushPositioned(positioned, {
           ...segment,
           x: currentX + totalOffsetX, 
           y: currentY + (segmentLineHeight - measurement.height) + (segment.verticalOffset || 0), // Apply vertical offset
@@ -285,7 +393,7 @@ export class TextLayoutEngine {
           height: measurement.height
         });
 
-        currentX += measurement.width;
+        currentX += measurement.width + box.right;
         
         // Intelligent spacing: only add space if segment indicates it should have space after it
         if (segment.hasSpaceAfter) {
@@ -323,7 +431,7 @@ export class TextLayoutEngine {
 
       // Apply additional spacing after heading blocks
       if (isHeading) {
-        const headingType = StyleHelpers.getHeadingType(segment);
+        const headingType = StyleHelpers.getHeadingType(segment, this.headingSizes);
         if (headingType && this.isEndOfHeadingBlock(segments, i, headingType)) {
           // This is the end of a heading block, add extra spacing
           const additionalSpacing = this.getHeadingSpacing(headingType);
@@ -332,7 +440,299 @@ export class TextLayoutEngine {
       }
     }
 
-    return positioned;
+    cursor.x = currentX;
+    cursor.y = currentY;
+  }
+
+  /**
+   * Lay out the cells of a table in a grid below the cursor, and move the cursor below the table
+   * 
+   * Columns are as wide as their content on one line when the table fits the wrap width, and
+   * shrink towards the width of their longest word when it does not; text wraps inside its cell.
+   * A cell spanning several columns or rows widens or heightens them evenly or the last row if its
+   * content needs more room. Content is centered vertically, and header cells center it horizontally.
+   * Every positioned piece gets the box of its cell for the borders and header backgrounds.
+   * 
+   * @returns Cursor at the start of the line below the table
+   */
+  private layoutTable(
+    segments: TextSegment[],
+    cursor: { x: number; y: number },
+    wrapWidth: number,
+    positioned: PositionedTextSegment[]
+  ): { x: number; y: number } {
+    const padding = TABLE_CELL_PADDING;
+    const horizontalPadding = padding.left + padding.right;
+    const verticalPadding = padding.top + padding.bottom;
+    const cells = this.groupTableCells(segments);
+    const cellEngine = new TextLayoutEngine({ ...this.getOptions(), startX: 0, startY: 0, theme: this.theme });
+    cellEngine.canvasContext = this.canvasContext;
+    const columnCount = Math.max(...cells.map(({ cell }) => cell.column + cell.colSpan));
+    const rowCount = Math.max(...cells.map(({ cell }) => cell.row + 1));
+
+    // Column widths between the longest word and the whole content on one line of each cell
+    const minWidths = this.distributeSpans(
+      cells.map(({ cell, content }) => ({ start: cell.column, span: cell.colSpan, size: cellEngine.layoutCellContent(content, 0).width + horizontalPadding })),
+      columnCount
+    );
+    const maxWidths = this.distributeSpans(
+      cells.map(({ cell, content }) => ({ start: cell.column, span: cell.colSpan, size: cellEngine.layoutCellContent(content, Infinity).width + horizontalPadding })),
+      columnCount
+    ).map((width, column) => Math.max(width, minWidths[column] ?? 0));
+    const available = wrapWidth - this.startX;
+    const minTotal = minWidths.reduce((sum, width) => sum + width, 0);
+    const maxTotal = maxWidths.reduce((sum, width) => sum + width, 0);
+    const widths = maxTotal <= available ? maxWidths
+      : minTotal >= available ? minWidths
+      : minWidths.map((width, column) => width + ((maxWidths[column] ?? width) - width) * (available - minTotal) / (maxTotal - minTotal));
+
+    // Lay out each cell at its width, then size the rows to the cells
+    const columnX = [this.startX];
+    widths.forEach((width, column) => columnX.push((columnX[column] ?? 0) + width));
+    const laidOut = cells.map(({ cell, content }) => {
+      const rowSpan = Math.min(cell.rowSpan, rowCount - cell.row);
+      const width = (columnX[cell.column + cell.colSpan] ?? 0) - (columnX[cell.column] ?? 0);
+      const { positioned: pieces, width: contentWidth, height } = cellEngine.layoutCellContent(content, width - horizontalPadding);
+      return { cell, rowSpan, width, pieces, contentWidth, height };
+    });
+    const heights = this.distributeSpans(
+      laidOut.map(({ cell, rowSpan, height }) => ({ start: cell.row, span: rowSpan, size: height + verticalPadding })),
+      rowCount,
+      true
+    );
+
+    const top = cursor.x > this.startX ? cursor.y + this.lineHeight : cursor.y;
+    const rowY = [top];
+    heights.forEach((height, row) => rowY.push((rowY[row] ?? 0) + height));
+
+    for (const { cell, rowSpan, width, pieces, contentWidth, height } of laidOut) {
+      const cellBox = {
+        x: columnX[cell.column] ?? 0,
+        y: rowY[cell.row] ?? 0,
+        x2: columnX[cell.column + cell.colSpan] ?? 0,
+        y2: rowY[cell.row + rowSpan] ?? 0
+      };
+      const offsetX = cellBox.x + padding.left + (cell.header ? (width - horizontalPadding - contentWidth) / 2 : 0);
+      const offsetY = cellBox.y + padding.top + (cellBox.y2 - cellBox.y - verticalPadding - height) / 2;
+      for (const piece of pieces) {
+        positioned.push({ ...piece, tableCell: cell, x: piece.x + offsetX, y: piece.y + offsetY, cellBox });
+      }
+    }
+
+    return { x: this.startX, y: rowY[rowCount] ?? top };
+  }
+
+  /**
+   * Collect the content of each cell of a table, in document order
+   * 
+   * Line breaks that blocks inside a cell add at its start or end are left out.
+   */
+  private groupTableCells(segments: TextSegment[]): Array<{ cell: TableCell; content: TextSegment[] }> {
+    const cells = new Map<string, { cell: TableCell; content: TextSegment[] }>();
+    for (const { tableCell, ...segment } of segments) {
+      if (!tableCell) continue;
+      const key = `${tableCell.row}:${tableCell.column}`;
+      if (!cells.has(key)) {
+        cells.set(key, { cell: tableCell, content: [] });
+      }
+      cells.get(key)?.content.push(segment);
+    }
+
+    return [...cells.values()].map(({ cell, content }) => {
+      let start = 0;
+      let end = content.length;
+      while (start < end && content[start]?.text === '\n') start++;
+      while (end > start && content[end - 1]?.text === '\n') end--;
+      return { cell, content: content.slice(start, end) };
+    });
+  }
+
+  /**
+   * Size columns or rows to the items that start in them: each item needs `size` across the
+   * `span` columns or rows from `start`. Single items come first; a spanning item that needs
+   * more room than its columns or rows have shares it out evenly, or gives it to the last one.
+   */
+  private distributeSpans(items: Array<{ start: number; span: number; size: number }>, count: number, toLast = false): number[] {
+    const sizes = new Array<number>(count).fill(0);
+    const ordered = [...items].sort((a, b) => a.span - b.span);
+    for (const { start, span, size } of ordered) {
+      const current = sizes.slice(start, start + span).reduce((sum, value) => sum + value, 0);
+      if (size <= current) continue;
+      if (toLast) {
+        sizes[start + span - 1] = (sizes[start + span - 1] ?? 0) + size - current;
+        continue;
+      }
+      for (let index = start; index < start + span; index++) {
+        sizes[index] = (sizes[index] ?? 0) + (size - current) / span;
+      }
+    }
+    return sizes;
+  }
+
+  /**
+   * Lay out the content of a table cell from the origin of this engine, wrapping at the given width
+   * 
+   * @returns Positioned pieces, the width of the widest line and the height of the content
+   */
+  private layoutCellContent(
+    content: TextSegment[],
+    width: number
+  ): { positioned: PositionedTextSegment[]; width: number; height: number } {
+    const positioned: PositionedTextSegment[] = [];
+    this.layoutFlow(content, { x: 0, y: 0 }, width, positioned);
+
+    return {
+      positioned,
+      width: Math.max(0, ...positioned.map(piece => piece.x + piece.width)),
+      height: Math.max(this.lineHeight, ...positioned.map(piece => piece.y + piece.height))
+    };
+  }
+
+  /**
+   * Position text that keeps its spaces (white-space: pre, pre-wrap, break-spaces)
+   * 
+   * Words separated by single spaces are placed together; longer runs of spaces move the pen,
+   * and tabs move it to the next tab stop (tab-size spaces apart, counted from the line start).
+   * pre-wrap and break-spaces wrap before a word that would overflow a line with content;
+   * pre-wrap lets spaces hang past the end of the line, break-spaces wraps them too.
+   * 
+   * @returns Pen position after the text
+   */
+  private layoutPreservedText(
+    segment: TextSegment,
+    cursor: { x: number; y: number },
+    wrapWidth: number,
+    lineHeight: number,
+    positioned: PositionedTextSegment[]
+  ): { x: number; y: number } {
+    const { wrap } = TextHelpers.getWhiteSpaceRules(segment);
+    const breakSpaces = segment.whiteSpace === 'break-spaces';
+    const spaceWidth = this.measureText(' ', segment).width;
+    const tabWidth = spaceWidth * (segment.tabSize ?? DEFAULT_TAB_SIZE);
+    let { x, y } = cursor;
+    // Words placed together, from pieceStart to pieceEnd of segment.text, starting at pieceX
+    let piece = '';
+    let pieceStart = 0;
+    let pieceEnd = 0;
+    let pieceX = x;
+    let pendingSpace = false;
+
+    const flush = (): void => {
+      if (piece) {
+        const measurement = this.measureText(piece, segment);
+        this.pushPositioned(positioned, {
+          ...segment,
+          ...TextHelpers.mapTextRangeToSource(segment, pieceStart, pieceEnd),
+          text: piece,
+          x: pieceX,
+          y: y + (lineHeight - measurement.height) + (segment.verticalOffset || 0),
+          width: measurement.width,
+          height: measurement.height
+        });
+      }
+      piece = '';
+    };
+    const newLine = (): void => {
+      x = this.startX;
+      y += lineHeight;
+    };
+
+    for (const match of segment.text.matchAll(/[^ \t]+|[ \t]+/g)) {
+      const chunk = match[0];
+      const index = match.index ?? 0;
+
+      if (chunk === ' ' && piece) {
+        // A single space between words stays inside the piece
+        pendingSpace = true;
+        continue;
+      }
+      if (/^[ \t]/.test(chunk)) {
+        flush();
+        for (const char of chunk) {
+          if (char === '\t') {
+            x = tabWidth > 0 ? this.startX + (Math.floor((x - this.startX) / tabWidth) + 1) * tabWidth : x;
+          } else {
+            if (breakSpaces && x + spaceWidth > wrapWidth && x > this.startX) {
+              newLine();
+            }
+            x += spaceWidth;
+          }
+        }
+        continue;
+      }
+
+      const wordWidth = this.measureText(chunk, segment).width;
+      const gap = pendingSpace ? spaceWidth : 0;
+      if (wrap && x + gap + wordWidth > wrapWidth && x > this.startX) {
+        // The space before the word hangs at the end of the line
+        flush();
+        newLine();
+        pendingSpace = false;
+      }
+      if (!piece) {
+        pieceStart = index;
+        pieceX = x;
+      }
+      piece += pendingSpace ? ` ${chunk}` : chunk;
+      pieceEnd = index + chunk.length;
+      pendingSpace = false;
+      x = pieceX + this.measureText(piece, segment).width;
+    }
+
+    flush();
+    if (pendingSpace) {
+      x += spaceWidth;
+    }
+    return { x, y };
+  }
+
+  /**
+   * Add a positioned piece of text
+   * 
+   * Quoted text is moved right by the indentation of its blockquotes. Text marks cannot space
+   * out their glyphs, so text with letter-spacing is placed character by character, and text
+   * with only word-spacing word by word.
+   */
+  private pushPositioned(positioned: PositionedTextSegment[], placed: PositionedTextSegment): void {
+    const piece = placed.blockquotes?.length ? this.indentQuotedPiece(placed) : placed;
+    if (!piece.letterSpacing && !piece.wordSpacing) {
+      positioned.push(piece);
+      return;
+    }
+
+    const units = piece.letterSpacing ? Array.from(piece.text) : piece.text.match(/[^ ]+ *| +/g) ?? [];
+    let x = piece.x;
+    let offset = 0;
+    for (const unit of units) {
+      const text = unit.trimEnd();
+      if (text) {
+        positioned.push({
+          ...piece,
+          ...TextHelpers.mapTextRangeToSource(piece, offset, offset + text.length),
+          text,
+          x,
+          width: this.measureText(text, piece).width
+        });
+      }
+      x += this.measureText(unit, piece).width;
+      offset += unit.length;
+    }
+  }
+
+  /**
+   * Report text that is wider than the wrap width even on a line of its own
+   */
+  private findOverflow(positioned: PositionedTextSegment[], wrapWidth: number): Diagnostic[] {
+    const available = wrapWidth - this.startX;
+    return positioned
+      .filter(segment => segment.width > available)
+      .map(segment => DiagnosticHelpers.create(
+        'text-overflow',
+        'warning',
+        `Text "${segment.text}" is wider than the available width (${Math.round(segment.width)}px > ${Math.round(available)}px)`,
+        undefined,
+        DiagnosticHelpers.segmentRange(segment)
+      ));
   }
 
   /**
@@ -343,8 +743,8 @@ export class TextLayoutEngine {
       return { width: 0, height: 0 };
     }
 
-    const maxX = Math.max(...segments.map(s => s.x + s.width));
-    const maxY = Math.max(...segments.map(s => s.y + s.height));
+    const maxX = Math.max(...segments.map(s => Math.max(s.x + s.width, s.cellBox?.x2 ?? 0)));
+    const maxY = Math.max(...segments.map(s => Math.max(s.y + s.height, s.cellBox?.y2 ?? 0)));
     
     return {
       width: maxX + 20, // Add padding
@@ -360,6 +760,12 @@ export class TextLayoutEngine {
       this.fontSize = options.fontSize;
       this.lineHeight = options.lineHeight ?? this.fontSize * 1.4;
     }
+    if (options.theme !== undefined) {
+      this.theme = ThemeHelpers.resolve(options.theme);
+    }
+    if (options.fontSize !== undefined || options.theme !== undefined) {
+      this.headingSizes = ThemeHelpers.getHeadingSizes(this.theme, this.fontSize);
+    }
     if (options.fontFamily !== undefined) {
       this.fontFamily = options.fontFamily;
     }
@@ -387,6 +793,44 @@ export class TextLayoutEngine {
     };
   }
 
+  /**
+   * Padding of the box around a segment that takes up room in its line: on the left of the
+   * first segment of the element that draws the box and on the right of its last segment
+   */
+  private getBoxPadding(segments: TextSegment[], index: number): { left: number; right: number } {
+    const segment = segments[index];
+    const padding = segment?.backgroundPadding;
+    if (!segment || !padding) {
+      return { left: 0, right: 0 };
+    }
+
+    const sameBox = (other: TextSegment | undefined) =>
+      !!other && other.text !== '\n' && !!other.backgroundPadding && other.boxStart === segment.boxStart;
+    return {
+      left: sameBox(segments[index - 1]) ? 0 : padding.left,
+      right: sameBox(segments[index + 1]) ? 0 : padding.right
+    };
+  }
+
+  /**
+   * Indentation of text in blockquotes: the theme's quoteIndent per nesting level
+   */
+  private getQuoteIndentation(segment: TextSegment): number {
+    return this.theme.quoteIndent * (segment.blockquotes?.length ?? 0);
+  }
+
+  /**
+   * Indent a piece of quoted text and place the left bar of each of its blockquotes at the
+   * start of the indentation of that quote
+   */
+  private indentQuotedPiece(piece: PositionedTextSegment): PositionedTextSegment {
+    return {
+      ...piece,
+      x: piece.x + this.getQuoteIndentation(piece),
+      quoteBarX: (piece.blockquotes ?? []).map((_, level) => this.startX + this.theme.quoteIndent * level + QUOTE_BAR_WIDTH / 2)
+    };
+  }
+
   /**
    * Check if two segments share parent styling (indicating they're nested within the same element)
    */
@@ -396,13 +840,13 @@ export class TextLayoutEngine {
     
     const currentBaseStyles = {
       fontWeight: current.fontWeight || 'normal',
-      color: current.color || '#000000',
+      color: current.color || this.theme.textColor,
       fontSize: current.fontSize || 14
     };
     
     const nextBaseStyles = {
       fontWeight: next.fontWeight || 'normal', 
-      color: next.color || '#000000',
+      color: next.color || this.theme.textColor,
       fontSize: next.fontSize || 14
     };
     
@@ -411,7 +855,7 @@ export class TextLayoutEngine {
                             currentBaseStyles.fontWeight !== 'normal';
     
     const sharesColor = currentBaseStyles.color === nextBaseStyles.color && 
-                       currentBaseStyles.color !== '#000000';
+                       currentBaseStyles.color !== this.theme.textColor;
                        
     const sharesFontSize = currentBaseStyles.fontSize === nextBaseStyles.fontSize &&
                           currentBaseStyles.fontSize !== 14;
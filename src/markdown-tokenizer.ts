@@ -0,0 +1,595 @@
+import { HTMLToken, TokenizedDocument } from './types';
+
+/**
+ * Block structure of a Markdown document
+ */
+type MarkdownBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'code'; lines: string[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | { type: 'quote'; children: MarkdownBlock[] };
+
+/**
+ * Turns CommonMark into the token stream HTMLTokenizer and TagBalancer produce for the
+ * equivalent HTML, so Markdown goes through the same tag strategies, spacing analysis and layout.
+ *
+ * Supported: ATX and setext headings, paragraphs with soft and hard line breaks, emphasis,
+ * strong emphasis, `~~strikethrough~~`, code spans, fenced and indented code blocks, links,
+ * autolinks, images (rendered as their alt text), nested ordered and unordered lists, block
+ * quotes and backslash escapes. Thematic breaks end the current block. Raw HTML is rendered
+ * as text, and character references are decoded as in HTML.
+ *
+ * Code blocks become `<pre><code>` with their lines as they are. List items are always tight:
+ * their paragraphs are not wrapped in `<p>`.
+ */
+export class MarkdownTokenizer {
+  private static readonly FENCE = /^( {0,3})(`{3,}|~{3,})([^`]*)$/;
+  private static readonly ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+  private static readonly SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+  private static readonly THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+  private static readonly BLOCK_QUOTE = /^ {0,3}> ?/;
+  private static readonly LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])([ \t]+|$)/;
+  private static readonly AUTOLINK = /^<([a-zA-Z][a-zA-Z0-9+.-]{1,31}:[^<>\s]*|[^<>\s@]+@[^<>\s@]+\.[^<>\s@]+)>/;
+  private static readonly PUNCTUATION = /[!-/:-@[-`{-~]/;
+
+  /**
+   * Convert Markdown to balanced tokens
+   *
+   * @param markdown - CommonMark source
+   * @returns Tokens and the canonical HTML their offsets refer to
+   */
+  public tokenize(markdown: string): TokenizedDocument {
+    const output: TokenizedDocument = { tokens: [], source: '' };
+    const lines = markdown.replace(/\r\n?/g, '\n').split('\n').map(line => this.expandIndentTabs(line));
+    this.emitBlocks(output, this.parseBlocks(lines), false);
+    return output;
+  }
+
+  /**
+   * Split lines into blocks
+   */
+  private parseBlocks(lines: string[]): MarkdownBlock[] {
+    const blocks: MarkdownBlock[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+      const line = lines[i] ?? '';
+      const fence = MarkdownTokenizer.FENCE.exec(line);
+      const heading = MarkdownTokenizer.ATX_HEADING.exec(line);
+
+      if (!line.trim()) {
+        i++;
+      } else if (fence) {
+        i = this.parseFencedCode(lines, i, fence, blocks);
+      } else if (heading) {
+        blocks.push({ type: 'heading', level: heading[1]?.length ?? 1, text: heading[2] ?? '' });
+        i++;
+      } else if (MarkdownTokenizer.THEMATIC_BREAK.test(line)) {
+        i++;
+      } else if (MarkdownTokenizer.BLOCK_QUOTE.test(line)) {
+        i = this.parseBlockQuote(lines, i, blocks);
+      } else if (MarkdownTokenizer.LIST_ITEM.test(line)) {
+        i = this.parseList(lines, i, blocks);
+      } else if (this.indentOf(line) >= 4) {
+        i = this.parseIndentedCode(lines, i, blocks);
+      } else {
+        i = this.parseParagraph(lines, i, blocks);
+      }
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Read a fenced code block; an unclosed fence runs to the end of the input
+   *
+   * @returns Index of the line after the block
+   */
+  private parseFencedCode(lines: string[], start: number, fence: RegExpExecArray, blocks: MarkdownBlock[]): number {
+    const indent = fence[1]?.length ?? 0;
+    const marker = fence[2] ?? '```';
+    const closing = new RegExp(`^ {0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}[ \\t]*$`);
+    const code: string[] = [];
+
+    let i = start + 1;
+    for (; i < lines.length; i++) {
+      const line = lines[i] ?? '';
+      if (closing.test(line)) {
+        i++;
+        break;
+      }
+      code.push(line.slice(Math.min(indent, this.indentOf(line))));
+    }
+
+    blocks.push({ type: 'code', lines: code });
+    return i;
+  }
+
+  /**
+   * Read an indented code block, dropping trailing blank lines
+   *
+   * @returns Index of the line after the block
+   */
+  private parseIndentedCode(lines: string[], start: number, blocks: MarkdownBlock[]): number {
+    const code: string[] = [];
+    let i = start;
+    for (; i < lines.length; i++) {
+      const line = lines[i] ?? '';
+      if (line.trim() && this.indentOf(line) < 4) break;
+      code.push(line.slice(4));
+    }
+    while (code.length > 0 && !code[code.length - 1]?.trim()) {
+      code.pop();
+    }
+
+    blocks.push({ type: 'code', lines: code });
+    return i;
+  }
+
+  /**
+   * Read a block quote, including lazy continuation lines of its last paragraph
+   *
+   * @returns Index of the line after the block
+   */
+  private parseBlockQuote(lines: string[], start: number, blocks: MarkdownBlock[]): number {
+    const content: string[] = [];
+    let i = start;
+    for (; i < lines.length; i++) {
+      const line = lines[i] ?? '';
+      const marker = MarkdownTokenizer.BLOCK_QUOTE.exec(line);
+      if (marker) {
+        content.push(line.slice(marker[0].length));
+      } else if (line.trim() && content[content.length - 1]?.trim() && !this.startsBlock(line)) {
+        content.push(line);
+      } else {
+        break;
+      }
+    }
+
+    blocks.push({ type: 'quote', children: this.parseBlocks(content) });
+    return i;
+  }
+
+  /**
+   * Read consecutive list items with the same marker type
+   *
+   * @returns Index of the line after the list
+   */
+  private parseList(lines: string[], start: number, blocks: MarkdownBlock[]): number {
+    const first = MarkdownTokenizer.LIST_ITEM.exec(lines[start] ?? '');
+    const firstMarker = first?.[2] ?? '-';
+    const ordered = /\d/.test(firstMarker);
+    const list: MarkdownBlock = { type: 'list', ordered, start: ordered ? parseInt(firstMarker, 10) : 1, items: [] };
+
+    // Bullets must match (`-`, `*`, `+`); ordered markers must use the same delimiter
+    const isSameList = (marker: string): boolean =>
+      ordered ? /\d/.test(marker) && marker.slice(-1) === firstMarker.slice(-1) : marker === firstMarker;
+
+    let i = start;
+    while (i < lines.length) {
+      const item = MarkdownTokenizer.LIST_ITEM.exec(lines[i] ?? '');
+      if (!item || !isSameList(item[2] ?? '')) break;
+
+      // Content starts after the marker and one to four spaces
+      const spacing = item[3]?.length ?? 0;
+      const contentIndent = (item[1]?.length ?? 0) + (item[2]?.length ?? 0) + (spacing === 0 || spacing > 4 ? 1 : spacing);
+      const itemLines = [(lines[i] ?? '').slice(item[0].length)];
+
+      for (i++; i < lines.length; i++) {
+        const line = lines[i] ?? '';
+        if (!line.trim()) {
+          // A blank line belongs to the item only if indented content follows it
+          const next = lines.slice(i).findIndex(candidate => candidate.trim() !== '');
+          const following = next === -1 ? undefined : lines[i + next];
+          if (following === undefined || this.indentOf(following) < contentIndent) break;
+          itemLines.push('');
+        } else if (this.indentOf(line) >= contentIndent) {
+          itemLines.push(line.slice(contentIndent));
+        } else if (itemLines[itemLines.length - 1]?.trim() && !this.startsBlock(line)) {
+          // Lazy continuation of the item's paragraph
+          itemLines.push(line.trim());
+        } else {
+          break;
+        }
+      }
+      list.items.push(this.parseBlocks(itemLines));
+
+      // Blank lines between items do not end the list
+      let next = i;
+      while (next < lines.length && !lines[next]?.trim()) next++;
+      const following = MarkdownTokenizer.LIST_ITEM.exec(lines[next] ?? '');
+      if (!following || !isSameList(following[2] ?? '')) break;
+      i = next;
+    }
+
+    blocks.push(list);
+    return i;
+  }
+
+  /**
+   * Read a paragraph, which becomes a heading when a setext underline follows it
+   *
+   * @returns Index of the line after the block
+   */
+  private parseParagraph(lines: string[], start: number, blocks: MarkdownBlock[]): number {
+    const content: string[] = [];
+    let i = start;
+    for (; i < lines.length; i++) {
+      const line = lines[i] ?? '';
+      const underline = content.length > 0 ? MarkdownTokenizer.SETEXT_UNDERLINE.exec(line) : null;
+      if (underline) {
+        const level = underline[1]?.startsWith('=') ? 1 : 2;
+        blocks.push({ type: 'heading', level, text: content.join('\n').trim() });
+        return i + 1;
+      }
+      if (!line.trim() || (content.length > 0 && this.startsBlock(line))) break;
+      content.push(line.replace(/^[ \t]+/, ''));
+    }
+
+    blocks.push({ type: 'paragraph', text: content.join('\n').replace(/[ \t]+$/, '') });
+    return i;
+  }
+
+  /**
+   * Check if a line starts a block that interrupts a paragraph
+   */
+  private startsBlock(line: string): boolean {
+    return MarkdownTokenizer.FENCE.test(line) ||
+           MarkdownTokenizer.ATX_HEADING.test(line) ||
+           MarkdownTokenizer.THEMATIC_BREAK.test(line) ||
+           MarkdownTokenizer.BLOCK_QUOTE.test(line) ||
+           MarkdownTokenizer.LIST_ITEM.test(line);
+  }
+
+  /**
+   * Emit the tokens for a sequence of blocks
+   *
+   * @param inListItem - List items are tight: paragraphs are emitted without `<p>`
+   */
+  private emitBlocks(output: TokenizedDocument, blocks: MarkdownBlock[], inListItem: boolean): void {
+    let previous: MarkdownBlock | undefined;
+
+    for (const block of blocks) {
+      const isInline = inListItem && block.type === 'paragraph';
+      if (isInline && previous?.type === 'paragraph') {
+        this.appendVoid(output, 'br');
+      }
+
+      switch (block.type) {
+        case 'heading':
+          this.appendElement(output, `h${block.level}`, '', () => this.emitInline(output, block.text));
+          break;
+        case 'paragraph':
+          if (isInline) {
+            this.emitInline(output, block.text);
+          } else {
+            this.appendElement(output, 'p', '', () => this.emitInline(output, block.text));
+          }
+          break;
+        case 'code':
+          this.appendElement(output, 'pre', '', () => this.appendElement(output, 'code', '', () => {
+            const text = block.lines.join('\n');
+            if (text) this.appendText(output, this.escapeText(text));
+          }));
+          break;
+        case 'list': {
+          const attributes = block.ordered && block.start !== 1 ? ` start="${block.start}"` : '';
+          this.appendElement(output, block.ordered ? 'ol' : 'ul', attributes, () => {
+            for (const item of block.items) {
+              this.appendElement(output, 'li', '', () => this.emitBlocks(output, item, true));
+            }
+          });
+          break;
+        }
+        case 'quote':
+          this.appendElement(output, 'blockquote', '', () => this.emitBlocks(output, block.children, false));
+          break;
+      }
+
+      previous = block;
+    }
+  }
+
+  /**
+   * Emit the tokens for inline Markdown
+   */
+  private emitInline(output: TokenizedDocument, text: string): void {
+    let pending = '';
+    const flush = (): void => {
+      if (pending) this.appendText(output, pending);
+      pending = '';
+    };
+
+    let i = 0;
+    while (i < text.length) {
+      const char = text[i] ?? '';
+
+      if (char === '\\') {
+        const next = text[i + 1] ?? '';
+        if (next === '\n') {
+          // Backslash at the end of a line is a hard break
+          flush();
+          this.appendVoid(output, 'br');
+          i += 2;
+        } else if (MarkdownTokenizer.PUNCTUATION.test(next)) {
+          pending += this.escapeText(next);
+          i += 2;
+        } else {
+          pending += char;
+          i++;
+        }
+        continue;
+      }
+
+      if (char === '\n') {
+        // Two or more trailing spaces make a hard break, otherwise the newline is a soft break
+        if (/ {2,}$/.test(pending)) {
+          pending = pending.replace(/ +$/, '');
+          flush();
+          this.appendVoid(output, 'br');
+        } else {
+          pending = pending.replace(/ +$/, '') + '\n';
+        }
+        i++;
+        continue;
+      }
+
+      if (char === '`') {
+        const end = this.findCodeSpanEnd(text, i);
+        if (end !== -1) {
+          flush();
+          const run = this.runLength(text, i);
+          let code = text.slice(i + run, end - run).replace(/\n/g, ' ');
+          if (/^ .* $/.test(code) && code.trim()) code = code.slice(1, -1);
+          this.appendElement(output, 'code', '', () => this.appendText(output, this.escapeText(code)));
+          i = end;
+        } else {
+          const run = this.runLength(text, i);
+          pending += text.slice(i, i + run);
+          i += run;
+        }
+        continue;
+      }
+
+      if (char === '[' || (char === '!' && text[i + 1] === '[')) {
+        const isImage = char === '!';
+        const link = this.matchLink(text, isImage ? i + 1 : i);
+        if (link) {
+          flush();
+          if (isImage) {
+            // Images have no rendering of their own; their description stands in for them
+            this.emitInline(output, link.label);
+          } else {
+            const href = link.destination.replace(/"/g, '&quot;');
+            this.appendElement(output, 'a', ` href="${href}"`, () => this.emitInline(output, link.label));
+          }
+          i = link.end;
+          continue;
+        }
+      }
+
+      if (char === '<') {
+        const autolink = MarkdownTokenizer.AUTOLINK.exec(text.slice(i));
+        if (autolink) {
+          flush();
+          const target = autolink[1] ?? '';
+          const href = (target.includes(':') ? target : `mailto:${target}`).replace(/"/g, '&quot;');
+          this.appendElement(output, 'a', ` href="${href}"`, () => this.appendText(output, this.escapeText(target)));
+          i += autolink[0].length;
+          continue;
+        }
+      }
+
+      if (char === '*' || char === '_' || char === '~') {
+        const end = this.emitEmphasis(output, text, i, flush);
+        if (end !== -1) {
+          i = end;
+          continue;
+        }
+        const run = this.runLength(text, i);
+        pending += text.slice(i, i + run);
+        i += run;
+        continue;
+      }
+
+      pending += char === '<' ? '&lt;' : char;
+      i++;
+    }
+
+    flush();
+  }
+
+  /**
+   * Emit emphasis opened by the delimiter run at `start`, if it is closed later in the text.
+   * Inner runs of the same character that open and close are skipped, so `**a *b* c**` nests.
+   *
+   * @returns Offset after the closing run, or -1 if the run is literal text
+   */
+  private emitEmphasis(output: TokenizedDocument, text: string, start: number, flush: () => void): number {
+    const char = text[start] ?? '';
+    const openLength = this.runLength(text, start);
+    if (!this.isLeftFlanking(text, start, openLength)) return -1;
+    if (char === '~' && openLength !== 2) return -1;
+
+    let depth = 0;
+    let i = start + openLength;
+    while (i < text.length) {
+      const current = text[i] ?? '';
+      if (current === '\\') {
+        i += 2;
+        continue;
+      }
+      if (current === '`') {
+        const end = this.findCodeSpanEnd(text, i);
+        i = end === -1 ? i + this.runLength(text, i) : end;
+        continue;
+      }
+      if (current !== char) {
+        i++;
+        continue;
+      }
+
+      const length = this.runLength(text, i);
+      if (this.isRightFlanking(text, i, length) && (char !== '~' || length === 2)) {
+        if (depth > 0) {
+          depth--;
+        } else {
+          const used = char === '~' ? 2 : Math.min(openLength, length, 3);
+          const tags = char === '~' ? ['del'] : used === 3 ? ['em', 'strong'] : used === 2 ? ['strong'] : ['em'];
+          const inner = text.slice(start + openLength, i);
+
+          // Unmatched delimiters stay literal outside the element
+          flush();
+          const leading = text.slice(start, start + openLength - used);
+          if (leading) this.appendText(output, leading);
+          this.emitNested(output, tags, inner);
+          i += used;
+          return i;
+        }
+      } else if (this.isLeftFlanking(text, i, length)) {
+        depth++;
+      }
+      i += length;
+    }
+
+    return -1;
+  }
+
+  /**
+   * Emit inline content wrapped in the given elements, outermost first
+   */
+  private emitNested(output: TokenizedDocument, tagNames: string[], inner: string): void {
+    const [tagName, ...rest] = tagNames;
+    if (!tagName) {
+      this.emitInline(output, inner);
+      return;
+    }
+    this.appendElement(output, tagName, '', () => this.emitNested(output, rest, inner));
+  }
+
+  /**
+   * Match `[label](destination "title")` starting at the `[`
+   */
+  private matchLink(text: string, start: number): { label: string; destination: string; end: number } | null {
+    let depth = 0;
+    let labelEnd = -1;
+    for (let i = start; i < text.length; i++) {
+      const char = text[i];
+      if (char === '\\') {
+        i++;
+      } else if (char === '[') {
+        depth++;
+      } else if (char === ']' && --depth === 0) {
+        labelEnd = i;
+        break;
+      }
+    }
+    if (labelEnd === -1 || text[labelEnd + 1] !== '(') return null;
+
+    const target = /^\(\s*(?:<([^<>\n]*)>|((?:[^\s()\\]|\\.|\([^\s()]*\))*))(?:\s+("[^"]*"|'[^']*'|\([^)]*\)))?\s*\)/
+      .exec(text.slice(labelEnd + 1));
+    if (!target) return null;
+
+    const destination = (target[1] ?? target[2] ?? '').replace(/\\([!-/:-@[-`{-~])/g, '$1');
+    return { label: text.slice(start + 1, labelEnd), destination, end: labelEnd + 1 + target[0].length };
+  }
+
+  /**
+   * Find the end of the code span opened by the backtick run at `start`
+   *
+   * @returns Offset after the closing run, or -1 if there is no run of the same length
+   */
+  private findCodeSpanEnd(text: string, start: number): number {
+    const run = this.runLength(text, start);
+    let i = start + run;
+    while (i < text.length) {
+      if (text[i] === '`') {
+        const length = this.runLength(text, i);
+        if (length === run) return i + length;
+        i += length;
+      } else {
+        i++;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Length of the run of identical characters starting at `start`
+   */
+  private runLength(text: string, start: number): number {
+    let end = start;
+    while (text[end] === text[start]) end++;
+    return end - start;
+  }
+
+  /**
+   * Check if a delimiter run can open emphasis (`_` only at the start of a word)
+   */
+  private isLeftFlanking(text: string, start: number, length: number): boolean {
+    const before = text[start - 1] ?? ' ';
+    const after = text[start + length] ?? ' ';
+    if (/\s/.test(after)) return false;
+    if (text[start] === '_' && /[\p{L}\p{N}]/u.test(before)) return false;
+    return !MarkdownTokenizer.PUNCTUATION.test(after) || /\s/.test(before) || MarkdownTokenizer.PUNCTUATION.test(before);
+  }
+
+  /**
+   * Check if a delimiter run can close emphasis (`_` only at the end of a word)
+   */
+  private isRightFlanking(text: string, start: number, length: number): boolean {
+    const before = text[start - 1] ?? ' ';
+    const after = text[start + length] ?? ' ';
+    if (/\s/.test(before)) return false;
+    if (text[start] === '_' && /[\p{L}\p{N}]/u.test(after)) return false;
+    return !MarkdownTokenizer.PUNCTUATION.test(before) || /\s/.test(after) || MarkdownTokenizer.PUNCTUATION.test(after);
+  }
+
+  /**
+   * Number of leading spaces of a line
+   */
+  private indentOf(line: string): number {
+    return line.length - line.replace(/^ +/, '').length;
+  }
+
+  /**
+   * Expand tabs in a line's indentation to four-column tab stops
+   */
+  private expandIndentTabs(line: string): string {
+    const indent = /^[ \t]*/.exec(line)?.[0] ?? '';
+    if (!indent.includes('\t')) return line;
+
+    let expanded = '';
+    for (const char of indent) {
+      expanded += char === '\t' ? ' '.repeat(4 - (expanded.length % 4)) : char;
+    }
+    return expanded + line.slice(indent.length);
+  }
+
+  /**
+   * Escape text that must not be read as markup or character references
+   */
+  private escapeText(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+  }
+
+  private appendText(output: TokenizedDocument, text: string): void {
+    this.append(output, { type: 'text', text }, text);
+  }
+
+  private appendVoid(output: TokenizedDocument, tagName: string): void {
+    this.append(output, { type: 'start-tag', tagName, attributes: '' }, `<${tagName}>`);
+  }
+
+  private appendElement(output: TokenizedDocument, tagName: string, attributes: string, content: () => void): void {
+    this.append(output, { type: 'start-tag', tagName, attributes }, `<${tagName}${attributes}>`);
+    content();
+    this.append(output, { type: 'end-tag', tagName }, `</${tagName}>`);
+  }
+
+  private append(output: TokenizedDocument, token: Omit<HTMLToken, 'start' | 'end'>, markup: string): void {
+    output.tokens.push({ ...token, start: output.source.length, end: output.source.length + markup.length });
+    output.source += markup;
+  }
+}
@@ -1,17 +1,54 @@
-import { TextStyle, TextSegment, ParseResult, ParseContext } from './types';
+import {
+  TextStyle,
+  TextSegment,
+  ParseResult,
+  ParseContext,
+  ParsedOutput,
+  ParseState,
+  ResolvedTheme,
+  ParseOptions,
+  HTMLToken,
+  Diagnostic,
+  UnknownTagAction,
+  UnknownTagPolicy,
+  SourceRange
+} from './types';
 import { TagStrategy, TagStrategyRegistry, createDefaultTagStrategyRegistry } from './strategies/index';
-import { ListTagStrategy } from './strategies/implementations/list-tag-strategy';
-import { SpacingAnalyzer } from './spacing-analyzer';
 import { StyleHelpers } from './helpers/style';
+import { TextHelpers } from './helpers/text';
+import { EntityHelpers } from './helpers/entities';
+import { DiagnosticHelpers } from './helpers/diagnostics';
+import { DocumentHelpers } from './helpers/document';
+import { AttributeHelpers } from './helpers/attributes';
+import { CompositeHelpers } from './helpers/composite';
+import { LimitHelpers } from './helpers/limits';
+import { ThemeHelpers } from './helpers/theme';
+import { HTMLTokenizer } from './tokenizer';
+import { TagBalancer } from './tag-balancer';
+import { DOMTokenizer } from './dom-tokenizer';
+import { MarkdownTokenizer } from './markdown-tokenizer';
+import { UnsupportedTagError, LimitExceededError } from './errors';
+import { HTMLSanitizer } from './sanitizer';
+import { DocumentTreeBuilder } from './document-tree';
+import { Stylesheet } from './stylesheet';
+import { DEFAULT_UNKNOWN_TAG_ACTIONS } from './constants';
 
 /**
  * HTML Parser with extensible tag strategy system
  */
 export class HTMLParser {
   private strategyRegistry: TagStrategyRegistry;
+  private tokenizer: HTMLTokenizer;
+  private balancer: TagBalancer;
+  private domTokenizer: DOMTokenizer;
+  private markdownTokenizer: MarkdownTokenizer;
 
   constructor(customStrategies: TagStrategy[] = []) {
     this.strategyRegistry = createDefaultTagStrategyRegistry();
+    this.tokenizer = new HTMLTokenizer();
+    this.balancer = new TagBalancer();
+    this.domTokenizer = new DOMTokenizer();
+    this.markdownTokenizer = new MarkdownTokenizer();
     
     // Register any custom strategies
     for (const strategy of customStrategies) {
@@ -32,143 +69,579 @@ export class HTMLParser {
   }
 
   /**
-   * Parse HTML string into text segments with styling information
+   * Parse HTML into text segments with styling information
    * Uses strategy pattern for extensible tag handling
+   * 
+   * @param input - HTML string, or a DOM node (Element, DocumentFragment or Document) that is
+   *   walked directly instead of being serialized and re-parsed
+   * @param options - Parse options such as the unknown-tag policy and limits
+   * @throws UnsupportedTagError if the unknown-tag policy is `error` and an unknown tag is found
+   * @throws LimitExceededError if a limit is exceeded and `limits.onLimitExceeded` is `throw`
    */
-  public parseHTML(html: string): ParseResult {
-    const segments: TextSegment[] = [];
-    const errors: string[] = [];
+  public parseHTML(input: string | Node, options: ParseOptions = {}): ParseResult {
+    if (DOMTokenizer.isNode(input)) {
+      // A DOM tree is already well-formed, so there is nothing to balance
+      const { tokens, source } = this.domTokenizer.tokenize(input);
+      const maxLength = options.limits?.maxInputLength;
+      if (maxLength !== undefined && source.length > maxLength) {
+        // Parse the part of the serialized tree that fits as HTML
+        return this.parseHTML(source, options);
+      }
+      return this.parseTokens(tokens, source, [], [], options);
+    }
     
-    // First, validate the HTML structure
-    const validation = this.validateHTML(html);
-    if (!validation.isValid) {
-      errors.push(...validation.errors);
+    if (!input || typeof input !== 'string') {
+      const message = 'Input must be a non-empty string';
+      return {
+        segments: [],
+        errors: [message],
+        warnings: [],
+        diagnostics: [DiagnosticHelpers.create('invalid-input', 'error', message)]
+      };
     }
     
+    // Cut oversized input before tokenizing, so the work done on it is bounded
+    const limitDiagnostics: Diagnostic[] = [];
+    const maxLength = options.limits?.maxInputLength;
+    let html = input;
+    if (maxLength !== undefined && html.length > maxLength) {
+      LimitHelpers.exceed(options, 'input-length', maxLength, limitDiagnostics);
+      html = LimitHelpers.truncateHTML(html, maxLength);
+    }
+    
+    // Repair the tag structure up front; repairs are reported as warnings
+    const { tokens, warnings, diagnostics } = this.balancer.balance(this.tokenizer.tokenize(html));
+    return this.parseTokens(tokens, html, warnings, [...limitDiagnostics, ...diagnostics], options);
+  }
+
+  /**
+   * Parse CommonMark into the same text segments as the equivalent HTML
+   * 
+   * @param markdown - Markdown source
+   * @param options - Parse options such as the unknown-tag policy and limits
+   * @throws LimitExceededError if a limit is exceeded and `limits.onLimitExceeded` is `throw`
+   */
+  public parseMarkdown(markdown: string, options: ParseOptions = {}): ParseResult {
+    if (!markdown || typeof markdown !== 'string') {
+      const message = 'Input must be a non-empty string';
+      return {
+        segments: [],
+        errors: [message],
+        warnings: [],
+        diagnostics: [DiagnosticHelpers.create('invalid-input', 'error', message)]
+      };
+    }
+    
+    const limitDiagnostics: Diagnostic[] = [];
+    const maxLength = options.limits?.maxInputLength;
+    let text = markdown;
+    if (maxLength !== undefined && text.length > maxLength) {
+      LimitHelpers.exceed(options, 'input-length', maxLength, limitDiagnostics);
+      text = text.slice(0, maxLength);
+    }
+    
+    const { tokens, source } = this.markdownTokenizer.tokenize(text);
+    return this.parseTokens(tokens, source, [], limitDiagnostics, options);
+  }
+
+  /**
+   * Run balanced tokens through the tag strategies and the spacing analysis.
+   * The segments are lowered from the document tree built along the way.
+   */
+  private parseTokens(
+    tokens: HTMLToken[],
+    source: string,
+    warnings: string[],
+    diagnostics: Diagnostic[],
+    options: ParseOptions
+  ): ParseResult {
+    const state = this.createParseState(tokens, options);
+    state.diagnostics.push(...diagnostics);
+    
     try {
-      // Reset list state for clean parsing
-      ListTagStrategy.resetListState();
-      
-      // Enhanced regex pattern to capture more tag types
-      const tagPattern = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)([^>]*)>/gi;
-      const parts = html.split(tagPattern);
-      
-      let currentStyle: TextStyle = this.getDefaultStyle();
-      const styleStack: TextStyle[] = [{ ...currentStyle }];
-      
-      for (let i = 0; i < parts.length; i++) {
-        const part = parts[i];
-        
-        if (!part) continue;
-        
-        // Check if this is a tag
-        if (i % 4 === 1) { // Closing tag indicator
-          if (part === '/') {
-            // Get the closing tag name
-            const closingTagName = parts[i + 1]?.toLowerCase();
-            
-            if (closingTagName) {
-              const strategy = this.strategyRegistry.getStrategy(closingTagName);
-              
-              if (strategy) {
-                // Create parse context for closing tag
-                const context: ParseContext = {
-                  currentStyle,
-                  styleStack,
-                  segments,
-                  attributes: '',
-                  tagName: closingTagName,
-                  isClosingTag: true,
-                  remainingParts: parts.slice(i + 2),
-                  currentIndex: i
-                };
-                
-                // Use strategy to handle closing tag
-                const result = strategy.parse(context);
-                
-                // Apply strategy results
-                segments.push(...result.newSegments);
-                errors.push(...result.errors);
-                
-                if (result.popFromStyleStack && styleStack.length > 1) {
-                  styleStack.pop();
-                  const prevStyle = styleStack[styleStack.length - 1];
-                  if (prevStyle) {
-                    currentStyle = { ...prevStyle };
-                  }
-                }
-              } else {
-                errors.push(`Unsupported closing tag: ${closingTagName}`);
-              }
-            }
-          }
-        } else if (i % 4 === 2) { // Tag name
-          if (parts[i - 1] !== '/') { // Opening tag
-            const tagName = part.toLowerCase();
-            const attributes = parts[i + 1] || '';
-            
-            const strategy = this.strategyRegistry.getStrategy(tagName);
-            
-            if (strategy) {
-              // Create parse context for opening tag
-              const context: ParseContext = {
-                currentStyle,
-                styleStack,
-                segments,
-                attributes,
-                tagName,
-                isClosingTag: false,
-                remainingParts: parts.slice(i + 4),
-                currentIndex: i
-              };
-              
-              // Use strategy to handle opening tag
-              const result = strategy.parse(context);
-              
-              // Apply strategy results
-              segments.push(...result.newSegments);
-              errors.push(...result.errors);
-              
-              if (result.pushStyleToStack) {
-                styleStack.push(result.updatedStyle);
-                currentStyle = result.updatedStyle;
-              }
-            } else {
-              errors.push(`Unsupported tag: ${tagName}`);
-              // Continue with current style for unsupported tags
-            }
-          }
-        } else if (i % 4 === 0) { // Text content
-          if (part.trim()) {
-            // Create segment for text content with current style
-            segments.push({
-              text: part,
-              ...currentStyle
-            });
-          }
-        }
+      for (let i = 0; i < tokens.length; i++) {
+        this.processToken(state, i);
       }
       
-      // Apply intelligent spacing analysis to segments
-      const spacedSegments = SpacingAnalyzer.analyzeAndAssignSpacing(segments, html);
+      // Apply intelligent spacing analysis to the text runs of the tree
+      const document = state.document.build(source, state.theme.textColor);
       
       const result: ParseResult = { 
-        segments: spacedSegments,
-        errors: errors.length > 0 ? errors : []
+        segments: DocumentHelpers.toSegments(document),
+        errors: state.errors,
+        warnings,
+        diagnostics: state.diagnostics,
+        document
       };
       return result;
       
     } catch (error) {
+      // Failing hard was requested by the unknown-tag policy or the limits
+      if (error instanceof UnsupportedTagError || error instanceof LimitExceededError) {
+        throw error;
+      }
+      
+      // Last resort: keep the document's text, unstyled, rather than the raw markup
+      const textSegments: TextSegment[] = tokens
+        .filter(token => token.type === 'text' && TextHelpers.trimHtmlWhitespace(token.text ?? ''))
+        .map(token => ({
+          text: EntityHelpers.decodeText(token.text ?? ''),
+          ...this.getDefaultStyle(state.theme),
+          sourceStart: token.start,
+          sourceEnd: token.end
+        }));
+      
+      const message = `Parse error: ${error instanceof Error ? error.message : 'Unknown error'}`;
       return {
-        segments: [{
-          text: html,
-          ...this.getDefaultStyle()
-        }],
-        errors: [`Parse error: ${error instanceof Error ? error.message : 'Unknown error'}`]
+        segments: TextHelpers.normalizeSegmentWhitespace(textSegments),
+        errors: [...state.errors, message],
+        warnings,
+        diagnostics: [...state.diagnostics, DiagnosticHelpers.create('parse-failure', 'error', message)]
       };
     }
   }
 
+  /**
+   * Create the state for a parse of balanced tokens.
+   * Each parse has its own list numbering, so parses may run interleaved or re-entrantly.
+   * 
+   * @param tokens - Balanced tokens; may keep growing while a stream is parsed
+   * @param options - Parse options such as the unknown-tag policy
+   * @returns Fresh parse state with the default style, in the text color of the theme
+   */
+  public createParseState(tokens: HTMLToken[] = [], options: ParseOptions = {}): ParseState {
+    const theme = ThemeHelpers.resolve(options.theme);
+    const currentStyle = this.getDefaultStyle(theme);
+    return {
+      currentStyle,
+      styleStack: [{ ...currentStyle }],
+      segments: [],
+      errors: [],
+      diagnostics: [],
+      tokens,
+      options,
+      sanitizer: options.sanitize ? new HTMLSanitizer(options.sanitize) : null,
+      removedElement: null,
+      document: new DocumentTreeBuilder(),
+      compositeState: CompositeHelpers.createState(),
+      depth: 0,
+      startTime: Date.now(),
+      limitReached: null,
+      stylesheet: new Stylesheet(),
+      elementStack: [],
+      theme
+    };
+  }
+
+  /**
+   * Apply one balanced token to a parse in progress, appending any raw segments it produces
+   * 
+   * @param state - Parse state from createParseState
+   * @param tokenIndex - Index of the token in `state.tokens`
+   */
+  public processToken(state: ParseState, tokenIndex: number): void {
+    const token = state.tokens[tokenIndex];
+    if (!token || state.limitReached) return;
+    
+    const maxTime = state.options.limits?.maxProcessingTime;
+    if (maxTime !== undefined && Date.now() - state.startTime > maxTime) {
+      LimitHelpers.exceed(state.options, 'processing-time', maxTime, state.diagnostics);
+      state.limitReached = 'processing-time';
+      return;
+    }
+    
+    if (state.removedElement) {
+      // Skip everything up to the end tag of the removed element
+      if (token.tagName === state.removedElement.tagName) {
+        if (token.type === 'start-tag') {
+          state.removedElement.depth++;
+        } else if (token.type === 'end-tag' && --state.removedElement.depth === 0) {
+          state.removedElement = null;
+          state.depth--;
+        }
+      }
+      return;
+    }
+    
+    switch (token.type) {
+      case 'text': {
+        let text = EntityHelpers.decodeText(token.text ?? '');
+        let start = token.start;
+        const previousToken = state.tokens[tokenIndex - 1];
+        const lastSegment = state.segments[state.segments.length - 1];
+        if (previousToken?.type === 'start-tag' && previousToken.tagName === 'pre') {
+          // A line break right after <pre> is not part of its content
+          const leadingBreak = /^\r?\n/.exec(text)?.[0] ?? '';
+          text = text.slice(leadingBreak.length);
+          start += leadingBreak.length;
+        }
+        const rules = TextHelpers.getWhiteSpaceRules(state.currentStyle);
+        if (lastSegment && lastSegment.sourceEnd === token.start && previousToken?.type === 'text') {
+          // Text split across stream chunks continues the segment it started
+          lastSegment.text += text;
+          lastSegment.sourceEnd = token.end;
+        } else if (TextHelpers.trimHtmlWhitespace(text) || (text && (rules.preserveSpaces || rules.preserveNewlines))) {
+          // Create segment for text content with current style (preformatted whitespace is content too)
+          this.appendSegments(state, [{
+            text,
+            ...state.currentStyle,
+            sourceStart: start,
+            sourceEnd: token.end
+          }]);
+        }
+        break;
+      }
+      case 'start-tag':
+      case 'self-closing-tag': {
+        const maxDepth = state.options.limits?.maxNestingDepth;
+        if (!TagBalancer.VOID_TAGS.has(token.tagName ?? '') && ++state.depth > (maxDepth ?? Infinity)) {
+          // Drop the element with its content; its end tag restores the depth
+          LimitHelpers.exceed(state.options, 'nesting-depth', maxDepth ?? 0, state.diagnostics);
+          state.removedElement = { tagName: token.tagName ?? '', depth: 1 };
+          break;
+        }
+        if (!TagBalancer.VOID_TAGS.has(token.tagName ?? '')) {
+          this.openStyledElement(state, token.tagName ?? '');
+        }
+        // The balancer supplies the end tag of `<span/>`-style self-closing elements
+        this.dispatchTag(state, token, tokenIndex, false);
+        break;
+      }
+      case 'end-tag':
+        if (!TagBalancer.VOID_TAGS.has(token.tagName ?? '')) {
+          state.depth--;
+        }
+        this.dispatchTag(state, token, tokenIndex, true);
+        this.closeStyledElement(state, token.tagName ?? '');
+        break;
+      default:
+        // Comments and doctype declarations carry no renderable content
+        break;
+    }
+  }
+
+  /**
+   * Run the strategy for a tag token and apply its results.
+   * Returns false when no strategy handles the tag.
+   */
+  private dispatchTag(state: ParseState, token: HTMLToken, tokenIndex: number, isClosingTag: boolean): boolean {
+    const tagName = token.tagName ?? '';
+    const range = { start: token.start, end: token.end };
+    let attributes = isClosingTag ? '' : token.attributes ?? '';
+    
+    if (state.sanitizer) {
+      if (!state.sanitizer.isTagAllowed(tagName)) {
+        this.handleDisallowedTag(state, token, isClosingTag);
+        return false;
+      }
+      if (attributes) {
+        const sanitized = state.sanitizer.sanitizeAttributes(tagName, attributes);
+        attributes = sanitized.attributes;
+        // Reopened formatting elements repeat attributes that were already reported
+        if (!token.implied) {
+          state.diagnostics.push(...DiagnosticHelpers.withTagContext(sanitized.diagnostics, tagName, range));
+        }
+      }
+    }
+    
+    if (tagName === 'style' && !isClosingTag) {
+      // A style sheet is applied, never rendered: its content is consumed with the element
+      this.addStylesheet(state, tokenIndex, range);
+      this.removeElement(state, tagName);
+      return true;
+    }
+    
+    const attributeMap = AttributeHelpers.parseAttributes(attributes);
+    // The cascade is resolved before the strategy runs and applied over its tag defaults and the theme
+    const cascaded = isClosingTag || TagBalancer.VOID_TAGS.has(tagName) ? '' : this.computeCascade(state, attributeMap);
+    
+    const strategy = this.strategyRegistry.getStrategy(tagName);
+    if (!strategy) {
+      this.handleUnknownTag(state, token, attributes, attributeMap, isClosingTag, cascaded);
+      return false;
+    }
+    
+    const context: ParseContext = {
+      currentStyle: state.currentStyle,
+      styleStack: state.styleStack,
+      segments: state.segments,
+      attributes,
+      attributeMap,
+      tagName,
+      isClosingTag,
+      tokens: state.tokens,
+      tokenIndex,
+      compositeState: state.compositeState
+    };
+    
+    let result: ParsedOutput;
+    try {
+      result = strategy.parse(context);
+    } catch (error) {
+      // A failing strategy only loses its own tag, not the rest of the document
+      const message = `Parse error in <${tagName}>: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      state.errors.push(message);
+      state.diagnostics.push(DiagnosticHelpers.create('strategy-error', 'error', message, tagName, range));
+      return true;
+    }
+    
+    // Apply strategy results; the segments of a start tag belong to its element
+    if (!isClosingTag && !TagBalancer.VOID_TAGS.has(tagName)) {
+      state.document.openElement(tagName, attributes, range, strategy.isLineBreak?.(tagName) ?? false);
+    }
+    this.appendSegments(state, result.newSegments);
+    if (isClosingTag) {
+      state.document.closeElement(tagName);
+    }
+    state.errors.push(...result.errors);
+    state.diagnostics.push(...DiagnosticHelpers.withTagContext(
+      result.diagnostics ?? result.errors.map(message => DiagnosticHelpers.create('strategy-error', 'warning', message)),
+      tagName,
+      range
+    ));
+    
+    if (isClosingTag) {
+      if (result.popFromStyleStack && state.styleStack.length > 1) {
+        state.styleStack.pop();
+        const prevStyle = state.styleStack[state.styleStack.length - 1];
+        if (prevStyle) {
+          state.currentStyle = { ...prevStyle };
+        }
+      }
+    } else if (result.pushStyleToStack) {
+      const themed = this.applyTheme(state, tagName, result.updatedStyle, attributeMap);
+      const cascadedStyle = cascaded ? this.applyCascade(themed, cascaded) : themed;
+      const updatedStyle = StyleHelpers.markBoxStart(cascadedStyle, state.currentStyle, token.start);
+      state.styleStack.push(updatedStyle);
+      state.currentStyle = updatedStyle;
+    }
+    if (!isClosingTag && result.leadingSegments) {
+      this.appendSegments(state, result.leadingSegments.map(segment => ({ ...state.currentStyle, ...segment })));
+    }
+    
+    return true;
+  }
+
+  /**
+   * Track an element that is opened for selector matching; it inherits its parent's custom properties
+   */
+  private openStyledElement(state: ParseState, tagName: string): void {
+    const parent = state.elementStack[state.elementStack.length - 1];
+    state.elementStack.push({
+      tagName,
+      id: null,
+      classes: [],
+      customProperties: parent?.customProperties ?? state.stylesheet.getRootCustomProperties(),
+      ownsStyle: false
+    });
+  }
+
+  /**
+   * Stop tracking the innermost open element with this tag name and every element opened inside it
+   */
+  private closeStyledElement(state: ParseState, tagName: string): void {
+    for (let i = state.elementStack.length - 1; i >= 0; i--) {
+      if (state.elementStack[i]?.tagName !== tagName) continue;
+      
+      // Pop the cascaded style of an element that has no strategy to pop it
+      if (state.elementStack[i]?.ownsStyle && state.styleStack.length > 1) {
+        state.styleStack.pop();
+        state.currentStyle = { ...(state.styleStack[state.styleStack.length - 1] ?? this.getDefaultStyle(state.theme)) };
+      }
+      state.elementStack.length = i;
+      return;
+    }
+  }
+
+  /**
+   * Read the rules of a `<style>` element; they apply to the elements after it
+   */
+  private addStylesheet(state: ParseState, tokenIndex: number, range: SourceRange): void {
+    const content = state.tokens[tokenIndex + 1];
+    if (content?.type !== 'text' || !content.text) return;
+    
+    const { sanitizer } = state;
+    const diagnostics = state.stylesheet.addRules(
+      content.text,
+      property => sanitizer?.isCssPropertyAllowed(property) ?? true
+    );
+    state.diagnostics.push(...DiagnosticHelpers.withTagContext(diagnostics, 'style', range));
+    
+    // `:root` rules style the text outside of any element
+    const { css } = state.stylesheet.computeStyle([], null);
+    const baseStyle = state.styleStack[0];
+    if (css && baseStyle) {
+      state.styleStack[0] = this.applyCascade(baseStyle, css);
+      if (state.styleStack.length === 1) {
+        state.currentStyle = { ...state.styleStack[0] };
+      }
+    }
+  }
+
+  /**
+   * Record the id and classes of the element being opened and find the style sheet
+   * declarations that win the cascade for it
+   * 
+   * @returns Winning declarations as a style attribute value, empty if no rule matches
+   */
+  private computeCascade(state: ParseState, attributeMap: ReadonlyMap<string, string>): string {
+    const element = state.elementStack[state.elementStack.length - 1];
+    if (!element) return '';
+    
+    element.id = attributeMap.get('id') ?? null;
+    element.classes = (attributeMap.get('class') ?? '').split(/\s+/).filter(Boolean);
+    if (!state.stylesheet.hasRules()) return '';
+    
+    const { css, customProperties } = state.stylesheet.computeStyle(state.elementStack, attributeMap.get('style') ?? null);
+    element.customProperties = customProperties;
+    return css;
+  }
+
+  /**
+   * Apply the theme's style for a tag; the element's own style attribute still wins for the
+   * properties the theme sets
+   */
+  private applyTheme(state: ParseState, tagName: string, style: TextStyle, attributeMap: ReadonlyMap<string, string>): TextStyle {
+    const themeStyle = ThemeHelpers.getTagStyle(state.theme, tagName, state.options.fontSize, state.options.monospaceFontFamily);
+    if (!themeStyle) return style;
+    
+    const themed = { ...style, ...themeStyle };
+    const inline = attributeMap.get('style');
+    if (inline) {
+      const inlineStyled = this.applyCascade(themed, inline);
+      for (const key of Object.keys(themeStyle) as Array<keyof TextStyle>) {
+        Object.assign(themed, { [key]: inlineStyled[key] });
+      }
+    }
+    return themed;
+  }
+
+  /**
+   * Apply cascaded declarations over a style
+   */
+  private applyCascade(style: TextStyle, css: string): TextStyle {
+    const cascaded = { ...style };
+    StyleHelpers.parseAllCssProperties(css, cascaded);
+    return cascaded;
+  }
+
+  /**
+   * Apply the unknown-tag policy to a tag without a strategy
+   */
+  private handleUnknownTag(
+    state: ParseState,
+    token: HTMLToken,
+    attributes: string,
+    attributeMap: ReadonlyMap<string, string>,
+    isClosingTag: boolean,
+    cascaded: string
+  ): void {
+    // Tags inserted by the balancer were already handled when read from the source
+    if (token.implied) return;
+    
+    const tagName = token.tagName ?? '';
+    const range = { start: token.start, end: token.end };
+    
+    switch (this.resolveUnknownTagAction(tagName, state.options.unknownTags)) {
+      case 'error':
+        throw new UnsupportedTagError(tagName, range);
+      case 'remove':
+        if (!isClosingTag) {
+          this.removeElement(state, tagName);
+          state.diagnostics.push(DiagnosticHelpers.create(
+            'unsupported-tag', 'info', `Removed <${tagName}> element and its content`, tagName, range
+          ));
+        }
+        break;
+      case 'literal': {
+        const markup = isClosingTag
+          ? `</${tagName}>`
+          : `<${tagName}${attributes}${token.type === 'self-closing-tag' ? '/' : ''}>`;
+        this.appendSegments(state, [{ text: markup, ...state.currentStyle, sourceStart: token.start, sourceEnd: token.end }]);
+        break;
+      }
+      default: {
+        const message = isClosingTag ? `Unsupported closing tag: ${tagName}` : `Unsupported tag: ${tagName}`;
+        state.errors.push(message);
+        state.diagnostics.push(DiagnosticHelpers.create('unsupported-tag', 'warning', message, tagName, range));
+        
+        // The theme and style sheet rules still apply to the content, like to a generic container
+        const element = state.elementStack[state.elementStack.length - 1];
+        const opensElement = !isClosingTag && !TagBalancer.VOID_TAGS.has(tagName);
+        const themed = opensElement ? this.applyTheme(state, tagName, state.currentStyle, attributeMap) : state.currentStyle;
+        if ((cascaded || themed !== state.currentStyle) && element) {
+          const cascadedStyle = cascaded ? this.applyCascade(themed, cascaded) : themed;
+          state.currentStyle = StyleHelpers.markBoxStart(cascadedStyle, state.currentStyle, token.start);
+          state.styleStack.push(state.currentStyle);
+          element.ownsStyle = true;
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Add raw segments to the parse and to the innermost open element of the document tree
+   */
+  private appendSegments(state: ParseState, segments: TextSegment[]): void {
+    const maxSegments = state.options.limits?.maxSegments;
+    let kept = segments;
+    if (maxSegments !== undefined && state.segments.length + segments.length > maxSegments) {
+      LimitHelpers.exceed(state.options, 'segments', maxSegments, state.diagnostics);
+      kept = segments.slice(0, Math.max(0, maxSegments - state.segments.length));
+      state.limitReached = 'segments';
+    }
+    
+    state.segments.push(...kept);
+    state.document.appendSegments(kept);
+  }
+
+  /**
+   * Strip a tag the sanitizer does not allow. Its content is kept unless the unknown-tag
+   * policy removes the element (as it does for script and template by default); the content
+   * of a style element is never text and is always removed.
+   */
+  private handleDisallowedTag(state: ParseState, token: HTMLToken, isClosingTag: boolean): void {
+    // End tags and tags inserted by the balancer belong to a start tag that was already reported
+    if (token.implied || isClosingTag) return;
+    
+    const tagName = token.tagName ?? '';
+    const range = { start: token.start, end: token.end };
+    
+    if (tagName === 'style' || this.resolveUnknownTagAction(tagName, state.options.unknownTags) === 'remove') {
+      this.removeElement(state, tagName);
+      state.diagnostics.push(DiagnosticHelpers.create(
+        'disallowed-tag', 'warning', `Removed disallowed <${tagName}> element and its content`, tagName, range
+      ));
+    } else {
+      state.diagnostics.push(DiagnosticHelpers.create(
+        'disallowed-tag', 'warning', `Stripped disallowed tag: <${tagName}>`, tagName, range
+      ));
+    }
+  }
+
+  /**
+   * Skip the content of an element up to its end tag
+   */
+  private removeElement(state: ParseState, tagName: string): void {
+    // Void elements have no content and no end tag to wait for
+    if (!TagBalancer.VOID_TAGS.has(tagName)) {
+      state.removedElement = { tagName, depth: 1 };
+      state.elementStack.pop();
+    }
+  }
+
+  /**
+   * Find the unknown-tag action for a tag: a single action applies to every tag; per-tag rules
+   * take precedence over the defaults for script/template, then the rules' default applies
+   */
+  private resolveUnknownTagAction(tagName: string, policy: UnknownTagPolicy | undefined): UnknownTagAction {
+    if (typeof policy === 'string') {
+      return policy;
+    }
+    return policy?.tags?.[tagName] ?? DEFAULT_UNKNOWN_TAG_ACTIONS[tagName] ?? policy?.default ?? 'render-children';
+  }
+
   /**
    * Register a custom tag strategy
    */
@@ -198,10 +671,10 @@ export class HTMLParser {
   }
 
   /**
-   * Get default text style
+   * Get default text style in the text color of a theme
    */
-  private getDefaultStyle(): TextStyle {
-    return StyleHelpers.getDefaultStyle();
+  private getDefaultStyle(theme: ResolvedTheme): TextStyle {
+    return { ...StyleHelpers.getDefaultStyle(), color: theme.textColor };
   }
 
   /**
@@ -216,51 +689,21 @@ export class HTMLParser {
       return { isValid: false, errors };
     }
     
-    // Check for unclosed tags
-    const openTags: string[] = [];
-    const tagPattern = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)[^>]*>/g;
-    let match;
-    
-    while ((match = tagPattern.exec(html)) !== null) {
-      const isClosing = match[1] === '/';
-      const tagName = match[2]?.toLowerCase();
-      
-      if (!tagName) continue;
-      
-      if (isClosing) {
-        if (openTags.length === 0 || openTags[openTags.length - 1] !== tagName) {
-          errors.push(`Mismatched closing tag: </${tagName}>`);
-        } else {
-          openTags.pop();
-        }
-      } else {
-        // Self-closing tags don't need to be tracked
-        if (!this.isSelfClosingTag(tagName)) {
-          openTags.push(tagName);
-        }
-        
-        // Check if tag is supported
-        if (!this.strategyRegistry.isSupported(tagName)) {
-          errors.push(`Unsupported tag: ${tagName}`);
-        }
+    // Check if tags are supported
+    const tokens = this.tokenizer.tokenize(html);
+    for (const token of tokens) {
+      if ((token.type === 'start-tag' || token.type === 'self-closing-tag') && token.tagName &&
+          !this.strategyRegistry.isSupported(token.tagName)) {
+        errors.push(`Unsupported tag: ${token.tagName}`);
       }
     }
     
-    if (openTags.length > 0) {
-      errors.push(`Unclosed tags: ${openTags.join(', ')}`);
-    }
+    // Check structure - optional end tags (`<p>one<p>two`, `<li>a<li>b`) are valid HTML
+    errors.push(...this.balancer.balance(tokens).warnings);
     
     return { isValid: errors.length === 0, errors };
   }
 
-  /**
-   * Check if a tag is self-closing
-   */
-  private isSelfClosingTag(tagName: string): boolean {
-    const selfClosingTags = new Set(['br', 'hr', 'img', 'input', 'meta', 'link']);
-    return selfClosingTags.has(tagName.toLowerCase());
-  }
-
   /**
    * Parse HTML with detailed information for debugging
    */
@@ -268,6 +711,7 @@ export class HTMLParser {
     segments: TextSegment[];
     errors: string[];
     warnings: string[];
+    diagnostics: Diagnostic[];
     supportedTags: string[];
     usedTags: string[];
   } {
@@ -277,7 +721,8 @@ export class HTMLParser {
     return {
       segments: result.segments,
       errors: result.errors || [],
-      warnings: [], // Could add warnings for deprecated tags, etc.
+      warnings: result.warnings || [],
+      diagnostics: result.diagnostics || [],
       supportedTags: this.getSupportedTags(),
       usedTags
     };
@@ -287,14 +732,11 @@ export class HTMLParser {
    * Extract all tags used in HTML
    */
   private extractUsedTags(html: string): string[] {
-    const tagPattern = /<\/?([a-zA-Z][a-zA-Z0-9]*)[^>]*>/g;
     const tags = new Set<string>();
-    let match;
     
-    while ((match = tagPattern.exec(html)) !== null) {
-      const tagName = match[1]?.toLowerCase();
-      if (tagName) {
-        tags.add(tagName);
+    for (const token of this.tokenizer.tokenize(html)) {
+      if (token.tagName) {
+        tags.add(token.tagName);
       }
     }
     
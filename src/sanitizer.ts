@@ -0,0 +1,126 @@
+import { Diagnostic, SanitizerConfig, SanitizerPolicy } from './types';
+import { SANITIZER_PROFILES } from './constants';
+import { AttributeHelpers } from './helpers/attributes';
+import { StyleHelpers } from './helpers/style';
+import { DiagnosticHelpers } from './helpers/diagnostics';
+
+/**
+ * Allow-list sanitizer applied to tags before strategy dispatch
+ *
+ * Tags outside the list are stripped (the parser keeps or removes their content), attributes
+ * and CSS properties outside the list are dropped, and `href` values whose scheme is not allowed
+ * are dropped so they never reach the generated `href` encoding. Everything removed is reported
+ * as a diagnostic.
+ */
+export class HTMLSanitizer {
+  private tags: Set<string>;
+  private attributes: Map<string, Set<string>>;
+  private cssProperties: Set<string>;
+  private urlSchemes: Set<string>;
+
+  /**
+   * @param policy - Built-in profile name or custom allow-list
+   */
+  constructor(policy: SanitizerPolicy) {
+    const config: SanitizerConfig = typeof policy === 'string' ? SANITIZER_PROFILES[policy] : policy;
+    if (!config) {
+      throw new Error(`Unknown sanitizer profile: ${String(policy)}`);
+    }
+
+    this.tags = new Set(config.tags.map(tag => tag.toLowerCase()));
+    this.attributes = new Map(Object.entries(config.attributes ?? {}).map(
+      ([tagName, names]) => [tagName.toLowerCase(), new Set(names.map(name => name.toLowerCase()))]
+    ));
+    this.cssProperties = new Set((config.cssProperties ?? []).map(property => property.toLowerCase()));
+    this.urlSchemes = new Set((config.urlSchemes ?? []).map(scheme => scheme.toLowerCase()));
+  }
+
+  /**
+   * Check if a tag is on the allow-list
+   */
+  public isTagAllowed(tagName: string): boolean {
+    return this.tags.has(tagName.toLowerCase());
+  }
+
+  /**
+   * Check if a CSS property is on the allow-list
+   */
+  public isCssPropertyAllowed(property: string): boolean {
+    return this.cssProperties.has(property.toLowerCase());
+  }
+
+  /**
+   * Drop attributes, CSS properties and URLs that are not allowed
+   *
+   * @param tagName - Tag the attributes belong to
+   * @param attributes - Raw attribute source
+   * @returns Canonical attribute source with only allowed content, and what was removed
+   */
+  public sanitizeAttributes(tagName: string, attributes: string): { attributes: string; diagnostics: Diagnostic[] } {
+    const diagnostics: Diagnostic[] = [];
+    const allowed: Array<[string, string]> = [];
+
+    for (const [name, value] of AttributeHelpers.parseAttributes(attributes)) {
+      if (!this.isAttributeAllowed(tagName, name)) {
+        diagnostics.push(DiagnosticHelpers.create(
+          'disallowed-attribute', 'warning', `Attribute not allowed on <${tagName}>: ${name}`
+        ));
+        continue;
+      }
+
+      if (name === 'href' && !this.isUrlAllowed(value)) {
+        diagnostics.push(DiagnosticHelpers.create('unsafe-url', 'warning', `URL scheme not allowed in href: ${value}`));
+        continue;
+      }
+
+      if (name === 'style') {
+        const style = this.sanitizeStyle(value, diagnostics);
+        if (style) {
+          allowed.push([name, style]);
+        }
+        continue;
+      }
+
+      allowed.push([name, value]);
+    }
+
+    return { attributes: AttributeHelpers.serializeAttributes(allowed), diagnostics };
+  }
+
+  /**
+   * Check if a URL is relative or uses an allowed scheme
+   *
+   * @param url - Decoded URL
+   * @returns true if the URL may be kept
+   */
+  public isUrlAllowed(url: string): boolean {
+    const scheme = AttributeHelpers.getUrlScheme(url);
+    return scheme === undefined || this.urlSchemes.has(scheme);
+  }
+
+  /**
+   * Check if an attribute is allowed on a tag, either for that tag or for every tag
+   */
+  private isAttributeAllowed(tagName: string, name: string): boolean {
+    return !!this.attributes.get(tagName)?.has(name) || !!this.attributes.get('*')?.has(name);
+  }
+
+  /**
+   * Keep only the allowed declarations of a style attribute
+   *
+   * @returns Remaining declarations, or an empty string if none are left
+   */
+  private sanitizeStyle(style: string, diagnostics: Diagnostic[]): string {
+    const kept: string[] = [];
+    for (const { property, value } of StyleHelpers.parseDeclarations(style)) {
+      if (this.cssProperties.has(property)) {
+        kept.push(`${property}: ${value}`);
+      } else {
+        diagnostics.push(DiagnosticHelpers.create(
+          'disallowed-css-property', 'warning', `CSS property not allowed: ${property}`
+        ));
+      }
+    }
+    return kept.join('; ');
+  }
+}
@@ -1,80 +1,73 @@
 import { TextSegment } from './types';
 import { TextHelpers } from './helpers/text';
+import { EntityHelpers } from './helpers/entities';
+import { HTMLTokenizer } from './tokenizer';
+import { DEFAULT_COLORS } from './constants';
 
 /**
  * Intelligent HTML spacing analyzer that preserves original spacing context
  * Implements the rule: space>=1 becomes 1 space, space=0 stays 0
  */
 export class SpacingAnalyzer {
+  private static readonly tokenizer = new HTMLTokenizer();
   
   /**
    * Analyze HTML and assign spacing metadata to segments
    * This replaces the old haphazard spacing logic with intelligent detection
    */
-  public static analyzeAndAssignSpacing(segments: TextSegment[], originalHtml: string): TextSegment[] {
+  public static analyzeAndAssignSpacing(segments: TextSegment[], originalHtml: string, textColor: string = DEFAULT_COLORS.BLACK): TextSegment[] {
     // First, normalize whitespace in segments (trim leading/trailing spaces)
     const normalizedSegments = TextHelpers.normalizeSegmentWhitespace(segments);
     if (normalizedSegments.length <= 1) {
       return normalizedSegments; // No spacing needed for single or no segments
     }
 
-    // Clean HTML for analysis (remove excessive whitespace but preserve structure)
-    const cleanedHtml = TextHelpers.cleanHtmlWhitespace(originalHtml);
-    
-    // Create a mapping of segments to their positions in the HTML structure
-    const segmentPositions = this.mapSegmentsToHtmlPositions(normalizedSegments, cleanedHtml);
-    
     // Analyze spacing between each pair of adjacent segments  
-    const spacedSegments = normalizedSegments.map((segment, index) => {
-      // Preserve list-prefix spacing context and hasSpaceAfter from parser
-      if (segment.spacingContext === 'list-prefix') {
-        return {
-          ...segment,
-          hasSpaceAfter: true, // Always maintain space after list prefixes
-          spacingContext: 'list-prefix' as const // Preserve the special context with proper typing
-        };
-      }
-      
-      if (index >= normalizedSegments.length - 1) {
-        // Last segment never needs space after it
-        return {
-          ...segment,
-          hasSpaceAfter: false,
-          spacingContext: this.getSpacingContext(segment, null, index, normalizedSegments)
-        };
-      }
-
-      const currentSegment = segment;
-      const nextSegment = normalizedSegments[index + 1];
-      
-      if (!nextSegment) {
-        return {
-          ...segment,
-          hasSpaceAfter: false,
-          spacingContext: this.getSpacingContext(segment, null, index, normalizedSegments)
-        };
-      }
-      
-      // Determine if there should be space between current and next segment
-      const hasSpaceAfter = this.shouldHaveSpaceBetween(
-        currentSegment, 
-        nextSegment, 
-        index, 
-        normalizedSegments, 
-        cleanedHtml,
-        segmentPositions
-      );
-
-      const spacingContext = this.getSpacingContext(currentSegment, nextSegment, index, normalizedSegments);
+    return normalizedSegments.map((segment, index) =>
+      this.assignSpacing(segment, normalizedSegments[index + 1] ?? null, originalHtml, textColor)
+    );
+  }
 
+  /**
+   * Assign spacing metadata to one normalized segment given the segment that follows it.
+   * Used directly when segments arrive incrementally (see StreamingHTMLParser).
+   * 
+   * @param segment - Segment to assign spacing to
+   * @param next - Following segment, or null if this is the last one
+   * @param originalHtml - HTML source the segment offsets refer to
+   * @param textColor - Default text color of the parse; text in another color comes from a tag
+   * @returns Segment with hasSpaceAfter and spacingContext set
+   */
+  public static assignSpacing(
+    segment: TextSegment,
+    next: TextSegment | null,
+    originalHtml: string,
+    textColor: string = DEFAULT_COLORS.BLACK
+  ): TextSegment {
+    // Preserve list-prefix spacing context and hasSpaceAfter from parser
+    if (segment.spacingContext === 'list-prefix') {
       return {
-        ...currentSegment,
-        hasSpaceAfter,
-        spacingContext
+        ...segment,
+        hasSpaceAfter: true, // Always maintain space after list prefixes
+        spacingContext: 'list-prefix' as const // Preserve the special context with proper typing
       };
-    });
-
-    return spacedSegments;
+    }
+    
+    if (!next) {
+      // Last segment never needs space after it
+      return {
+        ...segment,
+        hasSpaceAfter: false,
+        spacingContext: this.getSpacingContext(segment, null, textColor)
+      };
+    }
+    
+    // Determine if there should be space between current and next segment
+    return {
+      ...segment,
+      hasSpaceAfter: this.shouldHaveSpaceBetween(segment, next, originalHtml),
+      spacingContext: this.getSpacingContext(segment, next, textColor)
+    };
   }
 
   /**
@@ -84,10 +77,7 @@ export class SpacingAnalyzer {
   private static shouldHaveSpaceBetween(
     current: TextSegment,
     next: TextSegment,
-    currentIndex: number,
-    segments: TextSegment[],
-    originalHtml: string,
-    positions: Map<number, {start: number, end: number}>
+    originalHtml: string
   ): boolean {
     
     // Skip newline segments
@@ -95,98 +85,33 @@ export class SpacingAnalyzer {
       return false;
     }
 
-    // Get positions of current and next segments in original HTML
-    const currentPos = positions.get(currentIndex);
-    const nextPos = positions.get(currentIndex + 1);
-    
-    if (!currentPos || !nextPos) {
-      // Fallback: analyze text patterns
-      return this.analyzeTextPatternSpacing(current, next, originalHtml);
+    // Generated segments (list prefixes etc.) have no source position to inspect
+    if (current.sourceEnd === undefined || next.sourceStart === undefined || next.sourceStart < current.sourceEnd) {
+      return false;
     }
 
-    // Extract the HTML between the end of current segment and start of next segment
-    const betweenHtml = originalHtml.substring(currentPos.end, nextPos.start);
-    
-    // Check if there's whitespace between segments
-    const hasWhitespace = /\s/.test(betweenHtml);
+    // Extract the HTML between the end of current segment and start of next segment.
+    // Only whitespace in text counts: spaces inside tags, attributes and comments do not.
+    const betweenHtml = originalHtml.substring(current.sourceEnd, next.sourceStart);
+    const hasWhitespace = this.tokenizer.tokenize(betweenHtml).some(token =>
+      token.type === 'text' && /[ \t\n\f\r]/.test(EntityHelpers.decodeText(token.text ?? ''))
+    );
     
     // Rule: If there's any whitespace (space>=1), normalize to 1 space
     // If no whitespace (space=0), keep no space
     return hasWhitespace;
   }
 
-  /**
-   * Fallback method to analyze spacing based on text patterns when position mapping fails
-   */
-  private static analyzeTextPatternSpacing(current: TextSegment, next: TextSegment, originalHtml: string): boolean {
-    const currentText = current.text.trim();
-    const nextText = next.text.trim();
-    
-    if (!currentText || !nextText) return false;
-
-    // Create regex patterns to find the segments in HTML
-    const currentPattern = TextHelpers.escapeRegexSpecialChars(currentText);
-    const nextPattern = TextHelpers.escapeRegexSpecialChars(nextText);
-    
-    // Look for pattern: currentText...whitespace...nextText
-    const combinedPattern = new RegExp(
-      currentPattern + '([^\\w\\s]*)(\\s+)([^\\w\\s]*)' + nextPattern,
-      'i'
-    );
-    
-    const match = originalHtml.match(combinedPattern);
-    return (match?.[2]?.length ?? 0) > 0;
-  }
-
-  /**
-   * Map segments to their approximate positions in the original HTML
-   * This is a heuristic approach since the parser doesn't preserve exact positions
-   */
-  private static mapSegmentsToHtmlPositions(segments: TextSegment[], html: string): Map<number, {start: number, end: number}> {
-    const positions = new Map<number, {start: number, end: number}>();
-    let searchStartIndex = 0;
-
-    segments.forEach((segment, index) => {
-      if (segment.text === '\n') {
-        // Skip newlines for position mapping
-        positions.set(index, {start: searchStartIndex, end: searchStartIndex});
-        return;
-      }
-
-      const segmentText = segment.text.trim();
-      if (!segmentText) {
-        positions.set(index, {start: searchStartIndex, end: searchStartIndex});
-        return;
-      }
-
-      // Find the segment text in HTML starting from searchStartIndex
-      const textIndex = html.indexOf(segmentText, searchStartIndex);
-      if (textIndex !== -1) {
-        positions.set(index, {
-          start: textIndex,
-          end: textIndex + segmentText.length
-        });
-        searchStartIndex = textIndex + segmentText.length;
-      } else {
-        // Fallback if exact text not found
-        positions.set(index, {start: searchStartIndex, end: searchStartIndex});
-      }
-    });
-
-    return positions;
-  }
-
   /**
    * Determine the spacing context between segments
    */
   private static getSpacingContext(
     current: TextSegment, 
-    next: TextSegment | null, 
-    index: number, 
-    segments: TextSegment[]
+    next: TextSegment | null,
+    textColor: string
   ): 'tag-to-tag' | 'text-to-tag' | 'tag-to-text' | 'text-to-text' {
-    const currentIsFromTag = this.isFromTag(current, index, segments);
-    const nextIsFromTag = next ? this.isFromTag(next, index + 1, segments) : false;
+    const currentIsFromTag = this.isFromTag(current, textColor);
+    const nextIsFromTag = next ? this.isFromTag(next, textColor) : false;
 
     if (currentIsFromTag && nextIsFromTag) return 'tag-to-tag';
     if (currentIsFromTag && !nextIsFromTag) return 'tag-to-text';
@@ -198,13 +123,13 @@ export class SpacingAnalyzer {
   /**
    * Determine if a segment likely comes from a tag (has non-default styling)
    */
-  private static isFromTag(segment: TextSegment, index: number, segments: TextSegment[]): boolean {
+  private static isFromTag(segment: TextSegment, textColor: string): boolean {
     // A segment is likely from a tag if it has non-default styling
     return !!(segment.fontWeight === 'bold' ||
            segment.fontStyle === 'italic' ||
-           (segment.color && segment.color !== '#000000') ||
-           segment.textDecoration === 'underline' ||
-           segment.textDecoration === 'line-through' ||
+           (segment.color && segment.color !== textColor) ||
+           (segment.textDecoration && segment.textDecoration !== 'none') ||
+           segment.backgroundColor ||
            (segment.fontSize && segment.fontSize !== 14));
   }
 
@@ -1,22 +1,85 @@
-import { TextStyle } from '../../types';
+import { TextStyle, ParseContext, ParsedOutput } from '../../types';
 import { BaseTagStrategy } from '../interfaces/base-tag-strategy';
+import { StyleHelpers } from '../../helpers/style';
+import { BASE_FONT_SIZE, CODE_BACKGROUND_OPACITY, MONOSPACE_FONT_FAMILY, MONOSPACE_TAGS, TAG_COLORS } from '../../constants';
 
 /**
  * Strategy for code tags: <code>, <pre>, <kbd>, <samp>
- * 
- * This strategy applies code-specific styling (color) to text.
- * Uses the default parse() implementation from BaseTagStrategy.
- * 
+ *
+ * This strategy applies code-specific styling (color and a monospace font) to text.
+ * Like GitHub, it draws keys in a bordered box and inline code in a translucent one;
+ * code inside a pre block (or other code) is not boxed again.
+ * <pre> is a block that keeps its spaces and line breaks (white-space: pre);
+ * the inline tags use the default parse() implementation from BaseTagStrategy.
+ *
  */
 export class CodeTagStrategy extends BaseTagStrategy {
   public applyStyle(currentStyle: TextStyle, attributes: string, tagName?: string): TextStyle {
-    return {
+    const style: TextStyle = {
       ...currentStyle,
-      color: '#d63384' // Bootstrap's code color
+      color: TAG_COLORS.CODE, // Bootstrap's code color
+      fontFamily: MONOSPACE_FONT_FAMILY
     };
+
+    if (tagName === 'pre') {
+      return { ...style, whiteSpace: 'pre' };
+    }
+    if (tagName === 'kbd') {
+      delete style.backgroundOpacity;
+      return {
+        ...style,
+        ...this.getBoxShape(currentStyle),
+        backgroundColor: TAG_COLORS.KEY_BACKGROUND,
+        borderColor: TAG_COLORS.KEY_BORDER,
+        borderWidth: 1
+      };
+    }
+    if (tagName === 'code' && !StyleHelpers.isMonospaceFontFamily(currentStyle.fontFamily)) {
+      return {
+        ...style,
+        ...this.getBoxShape(currentStyle),
+        backgroundColor: TAG_COLORS.CODE_BACKGROUND,
+        backgroundOpacity: CODE_BACKGROUND_OPACITY
+      };
+    }
+    return style;
+  }
+
+  public parse(context: ParseContext): ParsedOutput {
+    if (context.tagName !== 'pre') {
+      return super.parse(context);
+    }
+    if (!context.isClosingTag) {
+      return this.handleBlockLevelOpeningTag(context);
+    }
+
+    const closing = this.handleBlockLevelClosingTag(context);
+    // Text ending in a line break already ends the last line of the block
+    const lastSegment = context.segments[context.segments.length - 1];
+    return lastSegment?.text.endsWith('\n') ? { ...closing, newSegments: [] } : closing;
   }
 
   public getTagNames(): string[] {
-    return ['code', 'pre', 'kbd', 'samp'];
+    return [...MONOSPACE_TAGS];
+  }
+
+  /**
+   * Pre blocks start on a new line and end their line; the inline tags do not
+   */
+  public isLineBreak(tagName?: string): boolean {
+    return tagName === 'pre';
+  }
+
+  /**
+   * Padding of 0.2em by 0.4em and 6px rounded corners
+   */
+  private getBoxShape(currentStyle: TextStyle): Pick<TextStyle, 'backgroundPadding' | 'backgroundRadius'> {
+    const fontSize = currentStyle.fontSize ?? BASE_FONT_SIZE;
+    const vertical = Math.round(fontSize * 0.2 * 100) / 100;
+    const horizontal = Math.round(fontSize * 0.4 * 100) / 100;
+    return {
+      backgroundPadding: { top: vertical, right: horizontal, bottom: vertical, left: horizontal },
+      backgroundRadius: 6
+    };
   }
 }
@@ -5,7 +5,7 @@ import { colorMap } from '../../constants';
 /**
  * Custom strategy for color tags like <red>, <green>, <blue>
  * 
- * This strategy applies colors based on the tag name using a predefined color map.
+ * This strategy applies colors based on the tag name, for every CSS named color.
  * Uses the default parse() implementation from BaseTagStrategy.
  */
 export class ColorTagStrategy extends BaseTagStrategy {
@@ -1,10 +1,12 @@
 import { TextStyle } from '../../types';
 import { BaseTagStrategy } from '../interfaces/base-tag-strategy';
+import { TAG_COLORS } from '../../constants';
 
 /**
  * Strategy for highlight tags: <mark>
  * 
- * This strategy applies highlight styling to text.
+ * This strategy applies highlight styling to text: a dark text color on a pale yellow
+ * background, which the generator draws as a rect behind each line of the text.
  * Uses the default parse() implementation from BaseTagStrategy.
  * 
  */
@@ -12,7 +14,8 @@ export class HighlightTagStrategy extends BaseTagStrategy {
   public applyStyle(currentStyle: TextStyle, attributes: string, tagName?: string): TextStyle {
     return {
       ...currentStyle,
-      color: '#212529' // Highlight text color
+      color: TAG_COLORS.HIGHLIGHT, // Highlight text color
+      backgroundColor: TAG_COLORS.HIGHLIGHT_BACKGROUND
     };
   }
 
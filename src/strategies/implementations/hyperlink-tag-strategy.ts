@@ -1,5 +1,9 @@
-import { TextStyle } from '../../types';
+import { TextStyle, ValidationResult, Diagnostic } from '../../types';
 import { BaseTagStrategy } from '../interfaces/base-tag-strategy';
+import { TAG_COLORS, UNSAFE_URL_SCHEMES } from '../../constants';
+import { AttributeHelpers } from '../../helpers/attributes';
+import { DiagnosticHelpers } from '../../helpers/diagnostics';
+import { StyleHelpers } from '../../helpers/style';
 
 /**
  * Strategy for hyperlink tags: <a href="...">
@@ -8,14 +12,11 @@ import { BaseTagStrategy } from '../interfaces/base-tag-strategy';
  */
 export class HyperlinkTagStrategy extends BaseTagStrategy {
   public applyStyle(currentStyle: TextStyle, attributes: string, tagName?: string): TextStyle {
-    // Extract href attribute if present
-    const hrefMatch = attributes.match(/href=['"](.*?)['"]/);
-    
     return {
       ...currentStyle,
-      color: '#0066CC', // Traditional link blue
-      textDecoration: 'underline',
-      href: hrefMatch ? hrefMatch[1] : undefined,
+      color: TAG_COLORS.LINK, // Traditional link blue
+      textDecoration: StyleHelpers.addDecorationLine(currentStyle.textDecoration, 'underline'),
+      href: this.extractHref(attributes),
     };
   }
 
@@ -23,26 +24,32 @@ export class HyperlinkTagStrategy extends BaseTagStrategy {
     return ['a'];
   }
 
-  public validateAttributes(attributes: string): { isValid: boolean; errors: string[] } {
-    const errors: string[] = [];
+  public validateAttributes(attributes: string): ValidationResult {
+    const diagnostics: Diagnostic[] = [];
     
     // Check for href attribute (optional but recommended)
-    const hrefMatch = attributes.match(/href=['"](.*?)['"]/);
-    if (!hrefMatch) {
+    const href = this.extractHref(attributes);
+    if (href === undefined) {
       // This is a warning rather than an error since href is technically optional
       // errors.push('Hyperlink missing href attribute');
     } else {
-      const href = hrefMatch[1];
       if (!href || href.trim() === '') {
-        errors.push('Hyperlink has empty href attribute');
+        diagnostics.push(DiagnosticHelpers.create('invalid-attribute', 'warning', 'Hyperlink has empty href attribute'));
       }
-      // Basic URL validation
-      if (href && !this.isValidUrl(href)) {
-        errors.push('Invalid URL in href attribute');
+      // Script URLs are unsafe; other URLs only need to be well-formed
+      const scheme = AttributeHelpers.getUrlScheme(href);
+      if (scheme !== undefined && UNSAFE_URL_SCHEMES.has(scheme)) {
+        diagnostics.push(DiagnosticHelpers.create('unsafe-url', 'warning', `Unsafe URL scheme in href attribute: ${scheme}`));
+      } else if (href && !this.isValidUrl(href)) {
+        diagnostics.push(DiagnosticHelpers.create('invalid-url', 'warning', 'Invalid URL in href attribute'));
       }
     }
     
-    return { isValid: errors.length === 0, errors };
+    return {
+      isValid: diagnostics.length === 0,
+      errors: diagnostics.map(diagnostic => diagnostic.message),
+      diagnostics
+    };
   }
 
   /**
@@ -74,10 +81,9 @@ export class HyperlinkTagStrategy extends BaseTagStrategy {
   }
 
   /**
-   * Extract href attribute from attributes string
+   * Extract href attribute from attributes string, with character references decoded
    */
   public extractHref(attributes: string): string | undefined {
-    const hrefMatch = attributes.match(/href=['"](.*?)['"]/);
-    return hrefMatch ? hrefMatch[1] : undefined;
+    return AttributeHelpers.parseAttributes(attributes).get('href');
   }
 }
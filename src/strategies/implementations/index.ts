@@ -19,3 +19,5 @@ export { HighlightTagStrategy } from './highlight-tag-strategy';
 export { StrikethroughTagStrategy } from './strikethrough-tag-strategy';
 export { ColorTagStrategy } from './color-tag-strategy';
 export { ListTagStrategy } from './list-tag-strategy';
+export { TableTagStrategy } from './table-tag-strategy';
+export { BlockquoteTagStrategy } from './blockquote-tag-strategy';
@@ -1,4 +1,4 @@
-import { TextStyle, ParseContext, ParsedOutput } from '../../types';
+import { TextStyle, ParseContext, ParsedOutput, ValidationResult } from '../../types';
 import { BaseTagStrategy } from '../interfaces/base-tag-strategy';
 import { TagStrategy } from '../interfaces/tag-strategy.interface';
 import { CompositeParseStrategy } from '../interfaces/composite-parse-strategy';
@@ -40,24 +40,8 @@ class UnorderedListStrategy extends BaseTagStrategy {
     return true;
   }
 
-  public validateAttributes(attributes: string): { isValid: boolean; errors: string[] } {
-    return this.validateCommonListAttributes(attributes);
-  }
-
-  private validateCommonListAttributes(attributes: string): { isValid: boolean; errors: string[] } {
-    const errors: string[] = [];
-    
-    if (attributes.trim()) {
-      const validAttributePattern = /^(\s*(class|id|style|type|start)\s*=\s*["'][^"']*["']\s*)*$/i;
-      if (!validAttributePattern.test(attributes.trim())) {
-        errors.push('Invalid or unsupported attributes for list tag');
-      }
-    }
-    
-    return {
-      isValid: errors.length === 0,
-      errors
-    };
+  public validateAttributes(attributes: string): ValidationResult {
+    return ListHelpers.validateListAttributes(attributes);
   }
 }
 
@@ -78,6 +62,8 @@ class OrderedListStrategy extends BaseTagStrategy {
       return this.handleBlockLevelClosingTag(context);
     }
 
+    // The parent CompositeParseStrategy has pushed the list with its counter
+    ListHelpers.applyListStart(context.attributeMap, context.compositeState);
     return this.handleBlockLevelOpeningTag(context);
   }
 
@@ -89,24 +75,8 @@ class OrderedListStrategy extends BaseTagStrategy {
     return true;
   }
 
-  public validateAttributes(attributes: string): { isValid: boolean; errors: string[] } {
-    return this.validateCommonListAttributes(attributes);
-  }
-
-  private validateCommonListAttributes(attributes: string): { isValid: boolean; errors: string[] } {
-    const errors: string[] = [];
-    
-    if (attributes.trim()) {
-      const validAttributePattern = /^(\s*(class|id|style|type|start)\s*=\s*["'][^"']*["']\s*)*$/i;
-      if (!validAttributePattern.test(attributes.trim())) {
-        errors.push('Invalid or unsupported attributes for list tag');
-      }
-    }
-    
-    return {
-      isValid: errors.length === 0,
-      errors
-    };
+  public validateAttributes(attributes: string): ValidationResult {
+    return ListHelpers.validateListAttributes(attributes);
   }
 }
 
@@ -116,13 +86,12 @@ class OrderedListStrategy extends BaseTagStrategy {
  */
 class ListItemStrategy extends BaseTagStrategy {
   public applyStyle(currentStyle: TextStyle, attributes: string, tagName?: string): TextStyle {
-    // Apply list styling using helper
+    // Apply list styling using helper (direct calls; parse() uses the list state of its parse)
     return ListHelpers.applyListStyling({ ...currentStyle }, LIST_TAGS.LIST_ITEM);
   }
 
   public parse(context: ParseContext): ParsedOutput {
     const { isClosingTag, attributes, currentStyle, segments } = context;
-    const errors: string[] = [];
     const newSegments: typeof context.segments = [];
     
     if (isClosingTag) {
@@ -132,17 +101,12 @@ class ListItemStrategy extends BaseTagStrategy {
         updatedStyle: currentStyle,
         pushStyleToStack: false,
         popFromStyleStack: true,
-        errors
+        errors: []
       };
     }
     
     // Validate attributes
-    if (this.validateAttributes) {
-      const validation = this.validateAttributes(attributes);
-      if (!validation.isValid) {
-        errors.push(...validation.errors);
-      }
-    }
+    const { errors, diagnostics } = this.collectValidation(attributes);
     
     // Add line break before list item if needed
     if (this.needsLineBreak(segments)) {
@@ -152,10 +116,11 @@ class ListItemStrategy extends BaseTagStrategy {
       });
     }
     
-    const newStyle = this.applyStyle(currentStyle, attributes, context.tagName);
+    // Nesting and numbering come from the list state of this parse
+    const newStyle = ListHelpers.applyListStyling({ ...currentStyle }, LIST_TAGS.LIST_ITEM, context.compositeState);
     
     // Add list item prefix
-    const prefix = ListHelpers.getListItemPrefix(LIST_TAGS.LIST_ITEM);
+    const prefix = ListHelpers.getListItemPrefix(LIST_TAGS.LIST_ITEM, context.compositeState);
     if (prefix) {
       // Create separate segment for prefix with clean list item style (no inherited decorations)
       // BUT inherit the list properties from newStyle for proper indentation
@@ -163,7 +128,7 @@ class ListItemStrategy extends BaseTagStrategy {
       prefixStyle.textDecoration = TEXT_DECORATION.NONE; // No text decoration for prefix
       prefixStyle.fontWeight = FONT_WEIGHT.NORMAL; // No bold/font weight inheritance
       prefixStyle.fontStyle = FONT_STYLE.NORMAL; // No italic inheritance
-      prefixStyle.color = DEFAULT_COLORS.BLACK; // Reset color to default black
+      prefixStyle.color = context.styleStack[0]?.color ?? DEFAULT_COLORS.BLACK; // Reset color to the default text color
       
       newSegments.push({
         text: prefix,
@@ -178,7 +143,8 @@ class ListItemStrategy extends BaseTagStrategy {
       updatedStyle: newStyle,
       pushStyleToStack: true,
       popFromStyleStack: false,
-      errors
+      errors,
+      diagnostics
     };
   }
 
@@ -190,24 +156,8 @@ class ListItemStrategy extends BaseTagStrategy {
     return true;
   }
 
-  public validateAttributes(attributes: string): { isValid: boolean; errors: string[] } {
-    return this.validateCommonListAttributes(attributes);
-  }
-
-  private validateCommonListAttributes(attributes: string): { isValid: boolean; errors: string[] } {
-    const errors: string[] = [];
-    
-    if (attributes.trim()) {
-      const validAttributePattern = /^(\s*(class|id|style|type|start)\s*=\s*["'][^"']*["']\s*)*$/i;
-      if (!validAttributePattern.test(attributes.trim())) {
-        errors.push('Invalid or unsupported attributes for list tag');
-      }
-    }
-    
-    return {
-      isValid: errors.length === 0,
-      errors
-    };
+  public validateAttributes(attributes: string): ValidationResult {
+    return ListHelpers.validateListAttributes(attributes);
   }
 }
 
@@ -250,28 +200,13 @@ export class ListTagStrategy extends CompositeParseStrategy {
    * Provide list-specific validation for all list tags
    * Override the generic composite's validation method
    */
-  public validateAttributes(attributes: string, tagName?: string): { isValid: boolean; errors: string[] } {
-    const errors: string[] = [];
-    
-    // Basic validation - list tags generally don't require specific attributes
-    // but we should allow common HTML attributes like class, id, style
-    if (attributes.trim()) {
-      // Allow common attributes, just validate basic structure
-      const validAttributePattern = /^(\s*(class|id|style|type|start)\s*=\s*["'][^"']*["']\s*)*$/i;
-      if (!validAttributePattern.test(attributes.trim())) {
-        errors.push('Invalid or unsupported attributes for list tag');
-      }
-    }
-    
-    return {
-      isValid: errors.length === 0,
-      errors
-    };
+  public validateAttributes(attributes: string, tagName?: string): ValidationResult {
+    return ListHelpers.validateListAttributes(attributes);
   }
   
   /**
-   * Reset all list state - useful for testing or clean processing
-   * Delegates to ListHelpers for backward compatibility
+   * Reset the list state used by direct strategy calls - useful for testing.
+   * Parses have their own list state and do not need a reset.
    */
   public static resetListState(): void {
     ListHelpers.resetListState();
@@ -1,5 +1,6 @@
 import { TextStyle } from '../../types';
 import { BaseTagStrategy } from '../interfaces/base-tag-strategy';
+import { TAG_COLORS } from '../../constants';
 
 /**
  * Strategy for small text tags: <small>, <sub>, <sup>
@@ -29,7 +30,7 @@ export class SmallTextTagStrategy extends BaseTagStrategy {
         return {
           ...currentStyle,
           fontSize: smallerFontSize,
-          color: '#6c757d' // Muted color for small text
+          color: TAG_COLORS.MUTED // Muted color for small text
         };
       default:
         return currentStyle;
@@ -1,4 +1,4 @@
-import { TextStyle } from '../../types';
+import { TextStyle, ValidationResult } from '../../types';
 import { BaseTagStrategy } from '../interfaces/base-tag-strategy';
 import { StyleHelpers } from '../../helpers/style';
 
@@ -24,7 +24,7 @@ export class SpanTagStrategy extends BaseTagStrategy {
     return ['span'];
   }
 
-  public validateAttributes(attributes: string): { isValid: boolean; errors: string[] } {
+  public validateAttributes(attributes: string): ValidationResult {
     return StyleHelpers.validateStyleAttribute(attributes);
   }
 }
@@ -1,18 +1,20 @@
 import { TextStyle } from '../../types';
 import { BaseTagStrategy } from '../interfaces/base-tag-strategy';
+import { StyleHelpers } from '../../helpers/style';
+import { TAG_COLORS } from '../../constants';
 
 /**
  * Strategy for strike-through text tags: <s>, <strike>, <del>
  * 
- * This strategy applies line-through text decoration and a muted color.
+ * This strategy adds a line-through to the text decoration and applies a muted color.
  * Uses the default parse() implementation from BaseTagStrategy.
  */
 export class StrikethroughTagStrategy extends BaseTagStrategy {
   public applyStyle(currentStyle: TextStyle, attributes: string, tagName?: string): TextStyle {
     return {
       ...currentStyle,
-      textDecoration: 'line-through' as any, // Would need to extend TextStyle type
-      color: '#6c757d' // Muted color
+      textDecoration: StyleHelpers.addDecorationLine(currentStyle.textDecoration, 'line-through'),
+      color: TAG_COLORS.MUTED // Muted color
     };
   }
 
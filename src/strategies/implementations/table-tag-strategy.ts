@@ -0,0 +1,182 @@
+import { TextStyle, ParseContext, ParsedOutput, ValidationResult } from '../../types';
+import { BaseTagStrategy } from '../interfaces/base-tag-strategy';
+import { CompositeParseStrategy } from '../interfaces/composite-parse-strategy';
+import { TABLE_TAGS, TABLE_MAX_COLSPAN, TABLE_MAX_ROWSPAN, FONT_WEIGHT, NON_BREAKING_SPACE } from '../../constants';
+import { TableHelpers } from '../../helpers/composite';
+
+/**
+ * Strategy for table containers: <table>
+ * Starts the grid of a new table on a line of its own
+ */
+class TableStrategy extends BaseTagStrategy {
+  public applyStyle(currentStyle: TextStyle, attributes: string, tagName?: string): TextStyle {
+    // Stack management is handled by parent CompositeParseStrategy
+    return { ...currentStyle };
+  }
+
+  public parse(context: ParseContext): ParsedOutput {
+    if (context.isClosingTag) {
+      return this.handleBlockLevelClosingTag(context);
+    }
+
+    TableHelpers.startTable(context.compositeState);
+    return this.handleBlockLevelOpeningTag(context);
+  }
+
+  public getTagNames(): string[] {
+    return [TABLE_TAGS.TABLE];
+  }
+
+  public isLineBreak(): boolean {
+    return true;
+  }
+}
+
+/**
+ * Strategy for table sections: <thead>, <tbody>, <tfoot>
+ * Sections only group rows; their rows continue the grid of the table.
+ * Uses the default parse() implementation from BaseTagStrategy.
+ */
+class TableSectionStrategy extends BaseTagStrategy {
+  public applyStyle(currentStyle: TextStyle, attributes: string, tagName?: string): TextStyle {
+    return { ...currentStyle };
+  }
+
+  public getTagNames(): string[] {
+    return [TABLE_TAGS.HEAD, TABLE_TAGS.BODY, TABLE_TAGS.FOOT];
+  }
+}
+
+/**
+ * Strategy for table rows: <tr>
+ */
+class TableRowStrategy extends BaseTagStrategy {
+  public applyStyle(currentStyle: TextStyle, attributes: string, tagName?: string): TextStyle {
+    return { ...currentStyle };
+  }
+
+  public parse(context: ParseContext): ParsedOutput {
+    if (!context.isClosingTag) {
+      TableHelpers.startRow(context.compositeState);
+    }
+    return super.parse(context);
+  }
+
+  public getTagNames(): string[] {
+    return [TABLE_TAGS.ROW];
+  }
+}
+
+/**
+ * Strategy for table cells: <td>, <th>
+ * Places the cell in the grid of its table; header cells are bold
+ */
+class TableCellStrategy extends BaseTagStrategy {
+  public applyStyle(currentStyle: TextStyle, attributes: string, tagName?: string): TextStyle {
+    // Placing the cell needs the table state of a parse, see parse()
+    if (tagName === TABLE_TAGS.HEADER_CELL) {
+      return { ...currentStyle, fontWeight: FONT_WEIGHT.BOLD };
+    }
+    return { ...currentStyle };
+  }
+
+  public parse(context: ParseContext): ParsedOutput {
+    const { isClosingTag, attributes, currentStyle, segments } = context;
+
+    if (isClosingTag) {
+      // An empty cell still gets its box: it holds a non-breaking space
+      const isEmpty = !!currentStyle.tableCell && segments[segments.length - 1]?.tableCell !== currentStyle.tableCell;
+      return {
+        newSegments: isEmpty ? [{ text: NON_BREAKING_SPACE, ...currentStyle }] : [],
+        updatedStyle: currentStyle,
+        pushStyleToStack: false,
+        popFromStyleStack: true,
+        errors: []
+      };
+    }
+
+    const { errors, diagnostics } = this.collectValidation(attributes);
+    const colSpan = Math.min(Math.max(this.getIntegerAttribute(context, 'colspan') ?? 1, 1), TABLE_MAX_COLSPAN);
+    const rowSpan = Math.min(Math.max(this.getIntegerAttribute(context, 'rowspan') ?? 1, 1), TABLE_MAX_ROWSPAN);
+    const header = context.tagName === TABLE_TAGS.HEADER_CELL;
+    const tableCell = TableHelpers.placeCell(colSpan, rowSpan, header, context.compositeState);
+
+    const newStyle = this.applyStyle(currentStyle, attributes, context.tagName);
+    if (tableCell) {
+      newStyle.tableCell = tableCell;
+    }
+
+    return {
+      newSegments: [],
+      updatedStyle: newStyle,
+      pushStyleToStack: true,
+      popFromStyleStack: false,
+      errors,
+      diagnostics
+    };
+  }
+
+  public getTagNames(): string[] {
+    return [TABLE_TAGS.HEADER_CELL, TABLE_TAGS.DATA_CELL];
+  }
+
+  public validateAttributes(attributes: string): ValidationResult {
+    return TableHelpers.validateTableAttributes(attributes);
+  }
+}
+
+/**
+ * Main strategy for HTML table tags: <table>, <thead>, <tbody>, <tfoot>, <tr>, <th>, <td>
+ * Uses CompositeParseStrategy to delegate to specific tag strategies
+ * 
+ * The strategies only place each cell in the grid of its table (`TextStyle.tableCell`, with
+ * `colspan` and `rowspan` taken into account); TextLayoutEngine sizes the columns and rows and
+ * wraps the text inside the cells, and VegaLiteGenerator draws the borders and header backgrounds.
+ * A table inside a cell is laid out as a table of its own.
+ */
+export class TableTagStrategy extends CompositeParseStrategy {
+
+  constructor() {
+    const section = new TableSectionStrategy();
+    const cell = new TableCellStrategy();
+    super({
+      family: 'table',
+      strategies: {
+        [TABLE_TAGS.TABLE]: new TableStrategy(),
+        [TABLE_TAGS.HEAD]: section,
+        [TABLE_TAGS.BODY]: section,
+        [TABLE_TAGS.FOOT]: section,
+        [TABLE_TAGS.ROW]: new TableRowStrategy(),
+        [TABLE_TAGS.HEADER_CELL]: cell,
+        [TABLE_TAGS.DATA_CELL]: cell
+      },
+      stackConfig: {
+        // Only tables are containers with their own grid; the row counter belongs to the table
+        [TABLE_TAGS.TABLE]: { manageStack: true, needsCounter: true }
+      }
+    });
+  }
+
+  /**
+   * List each tag once; the section and cell strategies are registered for several tags
+   */
+  public getTagNames(): string[] {
+    return [...new Set(super.getTagNames())];
+  }
+
+  /**
+   * Provide table-specific validation for all table tags
+   * Override the generic composite's validation method
+   */
+  public validateAttributes(attributes: string, tagName?: string): ValidationResult {
+    return TableHelpers.validateTableAttributes(attributes);
+  }
+
+  /**
+   * Reset the table state used by direct strategy calls - useful for testing.
+   * Parses have their own table state and do not need a reset.
+   */
+  public static resetTableState(): void {
+    TableHelpers.resetTableState();
+  }
+}
@@ -1,17 +1,18 @@
 import { TextStyle } from '../../types';
 import { BaseTagStrategy } from '../interfaces/base-tag-strategy';
+import { StyleHelpers } from '../../helpers/style';
 
 /**
  * Strategy for underline tags: <u>
  * 
- * This strategy applies underline text decoration to text.
+ * This strategy adds an underline to the text decoration of the text.
  * Uses the default parse() implementation from BaseTagStrategy.
  */
 export class UnderlineTagStrategy extends BaseTagStrategy {
   public applyStyle(currentStyle: TextStyle, attributes: string, tagName?: string): TextStyle {
     return {
       ...currentStyle,
-      textDecoration: 'underline'
+      textDecoration: StyleHelpers.addDecorationLine(currentStyle.textDecoration, 'underline')
     };
   }
 
@@ -22,7 +22,9 @@ import {
   SmallTextTagStrategy,
   HighlightTagStrategy,
   StrikethroughTagStrategy,
-  ListTagStrategy
+  ListTagStrategy,
+  TableTagStrategy,
+  BlockquoteTagStrategy
 } from './implementations/index';
 
 /**
@@ -49,6 +51,8 @@ export function createDefaultTagStrategyRegistry(): TagStrategyRegistry {
   registry.registerStrategy(new HighlightTagStrategy());
   registry.registerStrategy(new StrikethroughTagStrategy());
   registry.registerStrategy(new ListTagStrategy());
+  registry.registerStrategy(new TableTagStrategy());
+  registry.registerStrategy(new BlockquoteTagStrategy());
   
   return registry;
 }
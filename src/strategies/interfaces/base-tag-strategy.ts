@@ -1,6 +1,8 @@
-import { TextStyle, ParseContext, ParsedOutput, TextSegment } from '../../types';
+import { TextStyle, ParseContext, ParsedOutput, TextSegment, HTMLToken, ValidationResult, Diagnostic } from '../../types';
 import { TagStrategy } from './tag-strategy.interface';
 import { TextHelpers } from '../../helpers/text';
+import { DiagnosticHelpers } from '../../helpers/diagnostics';
+import { AttributeHelpers } from '../../helpers/attributes';
 
 /**
  * Abstract base class implementing common tag strategy functionality
@@ -38,13 +40,7 @@ export abstract class BaseTagStrategy implements TagStrategy {
     }
 
     // For opening tags, validate and apply styling
-    const errors: string[] = [];
-    if (this.validateAttributes) {
-      const validation = this.validateAttributes(attributes);
-      if (!validation.isValid) {
-        errors.push(...validation.errors);
-      }
-    }
+    const { errors, diagnostics } = this.collectValidation(attributes);
 
     const newStyle = this.applyStyle(currentStyle, attributes, context.tagName);
 
@@ -53,11 +49,12 @@ export abstract class BaseTagStrategy implements TagStrategy {
       updatedStyle: newStyle,
       pushStyleToStack: true,
       popFromStyleStack: false,
-      errors
+      errors,
+      diagnostics
     };
   }
   
-  public validateAttributes(attributes: string): { isValid: boolean; errors: string[] } {
+  public validateAttributes(attributes: string): ValidationResult {
     // Default implementation - no validation
     // TODO will add in further implementations
     return { isValid: true, errors: [] };
@@ -75,11 +72,50 @@ export abstract class BaseTagStrategy implements TagStrategy {
     return TextHelpers.needsLineBreak(segments);
   }
 
+  /**
+   * Validate attributes and collect both the messages and their structured diagnostics
+   */
+  protected collectValidation(attributes: string): { errors: string[]; diagnostics: Diagnostic[] } {
+    const validation = this.validateAttributes(attributes);
+    if (validation.isValid) {
+      return { errors: [], diagnostics: [] };
+    }
+    return { errors: [...validation.errors], diagnostics: DiagnosticHelpers.fromValidation(validation) };
+  }
+
+  /**
+   * Get the decoded value of an attribute of the tag being parsed
+   */
+  protected getAttribute(context: ParseContext, name: string): string | undefined {
+    return context.attributeMap.get(name.toLowerCase());
+  }
+
+  /**
+   * Check if the tag being parsed has an attribute, with or without a value (`<ol reversed>`)
+   */
+  protected hasAttribute(context: ParseContext, name: string): boolean {
+    return context.attributeMap.has(name.toLowerCase());
+  }
+
+  /**
+   * Get an integer attribute of the tag being parsed, or undefined if missing or not an integer
+   */
+  protected getIntegerAttribute(context: ParseContext, name: string): number | undefined {
+    return AttributeHelpers.getInteger(context.attributeMap, name.toLowerCase());
+  }
+
+  /**
+   * Get an enumerated attribute of the tag being parsed, or undefined if missing or not allowed
+   */
+  protected getEnumAttribute<T extends string>(context: ParseContext, name: string, values: readonly T[]): T | undefined {
+    return AttributeHelpers.getEnum(context.attributeMap, name.toLowerCase(), values);
+  }
+
   /**
    * Check if there's meaningful content after this tag
    */
-  protected hasMoreContent(remainingParts: string[], currentIndex: number): boolean {
-    return TextHelpers.hasMoreContent(remainingParts, currentIndex);
+  protected hasMoreContent(tokens: HTMLToken[], tokenIndex: number): boolean {
+    return TextHelpers.hasMoreContent(tokens, tokenIndex);
   }
 
   /**
@@ -95,16 +131,10 @@ export abstract class BaseTagStrategy implements TagStrategy {
    */
   protected handleBlockLevelOpeningTag(context: ParseContext): ParsedOutput {
     const { attributes, currentStyle, segments } = context;
-    const errors: string[] = [];
     const newSegments: TextSegment[] = [];
 
     // Validate attributes
-    if (this.validateAttributes) {
-      const validation = this.validateAttributes(attributes);
-      if (!validation.isValid) {
-        errors.push(...validation.errors);
-      }
-    }
+    const { errors, diagnostics } = this.collectValidation(attributes);
 
     // Add line break before block element if needed
     if (this.needsLineBreak(segments)) {
@@ -121,7 +151,8 @@ export abstract class BaseTagStrategy implements TagStrategy {
       updatedStyle: newStyle,
       pushStyleToStack: true,
       popFromStyleStack: false,
-      errors
+      errors,
+      diagnostics
     };
   }
 
@@ -136,11 +167,11 @@ export abstract class BaseTagStrategy implements TagStrategy {
    * @returns ParsedOutput for closing tag
    */
   protected handleBlockLevelClosingTag(context: ParseContext): ParsedOutput {
-    const { currentStyle, remainingParts, currentIndex } = context;
+    const { currentStyle, tokens, tokenIndex } = context;
     const newSegments: TextSegment[] = [];
 
     // Add line break after block element if there's more content
-    if (this.hasMoreContent(remainingParts, currentIndex)) {
+    if (this.hasMoreContent(tokens, tokenIndex)) {
       newSegments.push({
         text: '\n',
         ...currentStyle
@@ -1,4 +1,4 @@
-import { TextStyle, ParseContext, ParsedOutput } from '../../types';
+import { TextStyle, ParseContext, ParsedOutput, ValidationResult } from '../../types';
 import { BaseTagStrategy } from './base-tag-strategy';
 import { TagStrategy } from './tag-strategy.interface';
 import { CompositeHelpers } from '../../helpers/composite';
@@ -15,7 +15,9 @@ interface CompositeStackConfig {
 
 /**
  * Generic composite strategy that delegates parsing to child strategies based on tag type.
- * Also handles centralized state management (stacks, counters) for the tag family.
+ * Also handles centralized state management (stacks, counters) for the tag family. The state
+ * belongs to the parse (`ParseContext.compositeState`), so concurrent parses do not share it;
+ * direct applyStyle/handleClosingTag calls outside a parse use CompositeHelpers' default state.
  * This pattern can be used for any family of related tags (lists, tables, forms, etc.)
  * 
  * Usage example:
@@ -89,7 +91,7 @@ export abstract class CompositeParseStrategy extends BaseTagStrategy {
     const strategy = this.childStrategies.get(normalizedTagName);
     if (!strategy) return currentStyle;
     
-    // Handle stack management for opening tags (applyStyle is called for opening tags)
+    // Handle stack management for direct calls (parse() manages the stack of its own parse)
     const stackConfig = this.stackConfig.get(normalizedTagName);
     if (stackConfig?.manageStack) {
       CompositeHelpers.pushToStack(this.family, normalizedTagName, stackConfig.needsCounter || false);
@@ -118,15 +120,15 @@ export abstract class CompositeParseStrategy extends BaseTagStrategy {
       };
     }
     
-    // Handle stack management for this tag family
+    // Handle stack management for this tag family in the state of this parse
     const stackConfig = this.stackConfig.get(tagName);
     if (stackConfig?.manageStack) {
       if (context.isClosingTag) {
         // Pop from stack when closing
-        CompositeHelpers.popFromStack(this.family, stackConfig.needsCounter || false);
+        CompositeHelpers.popFromStack(this.family, stackConfig.needsCounter || false, context.compositeState);
       } else {
         // Push to stack when opening
-        CompositeHelpers.pushToStack(this.family, tagName, stackConfig.needsCounter || false);
+        CompositeHelpers.pushToStack(this.family, tagName, stackConfig.needsCounter || false, context.compositeState);
       }
     }
     
@@ -154,7 +156,7 @@ export abstract class CompositeParseStrategy extends BaseTagStrategy {
    * @param tagName - Optional tag name for strategy-specific validation
    * @returns Validation result
    */
-  public validateAttributes(attributes: string, tagName?: string): { isValid: boolean; errors: string[] } {
+  public validateAttributes(attributes: string, tagName?: string): ValidationResult {
     if (tagName) {
       const strategy = this.childStrategies.get(tagName.toLowerCase());
       if (strategy && strategy.validateAttributes) {
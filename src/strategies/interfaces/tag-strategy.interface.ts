@@ -1,4 +1,4 @@
-import { TextStyle, ParseContext, ParsedOutput } from '../../types';
+import { TextStyle, ParseContext, ParsedOutput, ValidationResult } from '../../types';
 
 /**
  * Base interface for all tag strategies
@@ -22,10 +22,12 @@ export interface TagStrategy {
   /**
    * Validate tag attributes (optional)
    */
-  validateAttributes?(attributes: string): { isValid: boolean; errors: string[] };
+  validateAttributes?(attributes: string): ValidationResult;
   
   /**
    * Check if this tag represents a line break (optional)
+   * 
+   * @param tagName - Tag being parsed, for strategies that handle block and inline tags
    */
-  isLineBreak?(): boolean;
+  isLineBreak?(tagName?: string): boolean;
 }
@@ -0,0 +1,286 @@
+import { TextSegment, ParseResult, ParseState, ParseOptions, HTMLToken } from './types';
+import { HTMLParser } from './parser';
+import { HTMLTokenizer } from './tokenizer';
+import { TagBalancer, BalancerState } from './tag-balancer';
+import { SpacingAnalyzer } from './spacing-analyzer';
+import { TextHelpers } from './helpers/text';
+import { LimitHelpers } from './helpers/limits';
+
+/**
+ * Incremental HTML parser for input that arrives in chunks (LLM output, SSE streams)
+ *
+ * Each `write()` tokenizes only the input not consumed yet and returns the segments that are
+ * final. Input that a later chunk could still change is held back:
+ * - a trailing partial word or character reference (`Hel|lo`, `&am|p;`)
+ * - unterminated markup (`<b cla|ss="x">`, `<!-- ...|`)
+ * - the content of `<script>`, `<style>` etc. until its end tag arrives
+ * - end tags and whitespace after the last content, so closing block tags know whether content follows
+ *
+ * The style stack and tag balancing carry across chunks, and a text run that spans chunks stays
+ * one segment, so the segments returned over the whole stream are those `HTMLParser.parseHTML`
+ * produces for the complete document. `getSegments()` also includes the text that is not final
+ * yet, for rendering partial output.
+ */
+export class StreamingHTMLParser {
+  private parser: HTMLParser;
+  private tokenizer = new HTMLTokenizer();
+  private balancer = new TagBalancer();
+  private balancerState: BalancerState;
+  private state: ParseState;
+
+  /** All input received so far; segment source offsets refer to it */
+  private source = '';
+  /** Offset up to which the input has been tokenized */
+  private consumed = 0;
+  /** Index of the next balanced token to hand to the parser */
+  private nextTokenIndex = 0;
+  /** Number of raw parser segments already normalized */
+  private normalizedCount = 0;
+  /** Offset where committed input ends inside a text run; the segment ending there may still grow */
+  private splitOffset: number | null = null;
+  /** Last segment, waiting for its successor before its spacing is known */
+  private pendingSegment: TextSegment | null = null;
+  private emitted: TextSegment[] = [];
+  private ended = false;
+
+  /**
+   * @param parser - Parser whose tag strategies are used (a default parser if omitted)
+   * @param options - Parse options such as the unknown-tag policy
+   */
+  constructor(parser: HTMLParser = new HTMLParser(), options: ParseOptions = {}) {
+    this.parser = parser;
+    this.balancerState = this.balancer.createState();
+    // The parser reads the balancer's output directly, so lookahead sees every token balanced so far
+    this.state = this.parser.createParseState(this.balancerState.output, options);
+  }
+
+  /**
+   * Add the next chunk of HTML
+   *
+   * @param chunk - Next piece of the document
+   * @returns Segments that became final with this chunk
+   * @throws LimitExceededError if the input grows past `limits.maxInputLength` and `limits.onLimitExceeded` is `throw`
+   */
+  public write(chunk: string): TextSegment[] {
+    if (this.ended) {
+      throw new Error('Cannot write to a stream that has ended');
+    }
+
+    // Input past the length limit is dropped as it arrives
+    const maxLength = this.state.options.limits?.maxInputLength;
+    let accepted = chunk;
+    if (maxLength !== undefined && this.source.length + chunk.length > maxLength) {
+      LimitHelpers.exceed(this.state.options, 'input-length', maxLength, this.state.diagnostics);
+      accepted = chunk.slice(0, Math.max(0, maxLength - this.source.length));
+    }
+
+    this.source += accepted;
+    const tail = this.source.slice(this.consumed);
+    const tokens = this.tokenizer.tokenize(tail);
+    const commitEnd = this.findCommitEnd(tail, tokens);
+
+    const committed = this.takeTokens(tokens, commitEnd);
+    this.consumed += commitEnd;
+    this.balancer.push(this.balancerState, committed);
+
+    this.processTokens(this.lastContentIndex() + 1);
+    return this.emitSegments(false);
+  }
+
+  /**
+   * Finish the document: flush held-back input and close open elements
+   *
+   * @returns Parse result for the whole document, as HTMLParser.parseHTML would return it
+   */
+  public end(): ParseResult {
+    if (this.ended) {
+      throw new Error('Stream has already ended');
+    }
+    this.ended = true;
+
+    if (!this.source) {
+      return this.parser.parseHTML(this.source, this.state.options);
+    }
+
+    const tail = this.source.slice(this.consumed);
+    const committed = this.takeTokens(this.tokenizer.tokenize(tail), tail.length);
+    this.consumed = this.source.length;
+    this.balancer.push(this.balancerState, committed);
+    this.balancer.finish(this.balancerState, this.source.length);
+
+    this.processTokens(this.state.tokens.length);
+    this.emitSegments(true);
+
+    return {
+      segments: [...this.emitted],
+      errors: [...this.state.errors],
+      warnings: [...this.balancerState.warnings],
+      diagnostics: [...this.balancerState.diagnostics, ...this.state.diagnostics],
+      document: this.state.document.build(this.source, this.state.theme.textColor)
+    };
+  }
+
+  /**
+   * Get every segment so far, including those whose spacing or text may still change
+   */
+  public getSegments(): TextSegment[] {
+    const provisional = TextHelpers.normalizeSegmentWhitespace(this.state.segments.slice(this.normalizedCount));
+    if (this.pendingSegment) {
+      provisional.unshift(this.pendingSegment);
+    }
+    return [
+      ...this.emitted,
+      ...provisional.map((segment, index) =>
+        SpacingAnalyzer.assignSpacing(segment, provisional[index + 1] ?? null, this.source, this.state.theme.textColor)
+      )
+    ];
+  }
+
+  /**
+   * Get all input received so far
+   */
+  public getSource(): string {
+    return this.source;
+  }
+
+  /**
+   * Find how much of the unconsumed input can be tokenized for good
+   *
+   * @param tail - Unconsumed input
+   * @param tokens - Tokens of the unconsumed input
+   * @returns Offset in `tail` up to which the tokens will not change
+   */
+  private findCommitEnd(tail: string, tokens: HTMLToken[]): number {
+    const last = tokens[tokens.length - 1];
+    if (!last) return 0;
+
+    switch (last.type) {
+      case 'text': {
+        // Raw text is only complete once its end tag arrives
+        const previous = tokens[tokens.length - 2];
+        if (previous?.type === 'start-tag' && HTMLTokenizer.isRawTextTag(previous.tagName ?? '')) {
+          return previous.start;
+        }
+
+        // Unterminated markup is tokenized as text; it starts at the first `<` that could open a tag
+        const text = last.text ?? '';
+        const markupStart = text.search(/<(?:[a-zA-Z/!?]|$)/);
+        const settled = markupStart === -1 ? text : text.slice(0, markupStart);
+
+        // The last word may continue in the next chunk
+        const wordBoundary = settled.search(/[ \t\n\f\r][^ \t\n\f\r]*$/);
+        return wordBoundary === -1 ? last.start : last.start + wordBoundary + 1;
+      }
+      case 'start-tag':
+        return HTMLTokenizer.isRawTextTag(last.tagName ?? '') ? last.start : last.end;
+      case 'comment':
+      case 'doctype':
+        return this.isTerminated(tail.slice(last.start, last.end)) ? last.end : last.start;
+      default:
+        return last.end;
+    }
+  }
+
+  /**
+   * Check whether a comment, CDATA section or doctype read at the end of input was closed
+   */
+  private isTerminated(markup: string): boolean {
+    if (markup.startsWith('<!--')) {
+      return markup.endsWith('-->') || markup === '<!-->' || markup === '<!--->';
+    }
+    if (markup.startsWith('<![CDATA[')) {
+      return markup.endsWith(']]>');
+    }
+    return markup.endsWith('>');
+  }
+
+  /**
+   * Take the tokens before the commit point, splitting a text token that straddles it,
+   * and shift their offsets from the tail to the whole input
+   */
+  private takeTokens(tokens: HTMLToken[], commitEnd: number): HTMLToken[] {
+    const taken: HTMLToken[] = [];
+    if (commitEnd > 0) {
+      this.splitOffset = null;
+    }
+
+    for (const token of tokens) {
+      if (token.start >= commitEnd) break;
+
+      const shifted = { ...token, start: token.start + this.consumed, end: token.end + this.consumed };
+      if (token.end > commitEnd) {
+        // Only text can straddle the commit point
+        shifted.text = (token.text ?? '').slice(0, commitEnd - token.start);
+        shifted.end = commitEnd + this.consumed;
+      }
+      if (token.type === 'text' && token.end >= commitEnd) {
+        // The next chunk may continue this text run
+        this.splitOffset = shifted.end;
+      }
+      taken.push(shifted);
+    }
+
+    return taken;
+  }
+
+  /**
+   * Index of the last content token; tokens after it wait until more content or the end of input
+   */
+  private lastContentIndex(): number {
+    const tokens = this.state.tokens;
+    for (let i = tokens.length - 1; i >= this.nextTokenIndex; i--) {
+      const token = tokens[i];
+      if (token && TextHelpers.isContentToken(token)) {
+        return i;
+      }
+    }
+    return this.nextTokenIndex - 1;
+  }
+
+  /**
+   * Hand balanced tokens up to (not including) the given index to the parser
+   */
+  private processTokens(endIndex: number): void {
+    for (; this.nextTokenIndex < endIndex; this.nextTokenIndex++) {
+      this.parser.processToken(this.state, this.nextTokenIndex);
+    }
+  }
+
+  /**
+   * Normalize new parser segments and emit those whose successor is known
+   *
+   * @param final - Whether the input has ended, so the last segment can be emitted too
+   * @returns Newly emitted segments
+   */
+  private emitSegments(final: boolean): TextSegment[] {
+    // A segment ending where a text run was split continues in the next chunk, and one that
+    // waiting text follows (whitespace kept by white-space: pre) continues once it is processed
+    let available = this.state.segments.length;
+    const lastEnd = this.state.segments[available - 1]?.sourceEnd;
+    const waiting = this.state.tokens[this.nextTokenIndex];
+    if (!final && (lastEnd === this.splitOffset || (waiting?.type === 'text' && waiting.start === lastEnd))) {
+      available--;
+    }
+
+    const newSegments = TextHelpers.normalizeSegmentWhitespace(this.state.segments.slice(this.normalizedCount, available));
+    this.normalizedCount = available;
+
+    const emitted: TextSegment[] = [];
+    for (const segment of newSegments) {
+      if (this.pendingSegment) {
+        emitted.push(SpacingAnalyzer.assignSpacing(this.pendingSegment, segment, this.source, this.state.theme.textColor));
+      }
+      this.pendingSegment = segment;
+    }
+
+    if (final && this.pendingSegment) {
+      // Like parseHTML, a lone segment gets no spacing metadata
+      const isOnlySegment = this.emitted.length === 0 && emitted.length === 0;
+      emitted.push(isOnlySegment ? this.pendingSegment : SpacingAnalyzer.assignSpacing(this.pendingSegment, null, this.source, this.state.theme.textColor));
+      this.pendingSegment = null;
+    }
+
+    this.emitted.push(...emitted);
+    return emitted;
+  }
+}
@@ -0,0 +1,359 @@
+import { Diagnostic } from './types';
+import { StyleHelpers } from './helpers/style';
+import { DiagnosticHelpers } from './helpers/diagnostics';
+
+/**
+ * Open element as CSS selectors see it
+ */
+export interface StyledElement {
+  tagName: string;
+  id: string | null;
+  classes: string[];
+  /** Custom properties (`--name`) in effect for the element, including inherited ones */
+  customProperties: ReadonlyMap<string, string>;
+  /** Whether the parser pushed a cascaded style for the element that its end tag pops */
+  ownsStyle: boolean;
+}
+
+/**
+ * Compound selector: a type, id and classes that must all match one element
+ */
+interface CompoundSelector {
+  /** `:root`, matched by the document root instead of an element */
+  root: boolean;
+  /** Lower-case type, or null for `*` and type-less compounds */
+  tagName: string | null;
+  ids: string[];
+  classes: string[];
+}
+
+/**
+ * Complex selector: compounds joined by descendant combinators, outermost first
+ */
+interface Selector {
+  compounds: CompoundSelector[];
+  /** Ids, classes and types, compared in that order */
+  specificity: [number, number, number];
+}
+
+interface StyleDeclaration {
+  property: string;
+  value: string;
+  important: boolean;
+}
+
+interface StyleRule {
+  selectors: Selector[];
+  declarations: StyleDeclaration[];
+}
+
+/**
+ * Declaration competing in the cascade for one element
+ */
+interface CascadeCandidate extends StyleDeclaration {
+  inline: boolean;
+  specificity: [number, number, number];
+  /** Position in source order; later declarations win ties */
+  order: number;
+}
+
+/**
+ * Style rules collected from the `<style>` blocks of a document
+ *
+ * Supports type, class, id and `:root` selectors, compound selectors (`p.note#intro`) and the
+ * descendant combinator, ordered by specificity, source order and `!important` like in CSS.
+ * Custom properties (`--name`) inherit and are substituted into `var()` references. Rules with
+ * other selectors and at-rules such as `@media` are ignored and reported.
+ */
+export class Stylesheet {
+  private rules: StyleRule[];
+  private rootCustomProperties: Map<string, string>;
+
+  constructor() {
+    this.rules = [];
+    this.rootCustomProperties = new Map();
+  }
+
+  /**
+   * Add the rules of a style sheet
+   *
+   * @param css - Content of a `<style>` element
+   * @param isPropertyAllowed - Filter for declarations, e.g. a sanitizer's CSS allow-list
+   * @returns Diagnostics for the parts that were ignored
+   */
+  public addRules(css: string, isPropertyAllowed: (property: string) => boolean = () => true): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+
+    for (const block of this.splitBlocks(css.replace(/\/\*[\s\S]*?(?:\*\/|$)/g, ''))) {
+      if (block.prelude.startsWith('@')) {
+        const name = block.prelude.match(/^@[\w-]*/)?.[0] ?? '@';
+        diagnostics.push(DiagnosticHelpers.create('unsupported-css-selector', 'info', `Ignored CSS at-rule: ${name}`));
+        continue;
+      }
+
+      const selectors: Selector[] = [];
+      for (const text of block.prelude.split(',').map(selector => selector.trim()).filter(Boolean)) {
+        const selector = this.parseSelector(text);
+        if (selector) {
+          selectors.push(selector);
+        } else {
+          diagnostics.push(DiagnosticHelpers.create('unsupported-css-selector', 'info', `Ignored unsupported CSS selector: ${text}`));
+        }
+      }
+
+      const declarations = this.parseDeclarations(block.body).filter(
+        declaration => declaration.property.startsWith('--') || isPropertyAllowed(declaration.property)
+      );
+      if (selectors.length > 0 && declarations.length > 0) {
+        this.rules.push({ selectors, declarations });
+      }
+    }
+
+    this.rootCustomProperties = this.resolveCustomProperties(this.collectCandidates([], null), new Map());
+    return diagnostics;
+  }
+
+  /**
+   * Check if any rules were added
+   */
+  public hasRules(): boolean {
+    return this.rules.length > 0;
+  }
+
+  /**
+   * Get the custom properties defined for the document root
+   */
+  public getRootCustomProperties(): ReadonlyMap<string, string> {
+    return this.rootCustomProperties;
+  }
+
+  /**
+   * Compute the declarations that win the cascade for an element
+   *
+   * Only properties set by a matching rule are returned, so the inline style attribute only
+   * takes part where it competes with the style sheet; `var()` references are substituted.
+   *
+   * @param path - Open elements from the outermost to the element itself; empty for the document root
+   * @param inlineStyle - Value of the element's style attribute
+   * @returns Winning declarations as a style attribute value, and the element's custom properties
+   */
+  public computeStyle(path: StyledElement[], inlineStyle: string | null): { css: string; customProperties: ReadonlyMap<string, string> } {
+    if (path.length === 0) {
+      return { css: this.toCss(this.collectCandidates([], null), this.rootCustomProperties), customProperties: this.rootCustomProperties };
+    }
+
+    const parentProperties = path[path.length - 2]?.customProperties ?? this.rootCustomProperties;
+    const candidates = this.collectCandidates(path, inlineStyle);
+    const customProperties = this.resolveCustomProperties(candidates, parentProperties);
+    return { css: this.toCss(candidates, customProperties), customProperties };
+  }
+
+  /**
+   * Gather the declarations of matching rules, and the inline declarations that compete with them
+   */
+  private collectCandidates(path: StyledElement[], inlineStyle: string | null): CascadeCandidate[] {
+    const candidates: CascadeCandidate[] = [];
+    let order = 0;
+    for (const rule of this.rules) {
+      const specificity = rule.selectors
+        .filter(selector => this.matches(selector, path))
+        .map(selector => selector.specificity)
+        .reduce<[number, number, number] | null>((best, next) => best && this.compareSpecificity(best, next) >= 0 ? best : next, null);
+      if (specificity) {
+        candidates.push(...rule.declarations.map(declaration => ({ ...declaration, inline: false, specificity, order: order++ })));
+      } else {
+        order += rule.declarations.length;
+      }
+    }
+
+    if (inlineStyle) {
+      const fromSheet = new Set(candidates.map(candidate => candidate.property));
+      for (const declaration of this.parseDeclarations(inlineStyle)) {
+        if (fromSheet.has(declaration.property) || declaration.property.startsWith('--') || declaration.value.includes('var(')) {
+          candidates.push({ ...declaration, inline: true, specificity: [0, 0, 0], order: order++ });
+        }
+      }
+    }
+    return candidates;
+  }
+
+  /**
+   * Inherit the parent's custom properties and apply the element's own
+   */
+  private resolveCustomProperties(candidates: CascadeCandidate[], inherited: ReadonlyMap<string, string>): Map<string, string> {
+    const customProperties = new Map(inherited);
+    for (const [property, value] of this.pickWinners(candidates.filter(candidate => candidate.property.startsWith('--')))) {
+      const resolved = this.substituteVariables(value, customProperties);
+      if (resolved === null) {
+        customProperties.delete(property);
+      } else {
+        customProperties.set(property, resolved);
+      }
+    }
+    return customProperties;
+  }
+
+  /**
+   * Serialize the winning regular declarations, dropping those with unresolvable `var()` references
+   */
+  private toCss(candidates: CascadeCandidate[], customProperties: ReadonlyMap<string, string>): string {
+    const declarations: string[] = [];
+    for (const [property, value] of this.pickWinners(candidates.filter(candidate => !candidate.property.startsWith('--')))) {
+      const resolved = this.substituteVariables(value, customProperties);
+      if (resolved !== null) {
+        declarations.push(`${property}: ${resolved}`);
+      }
+    }
+    return declarations.join('; ');
+  }
+
+  /**
+   * Pick the winning value of each property: important over normal, inline over the style
+   * sheet, then higher specificity, then later in source order
+   */
+  private pickWinners(candidates: CascadeCandidate[]): Map<string, string> {
+    const winners = new Map<string, CascadeCandidate>();
+    for (const candidate of candidates) {
+      const current = winners.get(candidate.property);
+      if (!current || this.compareCandidates(candidate, current) >= 0) {
+        winners.set(candidate.property, candidate);
+      }
+    }
+    return new Map([...winners].map(([property, candidate]) => [property, candidate.value]));
+  }
+
+  private compareCandidates(a: CascadeCandidate, b: CascadeCandidate): number {
+    return Number(a.important) - Number(b.important)
+      || Number(a.inline) - Number(b.inline)
+      || this.compareSpecificity(a.specificity, b.specificity)
+      || a.order - b.order;
+  }
+
+  private compareSpecificity(a: [number, number, number], b: [number, number, number]): number {
+    return a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+  }
+
+  /**
+   * Replace `var(--name, fallback)` references; null if one has neither a value nor a fallback
+   */
+  private substituteVariables(value: string, customProperties: ReadonlyMap<string, string>): string | null {
+    let result = value;
+    // Innermost references first, so fallbacks may contain references themselves
+    const reference = /var\(\s*(--[\w-]+)\s*(?:,\s*([^()]*))?\)/i;
+    for (let match = reference.exec(result); match; match = reference.exec(result)) {
+      const replacement = customProperties.get((match[1] ?? '').toLowerCase()) ?? match[2]?.trim();
+      if (replacement === undefined) return null;
+      result = result.slice(0, match.index) + replacement + result.slice(match.index + match[0].length);
+    }
+    return result;
+  }
+
+  /**
+   * Check if a selector matches the last element of a path (the document root if it is empty)
+   */
+  private matches(selector: Selector, path: StyledElement[]): boolean {
+    const { compounds } = selector;
+    let index = path.length - 1;
+    for (let i = compounds.length - 1; i >= 0; i--) {
+      const compound = compounds[i];
+      if (!compound) return false;
+      if (i === compounds.length - 1) {
+        // The rightmost compound must match the element itself
+        if (!this.matchesAt(compound, path, index)) return false;
+      } else {
+        // Any ancestor may match the other compounds, from the inside out
+        while (index >= -1 && !this.matchesAt(compound, path, index)) {
+          index--;
+        }
+        if (index < -1) return false;
+      }
+      index--;
+    }
+    return true;
+  }
+
+  /**
+   * Check if a compound matches the element at an index of the path; index -1 is the document root
+   */
+  private matchesAt(compound: CompoundSelector, path: StyledElement[], index: number): boolean {
+    const element = path[index];
+    if (!element) {
+      return index === -1 && compound.root;
+    }
+    return !compound.root &&
+      (compound.tagName === null || compound.tagName === element.tagName) &&
+      compound.ids.every(id => id === element.id) &&
+      compound.classes.every(className => element.classes.includes(className));
+  }
+
+  /**
+   * Parse a selector of compounds and descendant combinators, or null if it uses anything else
+   */
+  private parseSelector(text: string): Selector | null {
+    const compounds: CompoundSelector[] = [];
+    const specificity: [number, number, number] = [0, 0, 0];
+
+    for (const part of text.split(/\s+/)) {
+      if (part === ':root') {
+        compounds.push({ root: true, tagName: null, ids: [], classes: [] });
+        specificity[1]++;
+        continue;
+      }
+
+      const match = part.match(/^(\*|[a-zA-Z][\w-]*)?((?:[.#][\w-]+)*)$/);
+      if (!match || !part) return null;
+
+      const tagName = match[1] && match[1] !== '*' ? match[1].toLowerCase() : null;
+      const ids = (match[2] ?? '').match(/#[\w-]+/g)?.map(id => id.slice(1)) ?? [];
+      const classes = (match[2] ?? '').match(/\.[\w-]+/g)?.map(className => className.slice(1)) ?? [];
+      compounds.push({ root: false, tagName, ids, classes });
+      specificity[0] += ids.length;
+      specificity[1] += classes.length;
+      specificity[2] += tagName ? 1 : 0;
+    }
+
+    return { compounds, specificity };
+  }
+
+  /**
+   * Split declarations and their `!important` flags
+   */
+  private parseDeclarations(body: string): StyleDeclaration[] {
+    return StyleHelpers.parseDeclarations(body).map(({ property, value }) => {
+      const important = /!\s*important$/i.test(value);
+      return { property, value: important ? value.replace(/\s*!\s*important$/i, '') : value, important };
+    });
+  }
+
+  /**
+   * Split a style sheet into top-level blocks, skipping the nested blocks of at-rules
+   */
+  private splitBlocks(css: string): Array<{ prelude: string; body: string }> {
+    const blocks: Array<{ prelude: string; body: string }> = [];
+    let position = 0;
+
+    while (position < css.length) {
+      const open = css.indexOf('{', position);
+      const semicolon = css.indexOf(';', position);
+
+      // Statement at-rules such as `@import url(x);` have no block
+      if (semicolon !== -1 && (open === -1 || semicolon < open) && css.slice(position, semicolon).trim().startsWith('@')) {
+        blocks.push({ prelude: css.slice(position, semicolon).trim(), body: '' });
+        position = semicolon + 1;
+        continue;
+      }
+      if (open === -1) break;
+
+      let depth = 1;
+      let close = open + 1;
+      for (; close < css.length && depth > 0; close++) {
+        if (css[close] === '{') depth++;
+        if (css[close] === '}') depth--;
+      }
+      blocks.push({ prelude: css.slice(position, open).trim(), body: css.slice(open + 1, close - 1) });
+      position = close;
+    }
+
+    return blocks;
+  }
+}
@@ -0,0 +1,376 @@
+import { HTMLToken, Diagnostic, DiagnosticCode } from './types';
+import { DiagnosticHelpers } from './helpers/diagnostics';
+
+/**
+ * Element that is currently open while balancing
+ */
+export interface OpenElement {
+  tagName: string;
+  attributes: string;
+  /** Source range of the start tag that opened the element */
+  start: number;
+  end: number;
+}
+
+/**
+ * Mutable state for a single balancing pass, kept between `push` calls when balancing a stream
+ */
+export interface BalancerState {
+  output: HTMLToken[];
+  warnings: string[];
+  diagnostics: Diagnostic[];
+  stack: OpenElement[];
+  /** Formatting elements closed by misnesting that are reopened before the next content */
+  pendingFormatting: OpenElement[];
+}
+
+/**
+ * Result of balancing a token stream
+ */
+export interface BalanceResult {
+  /** Token stream in which every start tag has a matching end tag */
+  tokens: HTMLToken[];
+  /** Recoverable structure problems that were repaired */
+  warnings: string[];
+  /** The same problems with codes and source ranges (one per unclosed element) */
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * Repairs the tag structure of a token stream the way HTML5 browsers do, in a reduced form:
+ * - optional end tags of `p`, `li`, `dt`, `dd`, `tr`, `td`, `th` (and table sections) are implied
+ *   by the start tags and parent end tags that close them
+ * - end tags that skip over open elements close those elements, and formatting elements
+ *   (`b`, `i`, `a`, ...) closed that way are reopened before the following content
+ *   ("adoption agency lite": `<b>1<i>2</b>3</i>` renders "3" italic)
+ * - stray end tags are dropped and anything still open at the end of input is closed
+ *
+ * Inserted tokens are marked `implied` and are zero-width at the position that triggered them.
+ */
+export class TagBalancer {
+  /** Elements that never have content or an end tag */
+  public static readonly VOID_TAGS: ReadonlySet<string> = new Set([
+    'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'
+  ]);
+
+  /** Elements whose end tag may be omitted without a warning */
+  private static readonly OPTIONAL_END_TAGS = new Set([
+    'p', 'li', 'dt', 'dd', 'tr', 'td', 'th', 'thead', 'tbody', 'tfoot'
+  ]);
+
+  /** Start tags that close an open `<p>` */
+  private static readonly CLOSES_PARAGRAPH = new Set([
+    'address', 'article', 'aside', 'blockquote', 'dd', 'details', 'dialog', 'div', 'dl', 'dt',
+    'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+    'header', 'hgroup', 'hr', 'li', 'main', 'menu', 'nav', 'ol', 'p', 'pre', 'section', 'summary',
+    'table', 'ul'
+  ]);
+
+  /** Formatting elements that are reopened after being closed by misnested markup */
+  private static readonly FORMATTING_TAGS = new Set([
+    'a', 'b', 'big', 'code', 'em', 'font', 'i', 'nobr', 's', 'small', 'strike', 'strong', 'tt', 'u'
+  ]);
+
+  /** Elements that bound the search for an element to close */
+  private static readonly SCOPE_BOUNDARIES = new Set([
+    'applet', 'button', 'caption', 'html', 'marquee', 'object', 'table', 'td', 'template', 'th'
+  ]);
+
+  private static readonly LIST_ITEM_BOUNDARIES = new Set([...TagBalancer.SCOPE_BOUNDARIES, 'ol', 'ul']);
+  private static readonly DEFINITION_BOUNDARIES = new Set([...TagBalancer.SCOPE_BOUNDARIES, 'dl']);
+  private static readonly TABLE_SECTION_BOUNDARIES = new Set(['html', 'table', 'template']);
+  private static readonly TABLE_ROW_BOUNDARIES = new Set([...TagBalancer.TABLE_SECTION_BOUNDARIES, 'thead', 'tbody', 'tfoot']);
+  private static readonly TABLE_CELL_BOUNDARIES = new Set([...TagBalancer.TABLE_ROW_BOUNDARIES, 'tr']);
+
+  /**
+   * Balance a token stream produced by HTMLTokenizer
+   *
+   * @param tokens - Tokens in source order
+   * @returns Balanced tokens and the warnings for every repair made
+   */
+  public balance(tokens: HTMLToken[]): BalanceResult {
+    const state = this.createState();
+    this.push(state, tokens);
+
+    const end = tokens.length > 0 ? tokens[tokens.length - 1]?.end ?? 0 : 0;
+    this.finish(state, end);
+
+    return { tokens: state.output, warnings: state.warnings, diagnostics: state.diagnostics };
+  }
+
+  /**
+   * Create the state for balancing a token stream that arrives in pieces
+   */
+  public createState(): BalancerState {
+    return { output: [], warnings: [], diagnostics: [], stack: [], pendingFormatting: [] };
+  }
+
+  /**
+   * Balance the next tokens of a stream
+   *
+   * @param state - State from createState, carried across calls
+   * @param tokens - Next tokens in source order
+   * @returns Balanced tokens produced for these tokens (also appended to `state.output`)
+   */
+  public push(state: BalancerState, tokens: HTMLToken[]): HTMLToken[] {
+    const outputStart = state.output.length;
+
+    for (const token of tokens) {
+      switch (token.type) {
+        case 'start-tag':
+        case 'self-closing-tag':
+          this.handleStartTag(state, token);
+          break;
+        case 'end-tag':
+          this.handleEndTag(state, token);
+          break;
+        case 'text':
+          if (token.text?.trim()) {
+            this.reopenFormatting(state, token.start);
+          }
+          state.output.push(token);
+          break;
+        default:
+          state.output.push(token);
+      }
+    }
+
+    return state.output.slice(outputStart);
+  }
+
+  /**
+   * End of input: close whatever is still open
+   *
+   * @param state - State of the stream being balanced
+   * @param end - Source offset of the end of input, where implied end tags are placed
+   * @returns Implied end tags produced (also appended to `state.output`)
+   */
+  public finish(state: BalancerState, end: number): HTMLToken[] {
+    const outputStart = state.output.length;
+
+    const unclosed = state.stack.filter(element => !TagBalancer.OPTIONAL_END_TAGS.has(element.tagName));
+    if (unclosed.length > 0) {
+      state.warnings.push(`Unclosed tags: ${unclosed.map(element => element.tagName).join(', ')}`);
+      for (const element of unclosed) {
+        state.diagnostics.push(DiagnosticHelpers.create(
+          'unclosed-tag', 'warning', `Unclosed tag: <${element.tagName}>`, element.tagName,
+          { start: element.start, end: element.end }
+        ));
+      }
+    }
+
+    while (state.stack.length > 0) {
+      const element = state.stack.pop();
+      if (element) {
+        state.output.push(this.createImpliedEndTag(element.tagName, end));
+      }
+    }
+
+    return state.output.slice(outputStart);
+  }
+
+  /**
+   * Check if a tag is a void element
+   */
+  public static isVoidTag(tagName: string): boolean {
+    return TagBalancer.VOID_TAGS.has(tagName.toLowerCase());
+  }
+
+  private handleStartTag(state: BalancerState, token: HTMLToken): void {
+    const tagName = token.tagName ?? '';
+
+    // Optional end tags implied by this start tag
+    if (TagBalancer.CLOSES_PARAGRAPH.has(tagName)) {
+      this.closeInScope(state, ['p'], TagBalancer.SCOPE_BOUNDARIES, token);
+    }
+    if (tagName === 'li') {
+      this.closeInScope(state, ['li'], TagBalancer.LIST_ITEM_BOUNDARIES, token);
+    } else if (tagName === 'dt' || tagName === 'dd') {
+      this.closeInScope(state, ['dt', 'dd'], TagBalancer.DEFINITION_BOUNDARIES, token);
+    } else if (tagName === 'thead' || tagName === 'tbody' || tagName === 'tfoot') {
+      this.closeInScope(state, ['thead', 'tbody', 'tfoot'], TagBalancer.TABLE_SECTION_BOUNDARIES, token);
+    } else if (tagName === 'tr') {
+      this.closeInScope(state, ['tr'], TagBalancer.TABLE_ROW_BOUNDARIES, token);
+    } else if (tagName === 'td' || tagName === 'th') {
+      this.closeInScope(state, ['td', 'th'], TagBalancer.TABLE_CELL_BOUNDARIES, token);
+    }
+
+    // Block-level starts keep pending formatting for their content; inline starts get it first
+    if (!TagBalancer.CLOSES_PARAGRAPH.has(tagName) && !TagBalancer.OPTIONAL_END_TAGS.has(tagName)) {
+      this.reopenFormatting(state, token.start);
+    }
+
+    state.output.push(token);
+
+    if (TagBalancer.VOID_TAGS.has(tagName)) {
+      return;
+    }
+
+    if (token.type === 'self-closing-tag') {
+      // `<span/>` on a non-void element opens and immediately closes it
+      state.output.push(this.createImpliedEndTag(tagName, token.end));
+      return;
+    }
+
+    state.stack.push({ tagName, attributes: token.attributes ?? '', start: token.start, end: token.end });
+  }
+
+  private handleEndTag(state: BalancerState, token: HTMLToken): void {
+    const tagName = token.tagName ?? '';
+
+    if (TagBalancer.VOID_TAGS.has(tagName)) {
+      if (tagName === 'br') {
+        // Browsers treat `</br>` as `<br>`
+        this.report(state, 'unexpected-end-tag', 'Unexpected closing tag </br> treated as <br>', token);
+        state.output.push({ ...token, type: 'start-tag', attributes: '' });
+      } else {
+        this.report(state, 'unexpected-end-tag', `Unexpected closing tag for void element: </${tagName}>`, token);
+      }
+      return;
+    }
+
+    const index = this.findInScope(state.stack, [tagName], TagBalancer.getEndTagBoundaries(tagName));
+    if (index === -1) {
+      const pendingIndex = state.pendingFormatting.findIndex(element => element.tagName === tagName);
+      if (pendingIndex !== -1) {
+        // Closing a formatting element that was waiting to be reopened
+        state.pendingFormatting.splice(pendingIndex, 1);
+      } else {
+        this.report(state, 'mismatched-end-tag', `Mismatched closing tag: </${tagName}>`, token);
+      }
+      return;
+    }
+
+    const closedAbove = state.stack.slice(index + 1).map(element => element.tagName);
+    const misnested = closedAbove.filter(name => !TagBalancer.OPTIONAL_END_TAGS.has(name));
+    if (misnested.length > 0) {
+      this.report(
+        state,
+        'mismatched-end-tag',
+        `Mismatched closing tag: </${tagName}> (implicitly closed ${misnested.map(name => `<${name}>`).join(', ')})`,
+        token
+      );
+    }
+
+    this.closeElementAt(state, index, token.start, false);
+    state.output.push(token);
+  }
+
+  /**
+   * Elements that bound the search for the element an end tag closes: the end tags of tables,
+   * their sections and rows close the cells and rows still open inside them
+   */
+  private static getEndTagBoundaries(tagName: string): ReadonlySet<string> {
+    switch (tagName) {
+      case 'table':
+      case 'thead':
+      case 'tbody':
+      case 'tfoot':
+        return TagBalancer.TABLE_SECTION_BOUNDARIES;
+      case 'tr':
+        return TagBalancer.TABLE_ROW_BOUNDARIES;
+      default:
+        return TagBalancer.SCOPE_BOUNDARIES;
+    }
+  }
+
+  /**
+   * Close the nearest element with one of the given names, unless a boundary element is found first
+   */
+  private closeInScope(state: BalancerState, tagNames: string[], boundaries: ReadonlySet<string>, trigger: HTMLToken): void {
+    const index = this.findInScope(state.stack, tagNames, boundaries);
+    if (index === -1) return;
+
+    const misnested = state.stack
+      .slice(index + 1)
+      .map(element => element.tagName)
+      .filter(name => !TagBalancer.OPTIONAL_END_TAGS.has(name) && !TagBalancer.FORMATTING_TAGS.has(name));
+    if (misnested.length > 0) {
+      this.report(
+        state,
+        'implicitly-closed-tag',
+        `Implicitly closed ${misnested.map(name => `<${name}>`).join(', ')} before <${trigger.tagName ?? ''}>`,
+        trigger
+      );
+    }
+
+    this.closeElementAt(state, index, trigger.start, true);
+  }
+
+  /**
+   * Find an open element by name searching from the current node down to the first boundary
+   */
+  private findInScope(stack: OpenElement[], tagNames: string[], boundaries: ReadonlySet<string>): number {
+    for (let i = stack.length - 1; i >= 0; i--) {
+      const element = stack[i];
+      if (!element) continue;
+
+      if (tagNames.includes(element.tagName)) {
+        return i;
+      }
+      if (boundaries.has(element.tagName)) {
+        return -1;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Pop the element at the given stack index and everything opened after it.
+   * Formatting elements opened after it are queued to be reopened.
+   *
+   * @param includeTarget - Whether to emit an implied end tag for the element itself
+   */
+  private closeElementAt(state: BalancerState, index: number, position: number, includeTarget: boolean): void {
+    const reopen: OpenElement[] = [];
+
+    while (state.stack.length - 1 > index) {
+      const element = state.stack.pop();
+      if (!element) break;
+
+      state.output.push(this.createImpliedEndTag(element.tagName, position));
+      if (TagBalancer.FORMATTING_TAGS.has(element.tagName)) {
+        reopen.unshift(element);
+      }
+    }
+
+    const target = state.stack.pop();
+    if (target && includeTarget) {
+      state.output.push(this.createImpliedEndTag(target.tagName, position));
+    }
+
+    state.pendingFormatting.push(...reopen);
+  }
+
+  /**
+   * Reopen formatting elements that were closed by misnested markup
+   */
+  private reopenFormatting(state: BalancerState, position: number): void {
+    for (const element of state.pendingFormatting) {
+      state.output.push({
+        type: 'start-tag',
+        tagName: element.tagName,
+        attributes: element.attributes,
+        start: position,
+        end: position,
+        implied: true
+      });
+      state.stack.push(element);
+    }
+    state.pendingFormatting = [];
+  }
+
+  /**
+   * Record a repair as both a warning message and a diagnostic at the token that caused it
+   */
+  private report(state: BalancerState, code: DiagnosticCode, message: string, token: HTMLToken): void {
+    state.warnings.push(message);
+    state.diagnostics.push(DiagnosticHelpers.create(
+      code, 'warning', message, token.tagName, { start: token.start, end: token.end }
+    ));
+  }
+
+  private createImpliedEndTag(tagName: string, position: number): HTMLToken {
+    return { type: 'end-tag', tagName, start: position, end: position, implied: true };
+  }
+}
@@ -0,0 +1,356 @@
+import { HTMLToken, HTMLTokenType } from './types';
+
+/**
+ * Internal states of the tokenizer state machine (a subset of the HTML5 tokenizer states)
+ */
+type TokenizerState =
+  | 'data'
+  | 'raw-text'
+  | 'tag-open'
+  | 'end-tag-open'
+  | 'tag-name'
+  | 'before-attribute-name'
+  | 'attribute-name'
+  | 'after-attribute-name'
+  | 'before-attribute-value'
+  | 'attribute-value-double-quoted'
+  | 'attribute-value-single-quoted'
+  | 'attribute-value-unquoted'
+  | 'after-attribute-value-quoted'
+  | 'self-closing-start-tag'
+  | 'markup-declaration-open'
+  | 'comment'
+  | 'bogus-comment'
+  | 'doctype'
+  | 'cdata';
+
+/**
+ * State-machine HTML tokenizer
+ *
+ * Emits start, end, self-closing, text, comment and doctype tokens with the
+ * source offsets they were read from. Follows the HTML5 tokenizer closely enough
+ * to cope with CMS and email-editor exports:
+ * - attribute values may contain `>` and either quote style
+ * - `<!-- comments -->`, `<!DOCTYPE>` and `<?processing instructions?>` never leak into text
+ * - `<![CDATA[...]]>` is treated as a comment, as browsers do in HTML content
+ * - `<br/>` style self-closing syntax is reported as a `self-closing-tag` token
+ * - the contents of `<script>`, `<style>`, `<textarea>`, `<title>` and `<xmp>` are raw text
+ * - a `<` that does not start a tag stays part of the surrounding text
+ */
+export class HTMLTokenizer {
+  /** Elements whose content is not parsed for markup */
+  private static readonly RAW_TEXT_TAGS = new Set(['script', 'style', 'textarea', 'title', 'xmp']);
+
+  /**
+   * Split an HTML string into tokens
+   *
+   * @param html - HTML source
+   * @returns Tokens in source order
+   */
+  public tokenize(html: string): HTMLToken[] {
+    const tokens: HTMLToken[] = [];
+
+    let state: TokenizerState = 'data';
+    let textStart = 0;      // Start of the pending text run
+    let tokenStart = 0;     // Offset of the `<` that opened the current markup
+    let contentStart = 0;   // Start of comment/doctype content or of the attribute source
+    let tagName = '';
+    let isEndTag = false;
+    let rawTextTag: string | null = null;
+
+    const flushText = (end: number): void => {
+      if (end > textStart) {
+        tokens.push({ type: 'text', text: html.slice(textStart, end), start: textStart, end });
+      }
+    };
+
+    const emit = (type: HTMLTokenType, end: number, fields: Partial<HTMLToken>): void => {
+      flushText(tokenStart);
+      tokens.push({ type, ...fields, start: tokenStart, end });
+      textStart = end;
+    };
+
+    const emitTag = (closeIndex: number, selfClosing: boolean): TokenizerState => {
+      const name = tagName.toLowerCase();
+      // Attribute source runs up to the `/` of `/>` or the closing `>`
+      const attributeEnd = selfClosing ? closeIndex - 1 : closeIndex;
+
+      if (isEndTag) {
+        emit('end-tag', closeIndex + 1, { tagName: name });
+        // The only end tag recognised inside raw text is the one that closes it
+        rawTextTag = null;
+        return 'data';
+      }
+
+      emit(selfClosing ? 'self-closing-tag' : 'start-tag', closeIndex + 1, {
+        tagName: name,
+        attributes: contentStart < attributeEnd ? html.slice(contentStart, attributeEnd) : ''
+      });
+
+      if (!selfClosing && HTMLTokenizer.RAW_TEXT_TAGS.has(name)) {
+        rawTextTag = name;
+        return 'raw-text';
+      }
+      return 'data';
+    };
+
+    for (let i = 0; i < html.length; i++) {
+      const ch = html.charAt(i);
+
+      switch (state) {
+        case 'data':
+          if (ch === '<') {
+            tokenStart = i;
+            state = 'tag-open';
+          }
+          break;
+
+        case 'raw-text':
+          if (ch === '<' && rawTextTag && this.isRawTextEnd(html, i, rawTextTag)) {
+            tokenStart = i;
+            state = 'end-tag-open';
+            i++; // Skip the '/'
+          }
+          break;
+
+        case 'tag-open':
+          if (ch === '/') {
+            state = 'end-tag-open';
+          } else if (ch === '!') {
+            state = 'markup-declaration-open';
+          } else if (ch === '?') {
+            contentStart = i;
+            state = 'bogus-comment';
+          } else if (this.isAsciiLetter(ch)) {
+            tagName = ch;
+            isEndTag = false;
+            state = 'tag-name';
+          } else {
+            // Not a tag: the '<' stays part of the text run
+            state = 'data';
+            i--;
+          }
+          break;
+
+        case 'end-tag-open':
+          if (this.isAsciiLetter(ch)) {
+            tagName = ch;
+            isEndTag = true;
+            state = 'tag-name';
+          } else if (ch === '>') {
+            // `</>` is dropped entirely
+            flushText(tokenStart);
+            textStart = i + 1;
+            state = 'data';
+          } else {
+            contentStart = i;
+            state = 'bogus-comment';
+          }
+          break;
+
+        case 'tag-name':
+          if (this.isWhitespace(ch)) {
+            contentStart = i;
+            state = 'before-attribute-name';
+          } else if (ch === '/') {
+            contentStart = i;
+            state = 'self-closing-start-tag';
+          } else if (ch === '>') {
+            contentStart = i;
+            state = emitTag(i, false);
+          } else {
+            tagName += ch;
+          }
+          break;
+
+        case 'before-attribute-name':
+          if (ch === '/') {
+            state = 'self-closing-start-tag';
+          } else if (ch === '>') {
+            state = emitTag(i, false);
+          } else if (!this.isWhitespace(ch)) {
+            state = 'attribute-name';
+          }
+          break;
+
+        case 'attribute-name':
+          if (this.isWhitespace(ch)) {
+            state = 'after-attribute-name';
+          } else if (ch === '/') {
+            state = 'self-closing-start-tag';
+          } else if (ch === '=') {
+            state = 'before-attribute-value';
+          } else if (ch === '>') {
+            state = emitTag(i, false);
+          }
+          break;
+
+        case 'after-attribute-name':
+          if (ch === '/') {
+            state = 'self-closing-start-tag';
+          } else if (ch === '=') {
+            state = 'before-attribute-value';
+          } else if (ch === '>') {
+            state = emitTag(i, false);
+          } else if (!this.isWhitespace(ch)) {
+            state = 'attribute-name';
+          }
+          break;
+
+        case 'before-attribute-value':
+          if (ch === '"') {
+            state = 'attribute-value-double-quoted';
+          } else if (ch === '\'') {
+            state = 'attribute-value-single-quoted';
+          } else if (ch === '>') {
+            state = emitTag(i, false);
+          } else if (!this.isWhitespace(ch)) {
+            state = 'attribute-value-unquoted';
+          }
+          break;
+
+        case 'attribute-value-double-quoted':
+          if (ch === '"') {
+            state = 'after-attribute-value-quoted';
+          }
+          break;
+
+        case 'attribute-value-single-quoted':
+          if (ch === '\'') {
+            state = 'after-attribute-value-quoted';
+          }
+          break;
+
+        case 'attribute-value-unquoted':
+          if (this.isWhitespace(ch)) {
+            state = 'before-attribute-name';
+          } else if (ch === '>') {
+            state = emitTag(i, false);
+          }
+          break;
+
+        case 'after-attribute-value-quoted':
+          if (this.isWhitespace(ch)) {
+            state = 'before-attribute-name';
+          } else if (ch === '/') {
+            state = 'self-closing-start-tag';
+          } else if (ch === '>') {
+            state = emitTag(i, false);
+          } else {
+            // Missing whitespace between attributes - reprocess as a new attribute name
+            state = 'before-attribute-name';
+            i--;
+          }
+          break;
+
+        case 'self-closing-start-tag':
+          if (ch === '>') {
+            state = emitTag(i, true);
+          } else {
+            state = 'before-attribute-name';
+            i--;
+          }
+          break;
+
+        case 'markup-declaration-open':
+          if (html.startsWith('--', i)) {
+            contentStart = i + 2;
+            state = 'comment';
+            i++;
+          } else if (html.substring(i, i + 7).toUpperCase() === 'DOCTYPE') {
+            contentStart = i + 7;
+            state = 'doctype';
+            i += 6;
+          } else if (html.startsWith('[CDATA[', i)) {
+            contentStart = i + 7;
+            state = 'cdata';
+            i += 6;
+          } else {
+            contentStart = i;
+            state = 'bogus-comment';
+            i--;
+          }
+          break;
+
+        case 'comment':
+          if (html.startsWith('-->', i)) {
+            emit('comment', i + 3, { text: html.slice(contentStart, i) });
+            state = 'data';
+            i += 2;
+          } else if (ch === '>' && (i === contentStart || (i === contentStart + 1 && html.charAt(contentStart) === '-'))) {
+            // Abruptly closed empty comment: `<!-->` or `<!--->`
+            emit('comment', i + 1, { text: '' });
+            state = 'data';
+          }
+          break;
+
+        case 'cdata':
+          if (html.startsWith(']]>', i)) {
+            emit('comment', i + 3, { text: html.slice(contentStart, i) });
+            state = 'data';
+            i += 2;
+          }
+          break;
+
+        case 'bogus-comment':
+          if (ch === '>') {
+            emit('comment', i + 1, { text: html.slice(contentStart, i) });
+            state = 'data';
+          }
+          break;
+
+        case 'doctype':
+          if (ch === '>') {
+            emit('doctype', i + 1, { text: html.slice(contentStart, i).trim() });
+            state = 'data';
+          }
+          break;
+      }
+    }
+
+    // End of input
+    switch (state) {
+      case 'comment':
+      case 'cdata':
+      case 'bogus-comment':
+        emit('comment', html.length, { text: html.slice(contentStart) });
+        break;
+      case 'doctype':
+        emit('doctype', html.length, { text: html.slice(contentStart).trim() });
+        break;
+      default:
+        // Unterminated markup is kept as literal text
+        flushText(html.length);
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Check if a tag's content is raw text (not parsed for markup)
+   */
+  public static isRawTextTag(tagName: string): boolean {
+    return HTMLTokenizer.RAW_TEXT_TAGS.has(tagName.toLowerCase());
+  }
+
+  /**
+   * Check whether the `<` at the given offset starts the end tag of the current raw text element
+   */
+  private isRawTextEnd(html: string, index: number, tagName: string): boolean {
+    if (html.charAt(index + 1) !== '/') return false;
+
+    const nameEnd = index + 2 + tagName.length;
+    if (html.substring(index + 2, nameEnd).toLowerCase() !== tagName) return false;
+
+    const next = html.charAt(nameEnd);
+    return next === '' || next === '>' || next === '/' || this.isWhitespace(next);
+  }
+
+  private isAsciiLetter(ch: string): boolean {
+    return /^[a-zA-Z]$/.test(ch);
+  }
+
+  private isWhitespace(ch: string): boolean {
+    return ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r' || ch === '\f';
+  }
+}
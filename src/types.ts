@@ -1,18 +1,110 @@
+import type { HTMLSanitizer } from './sanitizer';
+import type { DocumentTreeBuilder } from './document-tree';
+import type { Stylesheet, StyledElement } from './stylesheet';
+
+/**
+ * Font weight: `normal` (400), `bold` (700) or any other weight from 1 to 1000
+ */
+export type FontWeight = 'normal' | 'bold' | number;
+
+/**
+ * Line a text decoration draws
+ */
+export type TextDecorationLine = 'underline' | 'overline' | 'line-through';
+
+/**
+ * Text decoration lines, space-separated in the order underline, overline, line-through
+ */
+export type TextDecoration =
+  | 'none'
+  | TextDecorationLine
+  | 'underline overline'
+  | 'underline line-through'
+  | 'overline line-through'
+  | 'underline overline line-through';
+
+/**
+ * How text decoration lines are drawn
+ */
+export type TextDecorationStyle = 'solid' | 'double' | 'dotted' | 'dashed' | 'wavy';
+
+/**
+ * How white space is collapsed and where text may wrap (`normal` if omitted)
+ */
+export type WhiteSpace = 'normal' | 'nowrap' | 'pre' | 'pre-wrap' | 'pre-line' | 'break-spaces';
+
+/**
+ * Padding around a background in px
+ */
+export interface BoxPadding {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
 /**
  * Text styling properties
  */
 export interface TextStyle {
-  fontWeight: 'normal' | 'bold';
+  fontWeight: FontWeight;
   fontStyle: 'normal' | 'italic';
   color: string;
-  textDecoration?: 'none' | 'underline' | 'line-through';
+  opacity?: number; // Alpha of the color from 0 to 1, opaque if omitted
+  textDecoration?: TextDecoration;
+  textDecorationColor?: string; // Color of the decoration lines, the text color if omitted
+  textDecorationStyle?: TextDecorationStyle; // Solid if omitted
+  textDecorationThickness?: number; // Line thickness in px, scaled with the font size if omitted
+  backgroundColor?: string; // Color of the rect drawn behind the text
+  backgroundOpacity?: number; // Alpha of the background color, opaque if omitted
+  backgroundPadding?: BoxPadding; // Space the background extends past the text
+  backgroundRadius?: number; // Corner radius of the background in px
+  borderColor?: string; // Color of the border drawn around the background
+  borderWidth?: number; // Border width in px, no border if omitted
+  boxStart?: number; // Source offset of the start tag of the element that draws the background or border
   fontSize?: number;
+  fontFamily?: string; // CSS font-family list, overrides the fontFamily option
+  lineHeight?: number; // Line height in px, overrides the lineHeight option
+  letterSpacing?: number; // Extra px after every character
+  wordSpacing?: number; // Extra px after every space
+  whiteSpace?: WhiteSpace;
+  tabSize?: number; // Width of a tab stop in spaces, 8 if omitted
   verticalOffset?: number; // Negative for superscript, positive for subscript
   href?: string | undefined; // URL for hyperlinks
   // List context properties
   isListItem?: boolean;
   listNestingLevel?: number;
   listType?: 'ul' | 'ol';
+  // Table context properties
+  tableCell?: TableCell; // Cell of a table the text is in
+  // Blockquote context properties
+  blockquotes?: number[]; // Blockquotes the text is in, numbered per parse from 1, outermost first
+}
+
+/**
+ * Place of a table cell in the grid of its table
+ */
+export interface TableCell {
+  /** Number of the table in the document, from 1 */
+  table: number;
+  /** Row index, from 0 */
+  row: number;
+  /** Column index, from 0, after the cells spanning down from earlier rows */
+  column: number;
+  rowSpan: number;
+  colSpan: number;
+  /** Whether the cell is a header cell (`<th>`) */
+  header: boolean;
+}
+
+/**
+ * Edges of a rectangle in chart coordinates
+ */
+export interface Box {
+  x: number;
+  y: number;
+  x2: number;
+  y2: number;
 }
 
 /**
@@ -24,6 +116,10 @@ export interface TextSegment extends TextStyle {
   hasSpaceAfter?: boolean;
   /** The type of spacing context for this segment */
   spacingContext?: 'tag-to-tag' | 'text-to-tag' | 'tag-to-text' | 'text-to-text' | 'list-prefix';
+  /** Offset of the first character of this text in the HTML source (absent for generated text) */
+  sourceStart?: number;
+  /** Offset just past the last character of this text in the HTML source */
+  sourceEnd?: number;
 }
 
 /**
@@ -34,6 +130,10 @@ export interface PositionedTextSegment extends TextSegment {
   y: number;
   width: number;
   height: number;
+  /** Box of the table cell the text is in, including its padding */
+  cellBox?: Box;
+  /** Horizontal position of the left bar of each of the `blockquotes` the text is in */
+  quoteBarX?: number[];
 }
 
 /**
@@ -44,6 +144,8 @@ export interface HTMLToVegaLiteOptions {
   fontSize?: number;
   /** Font family string */
   fontFamily?: string;
+  /** Font family of code, pre, kbd and samp text (a monospace stack if omitted) */
+  monospaceFontFamily?: string;
   /** Starting X coordinate */
   startX?: number;
   /** Starting Y coordinate */
@@ -54,8 +156,160 @@ export interface HTMLToVegaLiteOptions {
   maxWidth?: number;
   /** Background color */
   background?: string;
+  /** Receives conversion diagnostics from `convert()` (defaults to the console) */
+  logger?: DiagnosticLogger;
+  /** What to do with tags that have no strategy (script and template content is removed by default) */
+  unknownTags?: UnknownTagPolicy;
+  /** Allow-list applied before tag strategies run (no sanitizing if omitted) */
+  sanitize?: SanitizerPolicy;
+  /** Resource limits for untrusted input (no limits if omitted) */
+  limits?: ConversionLimits;
+  /** Default look of tags, headings and lists (`light` if omitted) */
+  theme?: ThemePolicy;
+}
+
+/**
+ * Limit that can be exceeded during a conversion
+ */
+export type LimitName = 'input-length' | 'nesting-depth' | 'segments' | 'processing-time';
+
+/**
+ * Resource limits for a conversion. Each limit is off unless set.
+ */
+export interface ConversionLimits {
+  /** Maximum input length in characters (HTML, Markdown, or the serialized DOM) */
+  maxInputLength?: number;
+  /** Maximum number of nested elements */
+  maxNestingDepth?: number;
+  /** Maximum number of text segments */
+  maxSegments?: number;
+  /** Maximum parse time in milliseconds */
+  maxProcessingTime?: number;
+  /**
+   * What happens when a limit is hit: `truncate` (default) keeps the content that fits and
+   * reports a `limit-exceeded` diagnostic, `throw` throws a LimitExceededError
+   */
+  onLimitExceeded?: 'truncate' | 'throw';
+}
+
+/**
+ * Built-in sanitizer allow-lists:
+ * - `strict`: paragraphs and line breaks only
+ * - `basic-formatting`: inline formatting and links to http(s) and mailto URLs
+ * - `rich`: adds headings, lists, spans, marks and code blocks with color and font CSS
+ */
+export type SanitizerProfileName = 'strict' | 'basic-formatting' | 'rich';
+
+/**
+ * Custom sanitizer allow-list
+ */
+export interface SanitizerConfig {
+  /** Allowed lower-case tag names */
+  tags: string[];
+  /** Allowed attributes by tag name; attributes under `'*'` are allowed on every tag */
+  attributes?: Record<string, string[]>;
+  /** CSS properties allowed in `style` attributes */
+  cssProperties?: string[];
+  /** URL schemes allowed in `href` attributes; relative URLs are always allowed */
+  urlSchemes?: string[];
+}
+
+/**
+ * Sanitizer profile name or custom allow-list
+ */
+export type SanitizerPolicy = SanitizerProfileName | SanitizerConfig;
+
+/**
+ * What the parser does with a tag that has no registered strategy:
+ * - `render-children`: drop the tag but keep its content, with an `unsupported-tag` warning
+ * - `remove`: drop the element together with its content
+ * - `literal`: show the tag markup itself as text
+ * - `error`: throw an UnsupportedTagError
+ */
+export type UnknownTagAction = 'render-children' | 'remove' | 'literal' | 'error';
+
+/**
+ * Per-tag unknown-tag actions on top of the defaults
+ */
+export interface UnknownTagRules {
+  /** Action for unknown tags not listed in `tags` or the defaults (`render-children` if omitted) */
+  default?: UnknownTagAction;
+  /** Actions by lower-case tag name */
+  tags?: Record<string, UnknownTagAction>;
+}
+
+/**
+ * Unknown-tag policy: one action for every unknown tag, or per-tag rules
+ */
+export type UnknownTagPolicy = UnknownTagAction | UnknownTagRules;
+
+/**
+ * Built-in themes:
+ * - `light`: colored links and code on a transparent background
+ * - `dark`: light text and brighter accents on a dark background
+ * - `print`: black text on white, with links and code told apart by decoration only
+ */
+export type ThemePresetName = 'light' | 'dark' | 'print';
+
+/**
+ * Heading tag name
+ */
+export type HeadingTag = 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6';
+
+/**
+ * Custom theme; settings left out come from the preset it extends
+ */
+export interface Theme {
+  /** Preset to start from (`light` if omitted) */
+  extends?: ThemePresetName;
+  /** Color of text that has no color of its own */
+  textColor?: string;
+  /** Chart background, unless the `background` option is set */
+  background?: string;
+  /** Styles by lower-case tag name, applied over what the tag's strategy sets */
+  tags?: Record<string, Partial<TextStyle>>;
+  /** Heading font sizes as multiples of the base `fontSize` */
+  headingScale?: Partial<Record<HeadingTag, number>>;
+  /** Space below a heading block as a multiple of its font size */
+  headingSpacing?: number;
+  /** Indentation per list nesting level in pixels */
+  listIndent?: number;
+  /** Color of the table cell borders */
+  tableBorderColor?: string;
+  /** Background of table header cells */
+  tableHeaderBackground?: string;
+  /** Indentation per blockquote nesting level in pixels */
+  quoteIndent?: number;
+  /** Color of the bar along the left edge of a blockquote */
+  quoteBarColor?: string;
+}
+
+/**
+ * Theme preset name or custom theme
+ */
+export type ThemePolicy = ThemePresetName | Theme;
+
+/**
+ * Theme with every setting filled in
+ */
+export interface ResolvedTheme {
+  textColor: string;
+  background: string;
+  tags: Record<string, Partial<TextStyle>>;
+  headingScale: Record<HeadingTag, number>;
+  headingSpacing: number;
+  listIndent: number;
+  tableBorderColor: string;
+  tableHeaderBackground: string;
+  quoteIndent: number;
+  quoteBarColor: string;
 }
 
+/**
+ * Options that change how a document is parsed
+ */
+export type ParseOptions = Pick<HTMLToVegaLiteOptions, 'unknownTags' | 'sanitize' | 'limits' | 'theme' | 'fontSize' | 'monospaceFontFamily'>;
+
 /**
  * Text measurement result
  */
@@ -75,6 +329,9 @@ export interface VegaLiteLayerData {
   width?: number;
   height?: number;
   href?: string | undefined;
+  /** Source offsets of the rendered text, for mapping marks back to the HTML */
+  sourceStart?: number;
+  sourceEnd?: number;
 }
 
 /**
@@ -94,9 +351,11 @@ export interface VegaLiteTextMark {
   type: 'text';
   fontSize?: number;
   fontFamily?: string;
-  fontWeight?: 'normal' | 'bold';
+  fontWeight?: FontWeight;
   fontStyle?: 'normal' | 'italic';
   color?: string;
+  opacity?: number;
+  lineHeight?: number;
   align?: 'left' | 'center' | 'right';
   baseline?: 'top' | 'middle' | 'bottom';
 }
@@ -107,7 +366,32 @@ export interface VegaLiteTextMark {
 export interface VegaLiteRuleMark {
   type: 'rule';
   color?: string;
+  opacity?: number;
+  strokeWidth?: number;
+  strokeDash?: number[];
+}
+
+/**
+ * Rect mark specification for text backgrounds
+ */
+export interface VegaLiteRectMark {
+  type: 'rect';
+  color?: string;
+  fillOpacity?: number;
+  stroke?: string;
   strokeWidth?: number;
+  cornerRadius?: number;
+}
+
+/**
+ * Line mark specification for wavy decorations
+ */
+export interface VegaLiteLineMark {
+  type: 'line';
+  color?: string;
+  opacity?: number;
+  strokeWidth?: number;
+  interpolate?: 'linear' | 'monotone' | 'basis';
 }
 
 /**
@@ -217,12 +501,188 @@ export interface StyleGroup {
  */
 export type SupportedHTMLTag = 'b' | 'strong' | 'i' | 'em' | 'u' | 'span';
 
+/**
+ * Kind of token emitted by the HTML tokenizer
+ */
+export type HTMLTokenType = 'start-tag' | 'end-tag' | 'self-closing-tag' | 'text' | 'comment' | 'doctype';
+
+/**
+ * Token emitted by the HTML tokenizer, with its source offsets
+ */
+export interface HTMLToken {
+  type: HTMLTokenType;
+  /** Lower-cased tag name (tag tokens only) */
+  tagName?: string;
+  /** Raw attribute source between the tag name and the closing `>` (start and self-closing tags only) */
+  attributes?: string;
+  /** Content of text, comment and doctype tokens */
+  text?: string;
+  /** Offset of the first character of the token in the source */
+  start: number;
+  /** Offset just past the last character of the token in the source */
+  end: number;
+  /** Set on tags inserted by TagBalancer rather than read from the source */
+  implied?: boolean;
+}
+
+/**
+ * Balanced tokens built from input other than an HTML string (a DOM tree, Markdown),
+ * with the canonical HTML that their offsets refer to
+ */
+export interface TokenizedDocument {
+  /** Balanced tokens, one start and end tag per element (start tag only for void elements) */
+  tokens: HTMLToken[];
+  /** Canonical HTML for the input; token offsets refer to it */
+  source: string;
+}
+
+/**
+ * How serious a diagnostic is: errors lose content, warnings are recovered, info is advisory
+ */
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Stable identifiers for diagnostics, safe to match on in client code
+ */
+export type DiagnosticCode =
+  | 'invalid-input'
+  | 'unsupported-tag'
+  | 'unclosed-tag'
+  | 'mismatched-end-tag'
+  | 'implicitly-closed-tag'
+  | 'unexpected-end-tag'
+  | 'invalid-attribute'
+  | 'invalid-css-value'
+  | 'unsupported-css-property'
+  | 'unsupported-css-selector'
+  | 'invalid-url'
+  | 'unsafe-url'
+  | 'disallowed-tag'
+  | 'disallowed-attribute'
+  | 'disallowed-css-property'
+  | 'strategy-error'
+  | 'parse-failure'
+  | 'limit-exceeded'
+  | 'text-overflow'
+  | 'empty-output';
+
+/**
+ * Character range in the HTML source
+ */
+export interface SourceRange {
+  /** Offset of the first character */
+  start: number;
+  /** Offset just past the last character */
+  end: number;
+}
+
+/**
+ * A problem found while converting HTML, with enough context to point at the source
+ */
+export interface Diagnostic {
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
+  message: string;
+  /** Tag the diagnostic is about, if any */
+  tagName?: string;
+  /** Source range the diagnostic refers to, if known */
+  range?: SourceRange;
+}
+
+/**
+ * Destination for diagnostics reported by `HTMLToVegaLite.convert()`
+ */
+export interface DiagnosticLogger {
+  warn(message: string, ...details: unknown[]): void;
+}
+
+/**
+ * Result of `HTMLToVegaLite.convertWithDiagnostics()`
+ */
+export interface ConversionResult {
+  spec: VegaLiteSpec;
+  /** Diagnostics from parsing, layout and generation, in pipeline order */
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * Attribute validation result returned by tag strategies
+ */
+export interface ValidationResult {
+  isValid: boolean;
+  errors: string[];
+  /** Structured form of `errors`; derived from the messages when a strategy omits it */
+  diagnostics?: Diagnostic[];
+}
+
 /**
  * Parse result from HTML parser
  */
 export interface ParseResult {
   segments: TextSegment[];
   errors?: string[];
+  /** Recoverable structure problems that were repaired (unclosed or misnested tags) */
+  warnings?: string[];
+  /** Every problem found while parsing, with codes, severities and source ranges */
+  diagnostics?: Diagnostic[];
+  /** Document tree the segments were lowered from; absent when parsing failed */
+  document?: DocumentNode;
+}
+
+/**
+ * Run of text with a single style. The segment carries the style, source offsets and spacing.
+ */
+export interface TextRun {
+  type: 'text';
+  segment: TextSegment;
+}
+
+/**
+ * Forced line break: `<br>`, or the break a block element puts between itself and its neighbours
+ */
+export interface LineBreakNode {
+  type: 'line-break';
+  segment: TextSegment;
+}
+
+/**
+ * Element handled by a tag strategy, with the source range of its start tag
+ */
+interface ElementNodeBase {
+  tagName: string;
+  /** Attribute source after sanitizing */
+  attributes: string;
+  range: SourceRange;
+  children: DocumentContent[];
+}
+
+/**
+ * Block element such as a paragraph, heading, list or list item
+ */
+export interface BlockNode extends ElementNodeBase {
+  type: 'block';
+}
+
+/**
+ * Inline element such as `<b>`, `<a>` or `<span>`. Its children are inline content unless the
+ * markup nests blocks inside it (`<a><p>…</p></a>`).
+ */
+export interface InlineNode extends ElementNodeBase {
+  type: 'inline';
+  /** Set when a block opened somewhere inside the element */
+  containsBlock?: true;
+}
+
+export type InlineContent = InlineNode | TextRun | LineBreakNode;
+export type DocumentContent = BlockNode | InlineContent;
+
+/**
+ * Root of the document tree. Tags without a strategy are not part of the tree; their content is
+ * attached to the nearest element that has one.
+ */
+export interface DocumentNode {
+  type: 'document';
+  children: DocumentContent[];
 }
 
 /**
@@ -237,14 +697,65 @@ export interface ParseContext {
   segments: TextSegment[];
   /** Tag attributes string */
   attributes: string;
+  /** Attributes parsed from `attributes`: lower-case names, decoded values, first occurrence wins */
+  attributeMap: ReadonlyMap<string, string>;
   /** Tag name */
   tagName: string;
   /** Whether this is a closing tag */
   isClosingTag: boolean;
-  /** Remaining content parts after this tag */
-  remainingParts: string[];
-  /** Current index in parts array */
-  currentIndex: number;
+  /** All tokens of the document being parsed */
+  tokens: HTMLToken[];
+  /** Index of the token for this tag in `tokens` */
+  tokenIndex: number;
+  /** Stacks and counters of composite tag families for this parse */
+  compositeState: CompositeState;
+}
+
+/**
+ * Stacks and counters of composite tag families (lists, tables, ...) for one parse
+ */
+export interface CompositeState {
+  /** Open containers of each family, innermost last */
+  stacks: Map<string, string[]>;
+  /** Counters of each family, by counter key */
+  counters: Map<string, Map<string, number>>;
+}
+
+/**
+ * Mutable state of a parse in progress, advanced one token at a time by HTMLParser.processToken
+ */
+export interface ParseState {
+  /** Current text style */
+  currentStyle: TextStyle;
+  /** Style stack for nested tags */
+  styleStack: TextStyle[];
+  /** Segments produced so far, before whitespace normalization and spacing analysis */
+  segments: TextSegment[];
+  errors: string[];
+  diagnostics: Diagnostic[];
+  /** Balanced tokens of the document (grows as a stream is parsed) */
+  tokens: HTMLToken[];
+  options: ParseOptions;
+  /** Sanitizer built from `options.sanitize`, if any */
+  sanitizer: HTMLSanitizer | null;
+  /** Element being removed by the unknown-tag policy, with the nesting depth of its tag name */
+  removedElement: { tagName: string; depth: number } | null;
+  /** Document tree built alongside `segments` */
+  document: DocumentTreeBuilder;
+  /** Stacks and counters of composite tag families */
+  compositeState: CompositeState;
+  /** Number of open elements, for the nesting limit */
+  depth: number;
+  /** `Date.now()` when the parse started, for the time limit */
+  startTime: number;
+  /** Limit that ended the parse early; later tokens are ignored */
+  limitReached: LimitName | null;
+  /** Rules of the `<style>` blocks read so far */
+  stylesheet: Stylesheet;
+  /** Open non-void elements, outermost first, for matching selectors */
+  elementStack: StyledElement[];
+  /** Theme resolved from `options.theme` */
+  theme: ResolvedTheme;
 }
 
 /**
@@ -253,6 +764,12 @@ export interface ParseContext {
 export interface ParsedOutput {
   /** New segments to add */
   newSegments: TextSegment[];
+  /**
+   * Segments that start the content of an opened element, after `newSegments`. The parser draws
+   * them in the final style of the element (with the theme and style sheets applied); the
+   * properties they set win over it.
+   */
+  leadingSegments?: Array<Partial<TextSegment> & Pick<TextSegment, 'text'>>;
   /** Updated style for style stack */
   updatedStyle: TextStyle;
   /** Whether to push this style onto the stack */
@@ -261,4 +778,6 @@ export interface ParsedOutput {
   popFromStyleStack: boolean;
   /** Any validation errors */
   errors: string[];
+  /** Structured diagnostics; the parser fills in the tag name and source range when absent */
+  diagnostics?: Diagnostic[];
 }
\ No newline at end of file
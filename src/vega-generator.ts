@@ -3,8 +3,15 @@ import {
   VegaLiteSpec, 
   VegaLiteLayer, 
   StyleGroup,
-  HTMLToVegaLiteOptions 
+  HTMLToVegaLiteOptions,
+  Diagnostic,
+  ResolvedTheme,
+  TextDecorationLine
 } from './types';
+import { DiagnosticHelpers } from './helpers/diagnostics';
+import { StyleHelpers } from './helpers/style';
+import { ThemeHelpers } from './helpers/theme';
+import { TABLE_BORDER_WIDTH, QUOTE_BAR_WIDTH } from './constants';
 
 /**
  * Vega-Lite specification generator
@@ -12,22 +19,38 @@ import {
 export class VegaLiteGenerator {
   private fontSize: number;
   private fontFamily: string;
+  private theme: ResolvedTheme;
 
   constructor(options: HTMLToVegaLiteOptions = {}) {
     this.fontSize = options.fontSize ?? 14;
     this.fontFamily = options.fontFamily ?? 'Arial, sans-serif';
+    this.theme = ThemeHelpers.resolve(options.theme);
   }
 
   /**
    * Generate complete Vega-Lite specification from positioned text segments
+   * 
+   * @param diagnostics - Optional collector for generation notices such as an empty result
    */
   public generateSpec(
     segments: PositionedTextSegment[], 
     bounds: { width: number; height: number },
-    options: Partial<HTMLToVegaLiteOptions> = {}
+    options: Partial<HTMLToVegaLiteOptions> = {},
+    diagnostics?: Diagnostic[]
   ): VegaLiteSpec {
+    if (diagnostics && segments.length === 0) {
+      diagnostics.push(DiagnosticHelpers.create('empty-output', 'info', 'No visible text to render'));
+    }
+
+    const theme = options.theme !== undefined ? ThemeHelpers.resolve(options.theme) : this.theme;
     const styleGroups = this.groupSegmentsByStyle(segments);
-    const layers = this.createLayers(styleGroups, bounds, options);
+    // Tables, quote bars and backgrounds go first so the text is drawn over them
+    const layers = [
+      ...this.createTableLayers(segments, theme),
+      ...this.createQuoteLayers(segments, theme),
+      ...this.createBackgroundLayers(segments),
+      ...this.createLayers(styleGroups, bounds, options)
+    ];
 
     // Enforce maxWidth constraint if provided
     const finalWidth = options.maxWidth ? 
@@ -38,7 +61,7 @@ export class VegaLiteGenerator {
       $schema: "https://vega.github.io/schema/vega-lite/v5.json",
       width: finalWidth,
       height: bounds.height,
-      background: options.background ?? "transparent",
+      background: options.background ?? theme.background,
       padding: 0,
       autosize: "none",
       config: {
@@ -70,8 +93,14 @@ export class VegaLiteGenerator {
             fontStyle: segment.fontStyle,
             color: segment.color,
             textDecoration: segment.textDecoration ?? 'none',
+            ...(segment.textDecorationColor !== undefined ? { textDecorationColor: segment.textDecorationColor } : {}),
+            ...(segment.textDecorationStyle !== undefined ? { textDecorationStyle: segment.textDecorationStyle } : {}),
+            ...(segment.textDecorationThickness !== undefined ? { textDecorationThickness: segment.textDecorationThickness } : {}),
             fontSize: segment.fontSize ?? this.fontSize,
             href: segment.href ?? undefined,
+            ...(segment.fontFamily !== undefined ? { fontFamily: segment.fontFamily } : {}),
+            ...(segment.lineHeight !== undefined ? { lineHeight: segment.lineHeight } : {}),
+            ...(segment.opacity !== undefined ? { opacity: segment.opacity } : {})
           },
           data: []
         };
@@ -84,7 +113,10 @@ export class VegaLiteGenerator {
         y: segment.y,
         width: segment.width,
         height: segment.height,
-        href: segment.href
+        href: segment.href,
+        ...(segment.sourceStart !== undefined && segment.sourceEnd !== undefined
+          ? { sourceStart: segment.sourceStart, sourceEnd: segment.sourceEnd }
+          : {})
       });
     });
 
@@ -95,7 +127,172 @@ export class VegaLiteGenerator {
    * Create a unique key for style grouping
    */
   private createStyleKey(segment: PositionedTextSegment): string {
-    return `${segment.fontWeight}-${segment.fontStyle}-${segment.color}-${segment.textDecoration ?? 'none'}-${segment.fontSize ?? 'default'}-${segment.href ?? 'no-link'}`;
+    return `${segment.fontWeight}-${segment.fontStyle}-${segment.color}-${segment.textDecoration ?? 'none'}-${segment.fontSize ?? 'default'}-${segment.href ?? 'no-link'}-${segment.fontFamily ?? 'default'}-${segment.lineHeight ?? 'default'}-${segment.opacity ?? 1}-${segment.textDecorationColor ?? 'text'}-${segment.textDecorationStyle ?? 'solid'}-${segment.textDecorationThickness ?? 'auto'}`;
+  }
+
+  /**
+   * Create rect layers for the background colors and borders of segments, one layer per
+   * background style
+   * 
+   * Consecutive segments of the same element (`boxStart`) with the same background on the same
+   * line share a rect, so the gaps between their words are filled and a background that wraps
+   * gets one rect per line; adjacent elements such as two keys get a rect each.
+   */
+  private createBackgroundLayers(segments: PositionedTextSegment[]): any[] {
+    const groups: Record<string, { segment: PositionedTextSegment; fragments: Array<{ id: number; x: number; x2: number; y: number; y2: number }> }> = {};
+    let fragment: { id: number; x: number; x2: number; y: number; y2: number } | null = null;
+    let fragmentKey = '';
+    let fragmentBoxStart: number | undefined;
+
+    segments.forEach((segment, index) => {
+      if (!segment.backgroundColor && !(segment.borderColor && segment.borderWidth)) {
+        fragment = null;
+        return;
+      }
+
+      const key = this.createBackgroundKey(segment);
+      const top = segment.y;
+      const bottom = segment.y + segment.height;
+      // Continue the fragment if the segment follows it on the same line
+      if (fragment && key === fragmentKey && segment.boxStart === fragmentBoxStart && segment.x >= fragment.x2 - 0.5 && top < fragment.y2 && bottom > fragment.y) {
+        fragment.x2 = Math.max(fragment.x2, segment.x + segment.width);
+        fragment.y = Math.min(fragment.y, top);
+        fragment.y2 = Math.max(fragment.y2, bottom);
+        return;
+      }
+
+      fragment = { id: index, x: segment.x, x2: segment.x + segment.width, y: top, y2: bottom };
+      fragmentKey = key;
+      fragmentBoxStart = segment.boxStart;
+      groups[key] ??= { segment, fragments: [] };
+      groups[key].fragments.push(fragment);
+    });
+
+    const axis = { type: 'quantitative', axis: null, scale: null };
+    return Object.values(groups).map(({ segment, fragments }) => {
+      const padding = segment.backgroundPadding ?? { top: 0, right: 0, bottom: 0, left: 0 };
+      return {
+        data: {
+          values: fragments.map(({ id, x, x2, y, y2 }) => ({
+            id,
+            x: x - padding.left,
+            x2: x2 + padding.right,
+            y: y - padding.top,
+            y2: y2 + padding.bottom
+          }))
+        },
+        mark: {
+          type: 'rect',
+          // A border without a background is drawn unfilled
+          ...(segment.backgroundColor ? { color: segment.backgroundColor } : { fillOpacity: 0 }),
+          ...(segment.backgroundColor && segment.backgroundOpacity !== undefined ? { fillOpacity: segment.backgroundOpacity } : {}),
+          ...(segment.borderColor && segment.borderWidth ? { stroke: segment.borderColor, strokeWidth: segment.borderWidth } : {}),
+          ...(segment.backgroundRadius ? { cornerRadius: segment.backgroundRadius } : {})
+        },
+        encoding: {
+          x: { field: 'x', ...axis },
+          x2: { field: 'x2', type: 'quantitative' },
+          y: { field: 'y', ...axis },
+          y2: { field: 'y2', type: 'quantitative' }
+        }
+      };
+    });
+  }
+
+  /**
+   * Create the layers of tables: a rect layer filling header cells with the theme's header
+   * background, and a rule layer drawing the edges of every cell in the theme's border color
+   * 
+   * Each cell is drawn once, from the box its segments share, and edges shared by two
+   * cells are drawn once.
+   */
+  private createTableLayers(segments: PositionedTextSegment[], theme: ResolvedTheme): any[] {
+    const cells = new Map<string, { header: boolean; box: NonNullable<PositionedTextSegment['cellBox']> }>();
+    segments.forEach(segment => {
+      if (!segment.tableCell || !segment.cellBox) return;
+      const { table, row, column, header } = segment.tableCell;
+      const key = `${table}:${row}:${column}`;
+      if (!cells.has(key)) {
+        cells.set(key, { header, box: segment.cellBox });
+      }
+    });
+    if (cells.size === 0) {
+      return [];
+    }
+
+    const edges = new Map<string, { x: number; x2: number; y: number; y2: number }>();
+    const addEdge = (x: number, y: number, x2: number, y2: number) => edges.set(`${x},${y},${x2},${y2}`, { x, x2, y, y2 });
+    cells.forEach(({ box: { x, y, x2, y2 } }) => {
+      addEdge(x, y, x2, y);
+      addEdge(x, y2, x2, y2);
+      addEdge(x, y, x, y2);
+      addEdge(x2, y, x2, y2);
+    });
+
+    const axis = { type: 'quantitative', axis: null, scale: null };
+    const encoding = {
+      x: { field: 'x', ...axis },
+      x2: { field: 'x2', type: 'quantitative' },
+      y: { field: 'y', ...axis },
+      y2: { field: 'y2', type: 'quantitative' }
+    };
+    const headers = [...cells.values()].filter(({ header }) => header).map(({ box }) => box);
+
+    return [
+      ...(headers.length > 0 ? [{
+        data: { values: headers },
+        mark: { type: 'rect', color: theme.tableHeaderBackground },
+        encoding
+      }] : []),
+      {
+        data: { values: [...edges.values()] },
+        mark: { type: 'rule', color: theme.tableBorderColor, strokeWidth: TABLE_BORDER_WIDTH },
+        encoding
+      }
+    ];
+  }
+
+  /**
+   * Create a rule layer drawing the left bar of every blockquote in the theme's quote bar color,
+   * from the top of the first line of its text to the bottom of the last, nested quotes included
+   */
+  private createQuoteLayers(segments: PositionedTextSegment[], theme: ResolvedTheme): any[] {
+    const bars = new Map<number, { x: number; y: number; y2: number }>();
+    segments.forEach(segment => {
+      segment.blockquotes?.forEach((quote, level) => {
+        const x = segment.quoteBarX?.[level];
+        if (x === undefined) return;
+        const bar = bars.get(quote);
+        bars.set(quote, {
+          x,
+          y: Math.min(bar?.y ?? Infinity, segment.y),
+          y2: Math.max(bar?.y2 ?? -Infinity, segment.y + segment.height)
+        });
+      });
+    });
+    if (bars.size === 0) {
+      return [];
+    }
+
+    const axis = { type: 'quantitative', axis: null, scale: null };
+    return [{
+      data: { values: [...bars.values()] },
+      mark: { type: 'rule', color: theme.quoteBarColor, strokeWidth: QUOTE_BAR_WIDTH },
+      encoding: {
+        x: { field: 'x', ...axis },
+        y: { field: 'y', ...axis },
+        y2: { field: 'y2', type: 'quantitative' }
+      }
+    }];
+  }
+
+  /**
+   * Create a unique key for background grouping
+   */
+  private createBackgroundKey(segment: PositionedTextSegment): string {
+    const padding = segment.backgroundPadding;
+    const border = segment.borderColor && segment.borderWidth ? `${segment.borderWidth}px ${segment.borderColor}` : 'none';
+    return `${segment.backgroundColor ?? 'none'}-${segment.backgroundOpacity ?? 1}-${segment.backgroundRadius ?? 0}-${padding ? `${padding.top},${padding.right},${padding.bottom},${padding.left}` : 'none'}-${border}`;
   }
 
   /**
@@ -112,11 +309,9 @@ export class VegaLiteGenerator {
     Object.values(styleGroups).forEach(group => {
       layers.push(this.createLayer(group, bounds, options));
       
-      // Add decoration layers (underline, strikethrough) if needed
-      if (group.style.textDecoration === 'underline') {
-        layers.push(this.createUnderlineLayer(group, bounds, options));
-      } else if (group.style.textDecoration === 'line-through') {
-        layers.push(this.createStrikethroughLayer(group, bounds, options));
+      // Add a layer for each decoration line
+      for (const line of StyleHelpers.getDecorationLines(group.style.textDecoration)) {
+        layers.push(this.createDecorationLayer(group, line, options));
       }
     });
     
@@ -132,7 +327,8 @@ export class VegaLiteGenerator {
     options: Partial<HTMLToVegaLiteOptions> = {}
   ): VegaLiteLayer {
     const baseFontSize = options.fontSize ?? this.fontSize;
-    const fontFamily = options.fontFamily ?? this.fontFamily;
+    // A font family set in CSS wins over the fontFamily option
+    const fontFamily = group.style.fontFamily ?? options.fontFamily ?? this.fontFamily;
     
     // If global fontSize is explicitly overridden in options, use it for all text
     // Otherwise, use group's fontSize if available, then fallback to base
@@ -148,6 +344,8 @@ export class VegaLiteGenerator {
         fontWeight: group.style.fontWeight,
         fontStyle: group.style.fontStyle,
         color: group.style.color,
+        ...(group.style.opacity !== undefined ? { opacity: group.style.opacity } : {}),
+        ...(group.style.lineHeight !== undefined ? { lineHeight: group.style.lineHeight } : {}),
         align: 'left',
         baseline: 'top',
         cursor: group.style.href ? 'pointer' : 'default'
@@ -191,7 +389,7 @@ export class VegaLiteGenerator {
       $schema: "https://vega.github.io/schema/vega-lite/v5.json",
       width: 200,
       height: 50,
-      background: "transparent",
+      background: this.theme.background,
       padding: 0,
       autosize: "none",
       config: {
@@ -205,7 +403,7 @@ export class VegaLiteGenerator {
           fontFamily: this.fontFamily,
           fontWeight: 'normal',
           fontStyle: 'normal',
-          color: '#000000',
+          color: this.theme.textColor,
           align: 'left',
           baseline: 'top'
         },
@@ -241,106 +439,103 @@ export class VegaLiteGenerator {
     if (options.fontFamily !== undefined) {
       this.fontFamily = options.fontFamily;
     }
+    if (options.theme !== undefined) {
+      this.theme = ThemeHelpers.resolve(options.theme);
+    }
   }
 
   /**
-   * Create an underline layer for text with underline decoration
+   * Create a layer drawing one decoration line under, over or through the text of a style group
+   * 
+   * Solid, dashed and dotted lines are rule marks, double lines two rules per segment, and wavy
+   * lines a line mark zigzagging around the decoration position. The offset and default
+   * thickness scale with the font size, 1px at 14px.
    */
-  private createUnderlineLayer(
-    group: StyleGroup, 
-    bounds: { width: number; height: number },
+  private createDecorationLayer(
+    group: StyleGroup,
+    line: TextDecorationLine,
     options: Partial<HTMLToVegaLiteOptions> = {}
   ): any {
     // Global options take precedence over style fontSize  
     const groupFontSize = options.fontSize ?? (group.style.fontSize || this.fontSize);
+    const scale = Math.round(groupFontSize / 14 * 100) / 100;
+    const thickness = group.style.textDecorationThickness ?? scale;
+    const decorationStyle = group.style.textDecorationStyle ?? 'solid';
+    const color = group.style.textDecorationColor ?? group.style.color;
+    const opacity = group.style.opacity !== undefined ? { opacity: group.style.opacity } : {};
+    const axis = { type: 'quantitative', axis: null, scale: null };
     
-    // Create line segments for each text segment
-    const lineData = group.data.map(segment => {
-      const textTopY = segment.y;
+    // Position of the line for each segment
+    const lines = group.data.map(segment => {
       const textHeight = segment.height || groupFontSize;
+      const y = line === 'underline'
+        ? segment.y + textHeight + scale // Below text (top + height + offset)
+        : line === 'overline'
+          ? segment.y
+          : segment.y + (textHeight * 0.5); // Through center of text
       return {
         id: segment.id,
         x: segment.x,
         x2: segment.x + (segment.width || this.estimateTextWidth(segment.text, groupFontSize)),
-        y: textTopY + textHeight + 1 // Position line below text (top + height + offset)
+        y
       };
     });
 
-    return {
-      data: { values: lineData },
-      mark: {
-        type: 'rule',
-        color: group.style.color,
-        strokeWidth: 1
-      },
-      encoding: {
-        x: {
-          field: 'x',
-          type: 'quantitative',
-          axis: null,
-          scale: null
-        },
-        x2: {
-          field: 'x2',
-          type: 'quantitative'
-        },
-        y: {
-          field: 'y',
-          type: 'quantitative',
-          axis: null,
-          scale: null
-        }
-      }
-    };
-  }
+    if (decorationStyle === 'wavy') {
+      // Alternate above and below the line every half wave
+      const amplitude = Math.max(thickness, scale);
+      const halfWave = 3 * scale;
+      const points = lines.flatMap(({ id, x, x2, y }) => {
+        const steps = Math.max(1, Math.ceil((x2 - x) / halfWave));
+        return Array.from({ length: steps + 1 }, (_, order) => ({
+          id,
+          order,
+          x: Math.min(x + order * halfWave, x2),
+          y: y + (order % 2 === 0 ? -amplitude : amplitude)
+        }));
+      });
 
-  /**
-   * Create a strikethrough layer for text with line-through decoration
-   */
-  private createStrikethroughLayer(
-    group: StyleGroup, 
-    bounds: { width: number; height: number },
-    options: Partial<HTMLToVegaLiteOptions> = {}
-  ): any {
-    // Global options take precedence over style fontSize  
-    const groupFontSize = options.fontSize ?? (group.style.fontSize || this.fontSize);
-    
-    // Create line segments for each text segment
-    const lineData = group.data.map(segment => {
-      const textTopY = segment.y;
-      const textHeight = segment.height || groupFontSize;
       return {
-        id: segment.id,
-        x: segment.x,
-        x2: segment.x + (segment.width || this.estimateTextWidth(segment.text, groupFontSize)),
-        y: textTopY + (textHeight * 0.5) // Position line through center of text
+        data: { values: points },
+        mark: { type: 'line', color, ...opacity, strokeWidth: thickness, interpolate: 'monotone' },
+        encoding: {
+          x: { field: 'x', ...axis },
+          y: { field: 'y', ...axis },
+          detail: { field: 'id', type: 'nominal' },
+          order: { field: 'order', type: 'quantitative' }
+        }
       };
-    });
+    }
+
+    // A double line adds a second rule away from the text, or both sides of a line-through
+    const lineData = decorationStyle !== 'double'
+      ? lines
+      : lines.flatMap(segment => {
+        const [first, second] = line === 'line-through'
+          ? [-thickness, thickness]
+          : [0, (line === 'overline' ? -2 : 2) * thickness];
+        return [{ ...segment, y: segment.y + first }, { ...segment, y: segment.y + second }];
+      });
+    const strokeDash = decorationStyle === 'dashed'
+      ? { strokeDash: [3 * thickness, 2 * thickness] }
+      : decorationStyle === 'dotted' ? { strokeDash: [thickness, thickness] } : {};
 
     return {
       data: { values: lineData },
       mark: {
         type: 'rule',
-        color: group.style.color,
-        strokeWidth: 1
+        color,
+        ...opacity,
+        strokeWidth: thickness,
+        ...strokeDash
       },
       encoding: {
-        x: {
-          field: 'x',
-          type: 'quantitative',
-          axis: null,
-          scale: null
-        },
+        x: { field: 'x', ...axis },
         x2: {
           field: 'x2',
           type: 'quantitative'
         },
-        y: {
-          field: 'y',
-          type: 'quantitative',
-          axis: null,
-          scale: null
-        }
+        y: { field: 'y', ...axis }
       }
     };
   }
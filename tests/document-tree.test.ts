@@ -0,0 +1,166 @@
+import { HTMLParser } from '../src/parser';
+import { TextLayoutEngine } from '../src/layout';
+import { StreamingHTMLParser } from '../src/streaming-parser';
+import { SpacingAnalyzer } from '../src/spacing-analyzer';
+import { HTMLTokenizer } from '../src/tokenizer';
+import { TagBalancer } from '../src/tag-balancer';
+import { DocumentHelpers } from '../src/helpers/document';
+import { Diagnostic, DocumentContent, DocumentNode } from '../src/types';
+
+describe('Document tree', () => {
+  let parser: HTMLParser;
+
+  beforeEach(() => {
+    parser = new HTMLParser();
+  });
+
+  const parseDocument = (html: string): DocumentNode => {
+    const { document } = parser.parseHTML(html);
+    if (!document) throw new Error('Expected a document tree');
+    return document;
+  };
+
+  // Compact form of a node: tag names for elements, text for runs, '\n' for line breaks
+  const outline = (node: DocumentContent): unknown =>
+    node.type === 'text' || node.type === 'line-break'
+      ? node.segment.text
+      : { [`${node.type}:${node.tagName}`]: node.children.map(outline) };
+
+  const documents = [
+    '<h1>Title</h1><p>Some <b>bold</b> and <i>italic</i> text.</p><p>Second &amp; last</p>',
+    '<ul><li>One<li>Two <b>bold</b><ol><li>Nested</ol></ul><p>After the list',
+    '<b>1<i>2</b>3</i> <a href="/x?a=1&amp;b=2">link</a> tail<br>next <custom>kept</custom>',
+    '<p>  spaced   </p>   <span style="color: red"> red </span>&nbsp;km'
+  ];
+
+  describe('structure', () => {
+    it('should nest blocks, inline elements, text runs and line breaks', () => {
+      const document = parseDocument('<h2>Title</h2><p>Some <b>bold <i>both</i></b> text<br>next</p>');
+
+      expect(document.children.map(outline)).toEqual([
+        { 'block:h2': ['Title', '\n'] },
+        { 'block:p': ['Some', { 'inline:b': ['bold', { 'inline:i': ['both'] }] }, 'text', '\n', 'next'] }
+      ]);
+    });
+
+    it('should keep the attributes and start tag range of elements', () => {
+      const [link] = parseDocument('<a href="/docs" title="Docs">docs</a>').children;
+
+      expect(link).toEqual(expect.objectContaining({
+        type: 'inline',
+        tagName: 'a',
+        attributes: ' href="/docs" title="Docs"',
+        range: { start: 0, end: 29 }
+      }));
+    });
+
+    it('should attach the content of unknown tags to the enclosing element', () => {
+      const document = parseDocument('<p>a <custom>b</custom> c<script>x</script></p>');
+
+      expect(document.children.map(outline)).toEqual([{ 'block:p': ['a', 'b', 'c'] }]);
+    });
+
+    it('should close elements the balancer closes', () => {
+      const document = parseDocument('<ul><li>one<li>two</ul>after');
+
+      expect(document.children.map(outline)).toEqual([
+        { 'block:ul': [{ 'block:li': ['•', 'one'] }, { 'block:li': ['\n', '•', 'two'] }, '\n'] },
+        'after'
+      ]);
+    });
+  });
+
+  describe('toSegments', () => {
+    it.each(documents)('should lower %j to the segments of the flat spacing analysis', html => {
+      const result = parser.parseHTML(html);
+
+      // Raw strategy output run through the spacing analysis, as before the tree existed
+      const state = parser.createParseState(new TagBalancer().balance(new HTMLTokenizer().tokenize(html)).tokens);
+      state.tokens.forEach((_, index) => parser.processToken(state, index));
+
+      expect(DocumentHelpers.toSegments(result.document as DocumentNode)).toEqual(result.segments);
+      expect(result.segments).toEqual(SpacingAnalyzer.analyzeAndAssignSpacing(state.segments, html));
+    });
+
+    it('should build the same tree from a stream', () => {
+      const html = documents[1] ?? '';
+      const stream = new StreamingHTMLParser(parser);
+      for (let i = 0; i < html.length; i += 5) {
+        stream.write(html.slice(i, i + 5));
+      }
+
+      expect(stream.end().document).toEqual(parser.parseHTML(html).document);
+    });
+
+    it('should lower a single block', () => {
+      const [, paragraph] = parseDocument('<h1>Title</h1><p>Some <b>bold</b></p>').children;
+
+      expect(DocumentHelpers.toSegments(paragraph as DocumentContent).map(segment => segment.text)).toEqual(['Some', 'bold']);
+    });
+
+    it('should leave a lone segment without spacing metadata', () => {
+      const [segment] = DocumentHelpers.toSegments(parseDocument('<b>only</b>'));
+
+      expect(segment?.hasSpaceAfter).toBeUndefined();
+      expect(segment?.spacingContext).toBeUndefined();
+    });
+  });
+
+  describe('TextLayoutEngine.layoutDocument', () => {
+    let layoutEngine: TextLayoutEngine;
+
+    beforeEach(() => {
+      layoutEngine = new TextLayoutEngine();
+    });
+
+    it.each(documents)('should position %j like layoutSegments', html => {
+      const result = parser.parseHTML(html);
+
+      expect(layoutEngine.layoutDocument(result.document as DocumentNode, 200))
+        .toEqual(layoutEngine.layoutSegments(result.segments, 200));
+    });
+
+    it('should end the heading spacing at the end of each heading block', () => {
+      const result = parser.parseHTML('<h2>First</h2><h2>Second</h2>');
+      const flat = layoutEngine.layoutSegments(result.segments);
+      const blocks = layoutEngine.layoutDocument(result.document as DocumentNode);
+
+      // Consecutive headings of the same level read as one block when laid out flat
+      expect(blocks[0]?.y).toBe(flat[0]?.y);
+      expect((blocks[1]?.y ?? 0) - (flat[1]?.y ?? 0)).toBe(12);
+    });
+
+    it('should report text overflow', () => {
+      const diagnostics: Diagnostic[] = [];
+      layoutEngine.layoutDocument(parseDocument('<p>Supercalifragilistic</p>'), 50, diagnostics);
+
+      expect(diagnostics.map(diagnostic => diagnostic.code)).toEqual(['text-overflow']);
+    });
+  });
+
+  describe('deep nesting', () => {
+    it('should build and walk deeply nested elements without running out of stack', () => {
+      const result = parser.parseHTML('<b>'.repeat(5000) + 'x' + '</b>'.repeat(5000) + '<i>'.repeat(4000) + 'y');
+
+      expect(result.errors).toEqual([]);
+      expect(result.segments.map(s => [s.text, s.fontWeight, s.fontStyle])).toEqual([['x', 'bold', 'normal'], ['y', 'normal', 'italic']]);
+      expect(DocumentHelpers.getFlows(result.document as DocumentNode).map(flow => flow.map(s => s.text))).toEqual([['x', 'y']]);
+    });
+
+    it('should split flows at blocks inside inline elements', () => {
+      const document = parseDocument('<b>a<i>b<p>c</p>d</i>e</b>');
+
+      expect(DocumentHelpers.getFlows(document).map(flow => flow.map(s => s.text))).toEqual([['a'], ['b'], ['\n', 'c', '\n'], ['d'], ['e']]);
+    });
+
+    it('should find the flows of deeply nested documents in time linear in their size', () => {
+      const started = Date.now();
+      const lists = parser.parseHTML('<ul><li>'.repeat(1000) + 'x');
+      const inline = parser.parseHTML('<b>w<i>x'.repeat(1000));
+      DocumentHelpers.getFlows(lists.document as DocumentNode);
+      DocumentHelpers.getFlows(inline.document as DocumentNode);
+
+      expect(Date.now() - started).toBeLessThan(2000);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { DOMTokenizer } from '../src/dom-tokenizer';
+import { HTMLParser } from '../src/parser';
+import { HTMLToVegaLite } from '../src/index';
+import { TextSegment } from '../src/types';
+
+describe('DOMTokenizer', () => {
+  const fragment = (html: string): DocumentFragment => {
+    const template = document.createElement('template');
+    template.innerHTML = html;
+    return template.content;
+  };
+
+  const withoutOffsets = (segments: TextSegment[]): Omit<TextSegment, 'sourceStart' | 'sourceEnd'>[] =>
+    segments.map(({ sourceStart, sourceEnd, ...segment }) => segment);
+
+  describe('tokenize', () => {
+    it('should emit balanced tokens with offsets into the canonical source', () => {
+      const { tokens, source } = new DOMTokenizer().tokenize(fragment('<p>Hi <b class=x>there</b><br></p>'));
+
+      expect(tokens.map(token => [token.type, token.tagName ?? token.text])).toEqual([
+        ['start-tag', 'p'],
+        ['text', 'Hi '],
+        ['start-tag', 'b'],
+        ['text', 'there'],
+        ['end-tag', 'b'],
+        ['start-tag', 'br'],
+        ['end-tag', 'p']
+      ]);
+      expect(source).toBe('<p>Hi <b class="x">there</b><br></p>');
+      for (const token of tokens) {
+        expect(token.end).toBeGreaterThan(token.start);
+      }
+    });
+
+    it('should read attribute values from the element', () => {
+      const link = document.createElement('a');
+      link.setAttribute('href', '/search?q="a" & \'b\'');
+      link.textContent = 'x';
+
+      const { tokens } = new DOMTokenizer().tokenize(link);
+      const style = new HTMLParser().parseHTML(link).segments[0];
+
+      expect(tokens[0]?.attributes).toBe(' href="/search?q=&quot;a&quot; &amp; &#39;b&#39;"');
+      expect(style?.href).toBe('/search?q="a" & \'b\'');
+    });
+
+    it('should escape text so decoding restores it', () => {
+      const paragraph = document.createElement('p');
+      paragraph.textContent = 'a < b & c &amp;';
+
+      expect(new HTMLParser().parseHTML(paragraph).segments.map(segment => segment.text)).toEqual(['a < b & c &amp;']);
+    });
+
+    it('should skip comments and walk the body of a document', () => {
+      const doc = document.implementation.createHTMLDocument('Title');
+      doc.body.innerHTML = '<!-- note --><i>italic</i>';
+
+      const { tokens } = new DOMTokenizer().tokenize(doc);
+      expect(tokens.map(token => token.tagName ?? token.text)).toEqual(['i', 'italic', 'i']);
+    });
+
+    it('should recognize DOM nodes by shape', () => {
+      expect(DOMTokenizer.isNode(document.createElement('div'))).toBe(true);
+      expect(DOMTokenizer.isNode(fragment('x'))).toBe(true);
+      expect(DOMTokenizer.isNode('<b>x</b>')).toBe(false);
+      expect(DOMTokenizer.isNode({ nodeType: 1 })).toBe(false);
+      expect(DOMTokenizer.isNode(null)).toBe(false);
+    });
+  });
+
+  describe('DOM input', () => {
+    const documents = [
+      '<h1>Title</h1><p>Some <b>bold</b> and <i>italic</i> text.</p><p>Second &amp; last</p>',
+      '<ul><li>One</li><li>Two <b>bold</b></li></ul><p>After the list</p>',
+      '<p>Text with <span style="color: red; font-weight: bold">styled</span>&nbsp;words<br>and a break</p>',
+      '<a href="https://example.com/?a=1&amp;b=2">link</a> <u>under</u><b>tight</b>'
+    ];
+
+    it.each(documents)('should parse a fragment of %s like the HTML string', html => {
+      const parser = new HTMLParser();
+      const fromString = parser.parseHTML(html);
+      const fromNode = parser.parseHTML(fragment(html));
+
+      expect(withoutOffsets(fromNode.segments)).toEqual(withoutOffsets(fromString.segments));
+      expect(fromNode.errors).toEqual(fromString.errors);
+    });
+
+    it('should convert a DOM node to the same spec as its markup', () => {
+      const converter = new HTMLToVegaLite();
+      const html = '<p>Converted <b>from</b> the <em>DOM</em></p>';
+      const element = document.createElement('div');
+      element.innerHTML = html;
+
+      const strip = (values: Record<string, unknown>[]): Record<string, unknown>[] =>
+        values.map(({ sourceStart, sourceEnd, ...value }) => value);
+      const texts = (input: string | Node): Record<string, unknown>[] =>
+        converter.convert(input).layer.flatMap(layer => strip(layer.data.values));
+
+      expect(texts(element.firstChild as Node)).toEqual(texts(html));
+    });
+
+    it('should report unsupported elements from the DOM', () => {
+      const element = document.createElement('div');
+      element.innerHTML = '<blink>old</blink>';
+
+      const { diagnostics } = new HTMLToVegaLite().convertWithDiagnostics(element);
+      expect(diagnostics.map(diagnostic => diagnostic.tagName)).toEqual(['div', 'blink', 'blink', 'div']);
+    });
+  });
+});
@@ -51,7 +51,7 @@ describe('Examples Integration Tests', () => {
       const spec = converter.convert(html);
 
       expect(spec.layer).toHaveLength(1);
-      expect(spec.layer[0].mark.color).toBe('red');
+      expect(spec.layer[0].mark.color).toBe('#ff0000');
       expect(spec.layer[0].mark.fontWeight).toBe('bold');
     });
   });
@@ -98,7 +98,7 @@ describe('Examples Integration Tests', () => {
 
       expect(spec.layer).toHaveLength(2); // Text layer + underline layer for link
       expect(spec.layer[0].data.values[0].text).toBe('Link text');
-      expect(spec.layer[0].mark.color).toBe('#0066CC');
+      expect(spec.layer[0].mark.color).toBe('#0066cc');
       expect(spec.layer[1].mark.type).toBe('rule'); // Underline decoration
     });
 
@@ -164,6 +164,8 @@ describe('Examples Integration Tests', () => {
         layer.data.values.some(v => v.text === 'Important note')
       );
       expect(highlightLayer).toBeDefined();
+      // The highlight is drawn behind the text
+      expect(spec.layer[0]?.mark.type).toBe('rect');
     });
   });
 
@@ -190,7 +192,7 @@ describe('Examples Integration Tests', () => {
 
       expect(spec.layer.length).toBeGreaterThan(1);
       
-      const redLayer = spec.layer.find(layer => layer.mark.color === '#FF0000');
+      const redLayer = spec.layer.find(layer => layer.mark.color === '#ff0000');
       expect(redLayer).toBeDefined();
       expect(redLayer?.data.values[0].text).toBe('Error:');
     });
@@ -280,7 +282,7 @@ describe('Examples Integration Tests', () => {
       const spec = converter.convert(html);
 
       expect(spec.layer).toHaveLength(1);
-      expect(spec.layer[0].data.values[0].text).toContain('&amp;');
+      expect(spec.layer[0].data.values[0].text).toBe('Special: & < > "quotes"');
     });
 
     it('should handle very long text', () => {
@@ -310,12 +312,12 @@ describe('Examples Integration Tests', () => {
       expect(validation.errors).toEqual([]);
     });
 
-    it('should detect HTML errors', () => {
+    it('should report recovered HTML errors as warnings', () => {
       const html = '<b>Unclosed bold';
       const validation = converter.parseHTML(html);
 
-      expect(validation.errors).toBeDefined();
-      expect(validation.errors!.length).toBeGreaterThan(0);
+      expect(validation.errors).toEqual([]);
+      expect(validation.warnings).toContain('Unclosed tags: b');
     });
 
     it('should detect unsupported tags', () => {
@@ -1,4 +1,4 @@
-import { HTMLToVegaLite } from '../src/index';
+import { HTMLToVegaLite, UnsupportedTagError } from '../src/index';
 import { HTMLToVegaLiteOptions } from '../src/types';
 
 describe('HTMLToVegaLite', () => {
@@ -127,6 +127,76 @@ describe('HTMLToVegaLite', () => {
     });
   });
 
+  describe('convertWithDiagnostics', () => {
+    it('should return the spec with coded diagnostics and source ranges', () => {
+      const html = '<p>Hello <blink>there</blink> <span style="color: #12">x</span></p>';
+      const { spec, diagnostics } = converter.convertWithDiagnostics(html);
+
+      expect(spec.layer.length).toBeGreaterThan(0);
+      expect(diagnostics).toContainEqual({
+        code: 'unsupported-tag',
+        severity: 'warning',
+        message: 'Unsupported tag: blink',
+        tagName: 'blink',
+        range: { start: 9, end: 16 }
+      });
+      expect(diagnostics).toContainEqual(expect.objectContaining({
+        code: 'invalid-css-value',
+        tagName: 'span',
+        range: { start: 30, end: 55 }
+      }));
+    });
+
+    it('should report unsafe and invalid URLs and structure repairs', () => {
+      const { diagnostics } = converter.convertWithDiagnostics('<a href="javascript:alert(1)">x</a><a href="x">y</a><b>open');
+      const codes = diagnostics.map(diagnostic => diagnostic.code);
+
+      expect(codes).toEqual(expect.arrayContaining(['unsafe-url', 'invalid-url', 'unclosed-tag']));
+      expect(codes.filter(code => code === 'unsafe-url')).toHaveLength(1);
+    });
+
+    it('should report text too wide to wrap during layout', () => {
+      const { diagnostics } = converter.convertWithDiagnostics('Pneumonoultramicroscopicsilicovolcanoconiosis', { maxWidth: 60 });
+
+      expect(diagnostics).toContainEqual(expect.objectContaining({
+        code: 'text-overflow',
+        range: { start: 0, end: 45 }
+      }));
+    });
+
+    it('should apply the unknownTags option from the constructor and per call', () => {
+      const strict = new HTMLToVegaLite({ unknownTags: 'error' });
+
+      expect(() => strict.convertWithDiagnostics('<blink>x</blink>')).toThrow(UnsupportedTagError);
+      expect(strict.convertWithDiagnostics('<blink>x</blink>', { unknownTags: 'remove' }).spec.layer).toHaveLength(0);
+    });
+
+    it('should return an error diagnostic instead of throwing for invalid input', () => {
+      const { spec, diagnostics } = converter.convertWithDiagnostics('');
+
+      expect(spec.layer).toHaveLength(0);
+      expect(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.severity])).toEqual([
+        ['invalid-input', 'error'],
+        ['empty-output', 'info']
+      ]);
+    });
+
+    it('should send convert() diagnostics to an injected logger', () => {
+      const logger = { warn: jest.fn() };
+      const quiet = new HTMLToVegaLite({ logger });
+
+      quiet.convert('<b>clean</b>');
+      expect(logger.warn).not.toHaveBeenCalled();
+
+      quiet.convert('<blink>x</blink>');
+      expect(logger.warn).toHaveBeenCalledTimes(1);
+      expect(logger.warn).toHaveBeenCalledWith(
+        'HTML conversion diagnostics:',
+        expect.arrayContaining([expect.objectContaining({ code: 'unsupported-tag', tagName: 'blink' })])
+      );
+    });
+  });
+
   describe('parseHTML', () => {
     it('should parse HTML and return segments', () => {
       const html = '<b>Bold</b> text';
@@ -139,12 +209,13 @@ describe('HTMLToVegaLite', () => {
       expect(result.segments[1].fontWeight).toBe('normal');
     });
 
-    it('should return errors for malformed HTML', () => {
+    it('should return warnings for malformed HTML', () => {
       const html = '<b>Unclosed bold';
       const result = converter.parseHTML(html);
       
-      expect(result.errors).toBeDefined();
-      expect(result.errors!.length).toBeGreaterThan(0);
+      expect(result.warnings).toBeDefined();
+      expect(result.warnings!.length).toBeGreaterThan(0);
+      expect(result.segments[0].fontWeight).toBe('bold');
     });
   });
 
@@ -43,10 +43,10 @@ describe('Integration Tests', () => {
       expect(allText).toContain('npm run analytics');
 
       // Verify styling is applied
-      const greenLayer = spec.layer.find(layer => layer.mark.color === 'green');
+      const greenLayer = spec.layer.find(layer => layer.mark.color === '#008000');
       expect(greenLayer).toBeDefined();
       
-      const blueLayer = spec.layer.find(layer => layer.mark.color === 'blue');
+      const blueLayer = spec.layer.find(layer => layer.mark.color === '#0000ff');
       expect(blueLayer).toBeDefined();
 
       const boldLayers = spec.layer.filter(layer => layer.mark.fontWeight === 'bold');
@@ -69,13 +69,13 @@ describe('Integration Tests', () => {
       expect(spec.layer.length).toBeGreaterThan(3);
 
       // Should have layers with combined styles
-      const redLayer = spec.layer.find(layer => layer.mark.color === 'red');
+      const redLayer = spec.layer.find(layer => layer.mark.color === '#ff0000');
       expect(redLayer).toBeDefined();
 
-      const orangeLayer = spec.layer.find(layer => layer.mark.color === 'orange');
+      const orangeLayer = spec.layer.find(layer => layer.mark.color === '#ffa500');
       expect(orangeLayer).toBeDefined();
 
-      const linkLayer = spec.layer.find(layer => layer.mark.color === '#0066CC');
+      const linkLayer = spec.layer.find(layer => layer.mark.color === '#0066cc');
       expect(linkLayer).toBeDefined();
     });
   });
@@ -127,11 +127,11 @@ describe('Integration Tests', () => {
 
       expect(spec.layer.length).toBeGreaterThan(2);
 
-      const redLayer = spec.layer.find(layer => layer.mark.color === '#FF0000');
+      const redLayer = spec.layer.find(layer => layer.mark.color === '#ff0000');
       expect(redLayer).toBeDefined();
       expect(redLayer?.data.values[0].text).toBe('Error:');
 
-      const greenLayer = spec.layer.find(layer => layer.mark.color === '#00FF00');
+      const greenLayer = spec.layer.find(layer => layer.mark.color === '#008000');
       expect(greenLayer).toBeDefined();
       expect(greenLayer?.data.values[0].text).toBe('Success');
     });
@@ -370,13 +370,13 @@ describe('Integration Tests', () => {
       expect(spec.layer.length).toBeGreaterThan(6);
 
       // Verify colored metrics
-      const greenLayer = spec.layer.find(l => l.mark.color === 'green');
+      const greenLayer = spec.layer.find(l => l.mark.color === '#008000');
       expect(greenLayer).toBeDefined();
       
-      const redLayer = spec.layer.find(l => l.mark.color === 'red');
+      const redLayer = spec.layer.find(l => l.mark.color === '#ff0000');
       expect(redLayer).toBeDefined();
       
-      const blueLayer = spec.layer.find(l => l.mark.color === 'blue');
+      const blueLayer = spec.layer.find(l => l.mark.color === '#0000ff');
       expect(blueLayer).toBeDefined();
     });
 
@@ -395,10 +395,10 @@ describe('Integration Tests', () => {
 
       expect(spec.layer.length).toBeGreaterThan(4);
 
-      const orangeLayer = spec.layer.find(l => l.mark.color === 'orange');
+      const orangeLayer = spec.layer.find(l => l.mark.color === '#ffa500');
       expect(orangeLayer).toBeDefined();
 
-      const linkLayers = spec.layer.filter(l => l.mark.color === '#0066CC');
+      const linkLayers = spec.layer.filter(l => l.mark.color === '#0066cc');
       expect(linkLayers.length).toBeGreaterThan(0);
     });
   });
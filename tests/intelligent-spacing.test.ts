@@ -1,4 +1,5 @@
 import { HTMLToVegaLite } from '../src/index';
+import { HTMLParser } from '../src/parser';
 
 describe('Intelligent Word Spacing System', () => {
   let converter: HTMLToVegaLite;
@@ -187,6 +188,28 @@ describe('Intelligent Word Spacing System', () => {
     });
   });
 
+  describe('Source Position Spacing', () => {
+    const spacingFlags = (html: string): boolean[] =>
+      new HTMLParser().parseHTML(html).segments.map(segment => segment.hasSpaceAfter ?? false);
+
+    it('should use the whitespace after each occurrence of a repeated word', () => {
+      expect(spacingFlags('<b>a</b>b <i>a</i><u>b</u>')).toEqual([false, true, false, false]);
+    });
+
+    it('should not find spaces inside attributes or comments between segments', () => {
+      expect(spacingFlags('<b>one</b><span style="color: red">two</span><!-- x --><i>three</i>'))
+        .toEqual([false, false, false]);
+    });
+
+    it('should locate segments that contain character references', () => {
+      expect(spacingFlags('<b>Tom &amp; Jerry</b> <i>&lt;3</i>')).toEqual([true, false]);
+    });
+
+    it('should not treat a non-breaking space reference as a word break', () => {
+      expect(spacingFlags('<b>10</b>&nbsp;<i>km</i>')).toEqual([false, false, false]);
+    });
+  });
+
   describe('Font-Aware Spacing', () => {
     it('should calculate space width based on segment font properties', () => {
       // Test with different font sizes/styles
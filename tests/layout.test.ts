@@ -350,6 +350,39 @@ describe('TextLayoutEngine', () => {
       expect(positioned[1].fontWeight).toBe('bold');
     });
 
+    it('should measure monospace text with the same advance in every weight and style', () => {
+      const style = { fontWeight: 'normal', fontStyle: 'normal', color: '#000000', fontFamily: 'Menlo, monospace' } as const;
+      const segments: TextSegment[] = [
+        { ...style, text: 'abc' },
+        { ...style, text: 'abc', fontWeight: 'bold', fontStyle: 'italic' },
+        { ...style, text: 'abc', fontWeight: 'bold', fontFamily: 'Arial' }
+      ];
+
+      const widths = segments.map(segment => layoutEngine.measureText(segment.text, segment).width);
+
+      expect(widths[1]).toBe(widths[0]);
+      expect(widths[2]).toBeGreaterThan(widths[0] ?? 0);
+    });
+
+    it('should keep room for the padding of a box around the text', () => {
+      const style = { fontWeight: 'normal', fontStyle: 'normal', color: '#000000' } as const;
+      const boxed = { ...style, backgroundColor: '#f6f8fa', backgroundPadding: { top: 2, right: 6, bottom: 2, left: 4 }, boxStart: 7 };
+      const segments: TextSegment[] = [
+        { ...style, text: 'run', hasSpaceAfter: true },
+        { ...boxed, text: 'git' },
+        { ...boxed, text: 'log', fontWeight: 'bold' },
+        { ...style, text: ', ok' }
+      ];
+
+      const [run, git, log, comma] = layoutEngine.layoutSegments(segments);
+
+      expect(git!.x).toBeCloseTo(run!.x + run!.width + layoutEngine.measureText(' ', segments[0]!).width + 4);
+      // Padding is only kept at the edges of the box, not between its segments
+      expect(log!.x).toBeGreaterThanOrEqual(git!.x + git!.width);
+      expect(log!.x).toBeLessThan(git!.x + git!.width + 4);
+      expect(comma!.x).toBeGreaterThanOrEqual(log!.x + log!.width + 6);
+    });
+
     it('should handle space between two adjecent tags', () => {
       const segments: TextSegment[] = [
         {
@@ -457,5 +490,219 @@ describe('TextLayoutEngine', () => {
         }
       }
     });
+
+    it('should give each wrapped line its own source range', () => {
+      const html = '<p>Line one that is long enough to wrap to multiple lines</p>';
+      const text = 'Line one that is long enough to wrap to multiple lines';
+      const segments: TextSegment[] = [{
+        text,
+        fontWeight: 'normal',
+        fontStyle: 'normal',
+        color: '#000000',
+        sourceStart: 3,
+        sourceEnd: 3 + text.length
+      }];
+
+      const positioned = layoutEngine.layoutSegments(segments, 200);
+
+      expect(positioned.length).toBeGreaterThan(1);
+      positioned.forEach(line => {
+        expect(html.slice(line.sourceStart, line.sourceEnd)).toBe(line.text);
+      });
+    });
+
+    it('should never wrap at a non-breaking space between segments', () => {
+      const segments: TextSegment[] = [
+        { text: 'Distance 10\u00A0', fontWeight: 'normal', fontStyle: 'normal', color: '#000000' },
+        { text: 'km', fontWeight: 'bold', fontStyle: 'normal', color: '#000000' }
+      ];
+
+      const positioned = layoutEngine.layoutSegments(segments, 120);
+
+      expect(positioned).toHaveLength(2);
+      expect(positioned[1].y).toBe(positioned[0].y);
+    });
+  });
+
+  describe('white-space', () => {
+    const base = { fontWeight: 'normal', fontStyle: 'normal', color: '#000000' } as const;
+
+    it('should keep runs of spaces and expand tabs to the tab size', () => {
+      const positioned = layoutEngine.layoutSegments([
+        { ...base, text: 'a  b c\td', whiteSpace: 'pre', tabSize: 4, sourceStart: 0, sourceEnd: 8 }
+      ]);
+
+      // Fallback measurement: 8.4px per character, tab stops every 4 * 8.4px from startX
+      expect(positioned.map(p => [p.text, p.sourceStart, p.sourceEnd])).toEqual([['a', 0, 1], ['b c', 3, 6], ['d', 7, 8]]);
+      expect(positioned.map(p => p.x)).toEqual([10, 10 + 3 * 8.4, 10 + 8 * 8.4].map(x => expect.closeTo(x)));
+    });
+
+    it('should never break text that does not wrap', () => {
+      const segments: TextSegment[] = [
+        { ...base, text: 'one two three four', whiteSpace: 'nowrap' },
+        { ...base, text: 'five six', whiteSpace: 'nowrap', fontWeight: 'bold' },
+        { ...base, text: 'seven' }
+      ];
+
+      const positioned = layoutEngine.layoutSegments(segments, 150);
+
+      expect(positioned.map(p => p.text)).toEqual(['one two three four', 'five six', 'seven']);
+      expect(positioned[1]!.y).toBe(positioned[0]!.y);
+      expect(positioned[2]!.y - positioned[0]!.y).toBe(20);
+    });
+
+    it('should wrap pre-wrap text between its words', () => {
+      const positioned = layoutEngine.layoutSegments([
+        { ...base, text: 'aaaa    bbbb cccc', whiteSpace: 'pre-wrap' }
+      ], 130);
+
+      expect(positioned.map(p => [p.text, p.x])).toEqual([['aaaa', 10], ['bbbb', expect.closeTo(10 + 8 * 8.4)], ['cccc', 10]]);
+      expect(positioned[1]!.y).toBe(positioned[0]!.y);
+      expect(positioned[2]!.y - positioned[0]!.y).toBe(20);
+    });
+  });
+
+  describe('tables', () => {
+    const base = { fontWeight: 'normal', fontStyle: 'normal', color: '#000000' } as const;
+    const cell = (row: number, column: number, options: { colSpan?: number; rowSpan?: number; header?: boolean } = {}) => ({
+      table: 1, row, column, rowSpan: options.rowSpan ?? 1, colSpan: options.colSpan ?? 1, header: options.header ?? false
+    });
+
+    it('should size columns to their content and rows to their cells', () => {
+      const segments: TextSegment[] = [
+        { ...base, text: 'Name', tableCell: cell(0, 0, { header: true }) },
+        { ...base, text: 'Qty', tableCell: cell(0, 1, { header: true }) },
+        { ...base, text: 'apple', tableCell: cell(1, 0) },
+        { ...base, text: '3', tableCell: cell(1, 1) },
+        { ...base, text: '\n' },
+        { ...base, text: 'after' }
+      ];
+
+      const positioned = layoutEngine.layoutSegments(segments);
+
+      // Fallback measurement: 8.4px per character, plus 8px of padding on either side of each cell
+      expect(positioned.map(p => p.cellBox)).toEqual([
+        { x: 10, y: 30, x2: 68, y2: 58 },
+        { x: 68, y: 30, x2: 109.2, y2: 58 },
+        { x: 10, y: 58, x2: 68, y2: 86 },
+        { x: 68, y: 58, x2: 109.2, y2: 86 },
+        undefined
+      ].map(box => box && { x: expect.closeTo(box.x), y: expect.closeTo(box.y), x2: expect.closeTo(box.x2), y2: expect.closeTo(box.y2) }));
+      // Header cells are centered, data cells start after the padding
+      expect(positioned.map(p => p.x)).toEqual([10 + 8 + 4.2, 76, 18, 76, 10].map(x => expect.closeTo(x)));
+      expect(positioned[0]!.y).toBe(positioned[1]!.y);
+      expect(positioned[4]!.y).toBeGreaterThanOrEqual(86);
+      expect(layoutEngine.calculateBounds(positioned).width).toBeCloseTo(109.2 + 20);
+    });
+
+    it('should wrap text inside cells when the table is wider than the wrap width', () => {
+      const segments: TextSegment[] = [
+        { ...base, text: 'aaa bbb ccc', tableCell: cell(0, 0) },
+        { ...base, text: 'dd', tableCell: cell(0, 1) }
+      ];
+
+      const positioned = layoutEngine.layoutSegments(segments, 100);
+
+      expect(positioned.map(p => p.text)).toEqual(['aaa', 'bbb', 'ccc', 'dd']);
+      expect(new Set(positioned.slice(0, 3).map(p => p.x))).toEqual(new Set([18]));
+      expect(Math.max(...positioned.map(p => p.cellBox!.x2))).toBeLessThanOrEqual(100);
+      // The short cell is as tall as its row and centered in it
+      expect(positioned[3]!.cellBox!.y2).toBe(positioned[0]!.cellBox!.y2);
+      expect(positioned[3]!.y).toBeGreaterThan(positioned[0]!.y);
+      expect(positioned[3]!.y).toBeLessThan(positioned[2]!.y);
+    });
+
+    it('should stretch the columns and rows spanned by a cell', () => {
+      const segments: TextSegment[] = [
+        { ...base, text: 'a much wider cell', tableCell: cell(0, 0, { colSpan: 2 }) },
+        { ...base, text: 'b', tableCell: cell(1, 0, { rowSpan: 3 }) },
+        { ...base, text: 'c', tableCell: cell(1, 1) },
+        { ...base, text: 'd', tableCell: cell(2, 1) }
+      ];
+
+      const positioned = layoutEngine.layoutSegments(segments);
+      const [wide, b, c, d] = positioned.map(p => p.cellBox!);
+
+      expect(wide!.x2 - wide!.x).toBeCloseTo(17 * 8.4 + 16);
+      expect(b!.x2).toBeCloseTo(c!.x);
+      expect(c!.x2).toBeCloseTo(wide!.x2);
+      // The row span is clamped to the rows of the table
+      expect(b!.y2).toBe(d!.y2);
+      expect(positioned[1]!.y).toBeGreaterThan(positioned[2]!.y);
+      expect(positioned[1]!.y).toBeLessThan(positioned[3]!.y);
+    });
+  });
+
+  describe('blockquotes', () => {
+    const base = { fontWeight: 'normal', fontStyle: 'normal', color: '#6c757d' } as const;
+
+    it('should indent quoted text by its nesting level and place a bar for each quote', () => {
+      const positioned = layoutEngine.layoutSegments([
+        { ...base, text: 'outer', blockquotes: [1] },
+        { ...base, text: '\n', blockquotes: [1] },
+        { ...base, text: 'inner', blockquotes: [1, 2] }
+      ]);
+
+      expect(positioned.map(p => [p.text, p.x, p.quoteBarX])).toEqual([
+        ['outer', 10 + 16, [11.5]],
+        ['inner', 10 + 32, [11.5, 27.5]]
+      ]);
+    });
+
+    it('should wrap quoted text within the width left by its indentation', () => {
+      const segments: TextSegment[] = [{ ...base, text: 'aaaa bbbb', blockquotes: [1, 2] }];
+
+      // Fallback measurement: 8.4px per character, indented 16px per level
+      expect(layoutEngine.layoutSegments(segments, 10 + 32 + 9 * 8.4 + 1).map(p => p.text)).toEqual(['aaaa bbbb']);
+      expect(layoutEngine.layoutSegments(segments, 10 + 9 * 8.4 + 1).map(p => p.text)).toEqual(['aaaa', 'bbbb']);
+      expect(new TextLayoutEngine({ ...defaultOptions, theme: { quoteIndent: 32 } })
+        .layoutSegments(segments, 10 + 32 + 9 * 8.4 + 1).map(p => [p.text, p.x])).toEqual([['aaaa', 74], ['bbbb', 74]]);
+    });
+  });
+
+  describe('CSS typography', () => {
+    const base = { fontWeight: 'normal', fontStyle: 'normal', color: '#000000' } as const;
+
+    it('should place letter-spaced text character by character', () => {
+      const positioned = layoutEngine.layoutSegments([
+        { ...base, text: 'abc', letterSpacing: 2, sourceStart: 5, sourceEnd: 8 }
+      ]);
+
+      // Fallback measurement: 14 * 0.6 = 8.4px per character, plus the spacing
+      expect(positioned.map(p => [p.text, p.sourceStart])).toEqual([['a', 5], ['b', 6], ['c', 7]]);
+      positioned.forEach((p, index) => {
+        expect(p.x - (positioned[0]?.x ?? 0)).toBeCloseTo(index * 10.4);
+        expect(p.width).toBeCloseTo(10.4);
+      });
+    });
+
+    it('should place word-spaced text word by word', () => {
+      const positioned = layoutEngine.layoutSegments([{ ...base, text: 'one two', wordSpacing: 4 }]);
+
+      expect(positioned.map(p => p.text)).toEqual(['one', 'two']);
+      expect((positioned[1]?.x ?? 0) - (positioned[0]?.x ?? 0)).toBeCloseTo(4 * 8.4 + 4);
+    });
+
+    it('should advance lines by the CSS line height', () => {
+      const positioned = layoutEngine.layoutSegments([
+        { ...base, text: 'one', lineHeight: 32 },
+        { ...base, text: '\n', lineHeight: 32 },
+        { ...base, text: 'two', lineHeight: 32 }
+      ]);
+
+      expect((positioned[1]?.y ?? 0) - (positioned[0]?.y ?? 0)).toBe(32);
+    });
+
+    it('should measure text wider as the font weight increases', () => {
+      const widths = [100, 'normal', 600, 'bold', 900].map(fontWeight =>
+        layoutEngine.measureText('abcd', { ...base, fontWeight: fontWeight as number }).width
+      );
+
+      expect(widths[0]).toBeCloseTo(4 * 8.4 * 0.95);
+      expect(widths[1]).toBeCloseTo(4 * 8.4);
+      expect(widths[2]).toBeCloseTo(4 * 8.4 * 1.1);
+      expect(widths[3]).toBeCloseTo(4 * 8.4 * 1.15);
+      expect(widths[4]).toBeCloseTo(4 * 8.4 * 1.25);
+    });
   });
 });
@@ -3,6 +3,8 @@ import { ListHelpers } from '../src/helpers/composite';
 import { TextStyle } from '../src/types';
 import { HTMLParser } from '../src/parser';
 import { HTMLToVegaLite } from '../src/index';
+import { HTMLTokenizer } from '../src/tokenizer';
+import { TagBalancer } from '../src/tag-balancer';
 
 describe('ListTagStrategy', () => {
   let strategy: ListTagStrategy;
@@ -188,6 +190,59 @@ describe('ListTagStrategy', () => {
       expect(validation.isValid).toBe(false);
       expect(validation.errors).toContain('Invalid or unsupported attributes for list tag');
     });
+
+    it('should accept unquoted and mixed-case attributes', () => {
+      expect(strategy.validateAttributes(`CLASS=compact Start=3 title='a "b"'`).isValid).toBe(true);
+    });
+
+    it('should reject a start attribute that is not an integer', () => {
+      const validation = strategy.validateAttributes('start="three"');
+      expect(validation.errors).toEqual(['Invalid start attribute for list tag: three']);
+    });
+  });
+});
+
+describe('ListTagStrategy per-parse state', () => {
+  const prefixes = (segments: { text: string; spacingContext?: string }[]): string[] =>
+    segments.filter(segment => segment.spacingContext === 'list-prefix').map(segment => segment.text);
+
+  it('should number lists independently when two parses are interleaved', () => {
+    const parser = new HTMLParser();
+    const tokens = (html: string) => new TagBalancer().balance(new HTMLTokenizer().tokenize(html)).tokens;
+    const first = parser.createParseState(tokens('<ol><li>a</li><li>b</li><li>c</li></ol>'));
+    const second = parser.createParseState(tokens('<ol><li>x</li><li><ol><li>nested</li></ol></li><li>y</li></ol>'));
+
+    for (let i = 0; i < Math.max(first.tokens.length, second.tokens.length); i++) {
+      parser.processToken(first, i);
+      parser.processToken(second, i);
+    }
+
+    expect(prefixes(first.segments)).toEqual(['1. ', '2. ', '3. ']);
+    expect(prefixes(second.segments)).toEqual(['1. ', '2. ', '1. ', '3. ']);
+  });
+
+  it('should keep numbering when a strategy converts another document during a parse', () => {
+    const inner = new HTMLToVegaLite();
+    const parser = new HTMLParser([{
+      getTagNames: () => ['x-embed'],
+      applyStyle: (style) => style,
+      parse: (context) => {
+        inner.convert('<ol><li>inner one</li><li>inner two</li></ol>');
+        return { newSegments: [], updatedStyle: context.currentStyle, pushStyleToStack: false, popFromStyleStack: false, errors: [] };
+      }
+    }]);
+
+    const result = parser.parseHTML('<ol><li>one</li><li>two <x-embed></x-embed></li><li>three</li></ol>');
+
+    expect(prefixes(result.segments)).toEqual(['1.', '2.', '3.']);
+  });
+
+  it('should leave the state of direct strategy calls alone', () => {
+    new ListTagStrategy().applyStyle({} as TextStyle, '', 'ol');
+    new HTMLParser().parseHTML('<ul><li>item</li></ul>');
+
+    expect(ListHelpers.getListContext().stack).toEqual(['ol']);
+    ListTagStrategy.resetListState();
   });
 });
 
@@ -350,6 +405,14 @@ describe('ListTagStrategy Integration Tests', () => {
       expect(textSegments[5].text).toBe('Third item');
     });
 
+    it('should number ordered lists from their start attribute', () => {
+      const html = '<ol start="3"><li>a</li><li>b<ol><li>c</li></ol></li></ol><ol start="x"><li>d</li></ol>';
+      const result = parser.parseHTML(html);
+
+      const prefixes = result.segments.filter(s => s.spacingContext === 'list-prefix').map(s => s.text);
+      expect(prefixes).toEqual(['3.', '4.', '1.', '1.']);
+    });
+
     it('should parse nested lists correctly', () => {
       const html = `
         <ul>
@@ -0,0 +1,128 @@
+import { MarkdownTokenizer } from '../src/markdown-tokenizer';
+import { HTMLParser } from '../src/parser';
+import { HTMLToVegaLite } from '../src/index';
+import { TextSegment } from '../src/types';
+
+describe('MarkdownTokenizer', () => {
+  const toHtml = (markdown: string): string => new MarkdownTokenizer().tokenize(markdown).source;
+
+  const withoutOffsets = (segments: TextSegment[]): Omit<TextSegment, 'sourceStart' | 'sourceEnd'>[] =>
+    segments.map(({ sourceStart, sourceEnd, ...segment }) => segment);
+
+  describe('blocks', () => {
+    it('should convert ATX and setext headings', () => {
+      expect(toHtml('# One\n## Two ##\nThree\n=====\nFour\n---')).toBe(
+        '<h1>One</h1><h2>Two</h2><h1>Three</h1><h2>Four</h2>'
+      );
+    });
+
+    it('should join paragraph lines and separate paragraphs at blank lines', () => {
+      expect(toHtml('first line\nsecond line\n\nnext')).toBe('<p>first line\nsecond line</p><p>next</p>');
+    });
+
+    it('should turn trailing double spaces and backslashes into hard breaks', () => {
+      expect(toHtml('one  \ntwo\\\nthree')).toBe('<p>one<br>two<br>three</p>');
+    });
+
+    it('should convert nested lists and ordered list starts', () => {
+      expect(toHtml('- a\n- b\n  1. x\n  2. y\n- c')).toBe(
+        '<ul><li>a</li><li>b<ol><li>x</li><li>y</li></ol></li><li>c</li></ul>'
+      );
+      expect(toHtml('3) three\n4) four')).toBe('<ol start="3"><li>three</li><li>four</li></ol>');
+    });
+
+    it('should start a new list when the bullet changes', () => {
+      expect(toHtml('- a\n\n- b\n* c')).toBe('<ul><li>a</li><li>b</li></ul><ul><li>c</li></ul>');
+    });
+
+    it('should convert block quotes with lazy continuation lines', () => {
+      expect(toHtml('> quoted **text**\ncontinued\n\nafter')).toBe(
+        '<blockquote><p>quoted <strong>text</strong>\ncontinued</p></blockquote><p>after</p>'
+      );
+    });
+
+    it('should render code blocks as preformatted text without inline parsing', () => {
+      expect(toHtml('```ts\nconst a = 1 < 2;\n\n  *x*\n```')).toBe(
+        '<pre><code>const a = 1 &lt; 2;\n\n  *x*</code></pre>'
+      );
+      expect(toHtml('    indented\n      code')).toBe('<pre><code>indented\n  code</code></pre>');
+      expect(toHtml('- item\n\n  ```\n  a\n  ```\n\n  after')).toBe('<ul><li>item<pre><code>a</code></pre>after</li></ul>');
+    });
+
+    it('should drop thematic breaks', () => {
+      expect(toHtml('above\n\n***\n\nbelow')).toBe('<p>above</p><p>below</p>');
+    });
+  });
+
+  describe('inlines', () => {
+    it('should convert emphasis, strong emphasis and strikethrough', () => {
+      expect(toHtml('*a* _b_ **c** __d__ ***e*** ~~f~~')).toBe(
+        '<p><em>a</em> <em>b</em> <strong>c</strong> <strong>d</strong> <em><strong>e</strong></em> <del>f</del></p>'
+      );
+    });
+
+    it('should nest emphasis inside strong emphasis', () => {
+      expect(toHtml('**bold *both* bold**')).toBe('<p><strong>bold <em>both</em> bold</strong></p>');
+      expect(toHtml('*it **both** it*')).toBe('<p><em>it <strong>both</strong> it</em></p>');
+    });
+
+    it('should leave unmatched and intraword underscores literal', () => {
+      expect(toHtml('snake_case_name and 2 * 3 and *open')).toBe('<p>snake_case_name and 2 * 3 and *open</p>');
+    });
+
+    it('should convert code spans without parsing their content', () => {
+      expect(toHtml('use `a *b* <c>` or `` x`y ``')).toBe(
+        '<p>use <code>a *b* &lt;c></code> or <code>x`y</code></p>'
+      );
+    });
+
+    it('should convert links, autolinks and images', () => {
+      expect(toHtml('[the *site*](https://example.com "Title") <https://a.b/c> ![alt text](img.png)')).toBe(
+        '<p><a href="https://example.com">the <em>site</em></a> <a href="https://a.b/c">https://a.b/c</a> alt text</p>'
+      );
+    });
+
+    it('should honor backslash escapes and render raw HTML as text', () => {
+      expect(toHtml('\\*not em\\* <b>tag</b> AT&T')).toBe('<p>*not em* &lt;b>tag&lt;/b> AT&T</p>');
+    });
+  });
+
+  describe('parseMarkdown', () => {
+    it.each([
+      ['# Title\n\nSome **bold** and *italic* text.', '<h1>Title</h1><p>Some <strong>bold</strong> and <em>italic</em> text.</p>'],
+      ['1. One\n2. Two with `code`\n\nAfter the list', '<ol><li>One</li><li>Two with <code>code</code></li></ol><p>After the list</p>'],
+      ['See [docs](/docs) and ~~old~~ new', '<p>See <a href="/docs">docs</a> and <del>old</del> new</p>'],
+      ['3) three\n4) four', '<ol start="3"><li>three</li><li>four</li></ol>'],
+      ['```\nif (x)\n  y();\n```', '<pre><code>if (x)\n  y();</code></pre>']
+    ])('should produce the same segments for %j as the equivalent HTML', (markdown, html) => {
+      const parser = new HTMLParser();
+      const fromMarkdown = parser.parseMarkdown(markdown);
+
+      expect(withoutOffsets(fromMarkdown.segments)).toEqual(withoutOffsets(parser.parseHTML(html).segments));
+      expect(fromMarkdown.errors).toEqual([]);
+    });
+
+    it('should reject empty input', () => {
+      expect(new HTMLParser().parseMarkdown('').errors).toEqual(['Input must be a non-empty string']);
+    });
+  });
+
+  describe('HTMLToVegaLite.convertMarkdown', () => {
+    it('should lay out Markdown like the equivalent HTML', () => {
+      const converter = new HTMLToVegaLite();
+      const strip = (values: Record<string, unknown>[]): Record<string, unknown>[] =>
+        values.map(({ sourceStart, sourceEnd, ...value }) => value);
+      const values = (spec: ReturnType<HTMLToVegaLite['convert']>): Record<string, unknown>[] =>
+        spec.layer.flatMap(layer => strip(layer.data.values));
+
+      const spec = converter.convertMarkdown('## Notes\n\n- first *point*\n- second point');
+      const html = converter.convert('<h2>Notes</h2><ul><li>first <em>point</em></li><li>second point</li></ul>');
+
+      expect(values(spec)).toEqual(values(html));
+    });
+
+    it('should throw on invalid input', () => {
+      expect(() => new HTMLToVegaLite().convertMarkdown('')).toThrow('Input must be a non-empty string');
+    });
+  });
+});
@@ -17,7 +17,7 @@ describe('Nested Tags in Headings', () => {
 
       // Find the layers
       const blackLayer = spec.layer.find(layer => layer.mark.color === '#000000');
-      const purpleLayer = spec.layer.find(layer => layer.mark.color === 'purple');
+      const purpleLayer = spec.layer.find(layer => layer.mark.color === '#800080');
 
       expect(blackLayer).toBeDefined();
       expect(purpleLayer).toBeDefined();
@@ -64,7 +64,7 @@ describe('Nested Tags in Headings', () => {
 
       // Should have appropriate color groupings
       const hasBlackLayer = spec.layer.some(layer => layer.mark.color === '#000000');
-      const hasRedLayer = spec.layer.some(layer => layer.mark.color === 'red');
+      const hasRedLayer = spec.layer.some(layer => layer.mark.color === '#ff0000');
       
       expect(hasBlackLayer).toBe(true);
       expect(hasRedLayer).toBe(true);
@@ -116,7 +116,7 @@ describe('Nested Tags in Headings', () => {
       // Should have green and black color layers
       const colors = spec.layer.map(layer => layer.mark.color);
       expect(colors).toContain('#000000'); // Black for "Deep" and "here"
-      expect(colors).toContain('green'); // Green for nested content
+      expect(colors).toContain('#008000'); // Green for nested content
     });
 
     it('should handle span with multiple CSS properties', () => {
@@ -125,7 +125,7 @@ describe('Nested Tags in Headings', () => {
 
       // Find the layers
       const normalLayer = spec.layer.find(layer => layer.mark.color === '#000000' && layer.mark.fontWeight === 'bold');
-      const spanLayer = spec.layer.find(layer => layer.mark.color === 'orange');
+      const spanLayer = spec.layer.find(layer => layer.mark.color === '#ffa500');
 
       expect(normalLayer).toBeDefined();
       expect(spanLayer).toBeDefined();
@@ -137,7 +137,7 @@ describe('Nested Tags in Headings', () => {
 
         // Span layer should have orange color, H4 font size, but normal weight due to CSS
         expect(spanLayer.mark.fontSize).toBe(16); // Still H4 size
-        expect(spanLayer.mark.color).toBe('orange');
+        expect(spanLayer.mark.color).toBe('#ffa500');
         expect(spanLayer.mark.fontWeight).toBe('normal'); // CSS font-weight: normal overrides H4 boldness
       }
     });
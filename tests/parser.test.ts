@@ -69,7 +69,7 @@ describe('HTMLParser', () => {
       
       expect(result.segments).toHaveLength(1);
       expect(result.segments[0].text).toBe('Styled text');
-      expect(result.segments[0].color).toBe('red');
+      expect(result.segments[0].color).toBe('#ff0000');
       expect(result.segments[0].fontWeight).toBe('bold');
     });
 
@@ -118,7 +118,7 @@ describe('HTMLParser', () => {
       
       expect(result.segments).toHaveLength(1);
       expect(result.segments[0].text).toBe('Link text');
-      expect(result.segments[0].color).toBe('#0066CC');
+      expect(result.segments[0].color).toBe('#0066cc');
       expect(result.segments[0].textDecoration).toBe('underline');
     });
 
@@ -129,6 +129,30 @@ describe('HTMLParser', () => {
       expect(result.segments[0].text).toBe('console.log("Hello")');
     });
 
+    it('should mark the segments of each boxed element with the start of that element', () => {
+      const result = parser.parseHTML('<kbd>Ctrl</kbd><kbd>C</kbd> <code>a <b>b</b></code> c');
+
+      expect(result.segments.map(s => [s.text, s.boxStart])).toEqual([
+        ['Ctrl', 0], ['C', 15], ['a', 28], ['b', 28], ['c', undefined]
+      ]);
+    });
+
+    it('should keep the spaces and line breaks of pre blocks', () => {
+      const html = 'Before<pre>\nif (x) {\n\treturn  <b>y</b>;\n}\n</pre>After';
+      const result = parser.parseHTML(html);
+
+      expect(result.segments.map(s => s.text)).toEqual(['Before', '\n', 'if (x) {', '\n', '\treturn  ', 'y', ';', '\n', '}', '\n', 'After']);
+      expect(result.segments[4]).toEqual(expect.objectContaining({ whiteSpace: 'pre', hasSpaceAfter: false }));
+      expect(html.slice(result.segments[4].sourceStart, result.segments[4].sourceEnd)).toBe('\treturn  ');
+      expect(result.segments[10].whiteSpace).toBeUndefined();
+    });
+
+    it('should collapse spaces but keep line breaks with white-space: pre-line', () => {
+      const result = parser.parseHTML('<span style="white-space: pre-line">one   two \n  three\n\nfour</span>\nfive\n  six');
+
+      expect(result.segments.map(s => s.text)).toEqual(['one two', '\n', 'three', '\n', '\n', 'four', 'five six']);
+    });
+
     it('should handle mark tags', () => {
       const result = parser.parseHTML('<mark>Highlighted text</mark>');
       
@@ -267,7 +291,7 @@ describe('HTMLParser', () => {
       
       expect(result.segments).toHaveLength(1);
       expect(result.segments[0].text).toBe('Red text');
-      expect(result.segments[0].color).toBe('#FF0000');
+      expect(result.segments[0].color).toBe('#ff0000');
     });
   });
 
@@ -278,7 +302,7 @@ describe('HTMLParser', () => {
       expect(result.segments).toHaveLength(1);
       expect(result.segments[0].text).toBe('Text');
       // Should still apply valid styles
-      expect(result.segments[0].color).toBe('red');
+      expect(result.segments[0].color).toBe('#ff0000');
     });
 
     it('should handle empty tags', () => {
@@ -287,11 +311,192 @@ describe('HTMLParser', () => {
       expect(result.segments).toHaveLength(0);
     });
 
-    it('should handle text with special characters', () => {
+    it('should decode character references in text', () => {
       const result = parser.parseHTML('<b>Special chars: &amp; &lt; &gt;</b>');
       
       expect(result.segments).toHaveLength(1);
-      expect(result.segments[0].text).toBe('Special chars: &amp; &lt; &gt;');
+      expect(result.segments[0].text).toBe('Special chars: & < >');
+    });
+
+    it('should decode named and numeric references', () => {
+      const result = parser.parseHTML('caf&eacute; &#8212; &#x2014; &copy 2024');
+      
+      expect(result.segments).toHaveLength(1);
+      expect(result.segments[0].text).toBe('café — — © 2024');
+    });
+
+    it('should keep non-breaking spaces at segment edges', () => {
+      const result = parser.parseHTML('<b>10&nbsp;</b>km');
+      
+      expect(result.segments[0].text).toBe('10\u00A0');
+      expect(result.segments[1].text).toBe('km');
+    });
+
+    it('should record source offsets of trimmed segment text', () => {
+      const html = '<p>  Hello <b>world</b></p>';
+      const result = parser.parseHTML(html);
+      
+      expect(result.segments.map(s => html.slice(s.sourceStart, s.sourceEnd))).toEqual(['Hello', 'world']);
+    });
+
+    it('should decode references in href and style attributes', () => {
+      const result = parser.parseHTML(
+        '<a href="/search?a=1&amp;b=2&copy=3">link</a> <span style="color:&#35;ff0000">red</span>'
+      );
+      
+      expect(result.segments[0].href).toBe('/search?a=1&b=2&copy=3');
+      expect(result.segments[1].color).toBe('#ff0000');
+    });
+
+    it('should pass parsed attributes to strategies', () => {
+      const seen: Array<[string, string][]> = [];
+      parser.registerTagStrategy({
+        getTagNames: () => ['custom'],
+        applyStyle: (style) => style,
+        parse: (context) => {
+          seen.push([...context.attributeMap]);
+          return { newSegments: [], updatedStyle: context.currentStyle, pushStyleToStack: false, popFromStyleStack: false, errors: [] };
+        }
+      });
+
+      parser.parseHTML(`<custom ID=main data-x='a "b"' hidden title="A &amp; B" id="dup">x</custom>`);
+
+      expect(seen[0]).toEqual([['id', 'main'], ['data-x', 'a "b"'], ['hidden', ''], ['title', 'A & B']]);
+    });
+
+    it('should read unquoted and single-quoted style attributes', () => {
+      const result = parser.parseHTML(`<span STYLE=color:blue>a</span> <span data-style="color: red" style='font-weight: bold'>b</span>`);
+
+      expect(result.segments.map(s => [s.color, s.fontWeight])).toEqual([['#0000ff', 'normal'], ['#000000', 'bold']]);
+    });
+  });
+
+  describe('unknown-tag policy', () => {
+    const texts = (result: { segments: { text: string }[] }): string[] => result.segments.map(s => s.text);
+
+    it('should drop script, style and template content by default', () => {
+      const result = parser.parseHTML(
+        '<p>Before<script>alert("x")</script> <style>p { color: red }</style><template><b>hidden</b></template>after</p>'
+      );
+      
+      expect(texts(result)).toEqual(['Before', 'after']);
+      expect(result.errors).toEqual([]);
+      expect(result.diagnostics?.map(d => [d.code, d.severity, d.tagName])).toEqual([
+        ['unsupported-tag', 'info', 'script'],
+        ['unsupported-tag', 'info', 'template']
+      ]);
+    });
+
+    it('should apply style sheets under every policy without rendering them', () => {
+      const html = '<style>.r { color: red }</style><span class="r">x</span>';
+
+      for (const unknownTags of ['render-children', 'literal', 'error'] as const) {
+        const result = parser.parseHTML(html, { unknownTags });
+
+        expect(result.segments.map(s => [s.text, s.color])).toEqual([['x', '#ff0000']]);
+        expect(result.errors).toEqual([]);
+        expect(result.diagnostics).toEqual([]);
+      }
+    });
+
+    it('should keep the content of other unknown tags by default', () => {
+      const result = parser.parseHTML('<blink>old</blink> news');
+      
+      expect(texts(result)).toEqual(['old', 'news']);
+      expect(result.errors).toEqual(['Unsupported tag: blink', 'Unsupported closing tag: blink']);
+    });
+
+    it('should remove nested elements of the same name as one element', () => {
+      const result = parser.parseHTML('<x-a>1<x-a>2</x-a>3<br></x-a>4', { unknownTags: 'remove' });
+      
+      expect(texts(result)).toEqual(['4']);
+    });
+
+    it('should render unknown tags as literal text', () => {
+      const result = parser.parseHTML('<b>a <blink class="x">b</blink></b>', { unknownTags: 'literal' });
+      
+      expect(texts(result)).toEqual(['a', '<blink class="x">', 'b', '</blink>']);
+      expect(result.segments[1].fontWeight).toBe('bold');
+      expect(result.segments[1].hasSpaceAfter).toBe(false);
+    });
+
+    it('should apply per-tag rules over the defaults and the rules default', () => {
+      const result = parser.parseHTML('<script>x</script><blink>y</blink><marquee>z</marquee>', {
+        unknownTags: { default: 'remove', tags: { script: 'render-children' } }
+      });
+      
+      expect(texts(result)).toEqual(['x']);
+    });
+
+    it('should fail hard with UnsupportedTagError', () => {
+      expect(() => parser.parseHTML('<p>ok <blink>no</blink></p>', { unknownTags: 'error' }))
+        .toThrow(expect.objectContaining({ name: 'UnsupportedTagError', tagName: 'blink', range: { start: 6, end: 13 } }));
+    });
+  });
+
+  describe('limits', () => {
+    const texts = (result: { segments: { text: string }[] }): string[] => result.segments.map(s => s.text);
+    const limitMessages = (result: { diagnostics?: { code: string; message: string }[] }): string[] =>
+      (result.diagnostics ?? []).filter(d => d.code === 'limit-exceeded').map(d => d.message);
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should truncate long input without splitting a tag', () => {
+      const result = parser.parseHTML('<p>Hello world</p><p><b>more</b></p>', { limits: { maxInputLength: 23 } });
+
+      expect(texts(result)).toEqual(['Hello world', '\n']);
+      expect(limitMessages(result)).toEqual([
+        'Input is longer than the limit of 23 characters; content past the limit was dropped'
+      ]);
+    });
+
+    it('should apply the input length limit to Markdown and DOM input', () => {
+      const element = document.createElement('p');
+      element.textContent = 'Hello world';
+
+      expect(texts(parser.parseMarkdown('Hello **world**', { limits: { maxInputLength: 5 } }))).toEqual(['Hello']);
+      expect(texts(parser.parseHTML(element, { limits: { maxInputLength: 8 } }))).toEqual(['Hello']);
+    });
+
+    it('should drop elements nested deeper than the limit and keep their siblings', () => {
+      const result = parser.parseHTML('<p>a <b>b <i>c <u>d</u></i> e</b> f</p><br>g', { limits: { maxNestingDepth: 3 } });
+
+      expect(texts(result)).toEqual(['a', 'b', 'c', 'e', 'f', '\n', '\n', 'g']);
+      expect(limitMessages(result)).toEqual([
+        'Elements are nested deeper than the limit of 3; content past the limit was dropped'
+      ]);
+    });
+
+    it('should stop at the segment limit', () => {
+      const result = parser.parseHTML('<b>one</b> <i>two</i> <u>three</u>', { limits: { maxSegments: 2 } });
+
+      expect(texts(result)).toEqual(['one', 'two']);
+      expect(limitMessages(result)).toHaveLength(1);
+    });
+
+    it('should stop once the processing time is used up', () => {
+      // The parse starts at 0 and every later check sees 100ms passed
+      jest.spyOn(Date, 'now').mockReturnValueOnce(0).mockReturnValue(100);
+      const result = parser.parseHTML('<b>one</b> <i>two</i>', { limits: { maxProcessingTime: 50 } });
+
+      expect(texts(result)).toEqual([]);
+      expect(limitMessages(result)).toEqual([
+        'Parsing took longer than the limit of 50ms; content past the limit was dropped'
+      ]);
+    });
+
+    it('should throw LimitExceededError when asked to', () => {
+      expect(() => parser.parseHTML('<b><i>x</i></b>', { limits: { maxNestingDepth: 1, onLimitExceeded: 'throw' } }))
+        .toThrow(expect.objectContaining({ name: 'LimitExceededError', limit: 'nesting-depth', max: 1 }));
+    });
+
+    it('should leave input within the limits untouched', () => {
+      const html = '<p>Some <b>bold</b> text</p>';
+      const limits = { maxInputLength: html.length, maxNestingDepth: 2, maxSegments: 4, maxProcessingTime: 60_000 };
+
+      expect(parser.parseHTML(html, { limits })).toEqual(parser.parseHTML(html));
     });
   });
 });
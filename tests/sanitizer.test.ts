@@ -0,0 +1,128 @@
+import { HTMLSanitizer } from '../src/sanitizer';
+import { HTMLParser } from '../src/parser';
+import { HTMLToVegaLite } from '../src/index';
+import { ParseResult } from '../src/types';
+
+describe('HTMLSanitizer', () => {
+  let parser: HTMLParser;
+
+  beforeEach(() => {
+    parser = new HTMLParser();
+  });
+
+  const texts = (result: ParseResult): string[] => result.segments.filter(s => s.text !== '\n').map(s => s.text);
+  const reported = (result: ParseResult): string[][] =>
+    (result.diagnostics ?? []).map(d => [d.code, d.tagName ?? '', d.message]);
+
+  describe('profiles', () => {
+    it('should strip every formatting tag in the strict profile', () => {
+      const result = parser.parseHTML('<p>Hello <b>bold</b> <a href="https://x.org">link</a></p>', { sanitize: 'strict' });
+
+      expect(texts(result)).toEqual(['Hello', 'bold', 'link']);
+      expect(result.segments.every(s => s.fontWeight === 'normal' && s.href === undefined)).toBe(true);
+      expect(reported(result)).toEqual([
+        ['disallowed-tag', 'b', 'Stripped disallowed tag: <b>'],
+        ['disallowed-tag', 'a', 'Stripped disallowed tag: <a>']
+      ]);
+    });
+
+    it('should keep inline formatting but drop styles in the basic-formatting profile', () => {
+      const result = parser.parseHTML(
+        '<b>bold</b> <span style="color: red">plain</span> <a href="/docs" class="x">docs</a>',
+        { sanitize: 'basic-formatting' }
+      );
+
+      expect(result.segments.map(s => [s.text, s.fontWeight, s.color, s.href])).toEqual([
+        ['bold', 'bold', '#000000', undefined],
+        ['plain', 'normal', '#000000', undefined],
+        ['docs', 'normal', '#0066cc', '/docs']
+      ]);
+      expect(reported(result)).toEqual([
+        ['disallowed-tag', 'span', 'Stripped disallowed tag: <span>'],
+        ['disallowed-attribute', 'a', 'Attribute not allowed on <a>: class']
+      ]);
+    });
+
+    it('should filter CSS properties in the rich profile', () => {
+      const result = parser.parseHTML(
+        '<h2>Title</h2><span style="color: red; position: fixed; font-weight: bold">styled</span>',
+        { sanitize: 'rich' }
+      );
+
+      expect(result.segments[2]).toEqual(expect.objectContaining({ text: 'styled', color: '#ff0000', fontWeight: 'bold' }));
+      expect(reported(result)).toEqual([
+        ['disallowed-css-property', 'span', 'CSS property not allowed: position']
+      ]);
+    });
+
+    it('should remove the content of disallowed script and style elements', () => {
+      const result = parser.parseHTML('<p>a<script>alert(1)</script><style>p{}</style> b</p>', { sanitize: 'rich' });
+
+      expect(texts(result)).toEqual(['a', 'b']);
+      expect(reported(result).map(([code, tagName]) => [code, tagName])).toEqual([
+        ['disallowed-tag', 'script'],
+        ['disallowed-tag', 'style']
+      ]);
+    });
+  });
+
+  describe('href schemes', () => {
+    it.each([
+      ['javascript:alert(1)', undefined],
+      ['java\tscript:alert(1)', undefined],
+      [' JAVASCRIPT:alert(1)', undefined],
+      ['data:text/html,x', undefined],
+      ['https://example.com', 'https://example.com'],
+      ['mailto:a@b.c', 'mailto:a@b.c'],
+      ['../relative/path', '../relative/path'],
+      ['#anchor', '#anchor']
+    ])('should only keep %j when its scheme is allowed', (href, expected) => {
+      const link = document.createElement('a');
+      link.setAttribute('href', href);
+      link.textContent = 'x';
+
+      const result = parser.parseHTML(link, { sanitize: 'basic-formatting' });
+      expect(result.segments[0]?.href).toBe(expected);
+      expect((result.diagnostics ?? []).some(d => d.message.startsWith('URL scheme not allowed'))).toBe(expected === undefined);
+    });
+
+    it('should let a profile decide which schemes reach the generated href encoding', () => {
+      const html = '<a href="tel:+123">call</a>';
+      const encodes = (sanitize: 'basic-formatting' | 'rich'): boolean =>
+        JSON.stringify(new HTMLToVegaLite({ sanitize }).convertWithDiagnostics(html).spec).includes('tel:+123');
+
+      expect(encodes('basic-formatting')).toBe(false);
+      expect(encodes('rich')).toBe(true);
+    });
+  });
+
+  describe('custom allow-lists', () => {
+    it('should apply custom tags, attributes, properties and schemes', () => {
+      const result = parser.parseHTML(
+        '<i title="t" style="color: blue; font-style: normal">x</i> <u>y</u> <a href="ftp://host/f">z</a>',
+        { sanitize: { tags: ['i', 'a'], attributes: { '*': ['style'], a: ['href'] }, cssProperties: ['color'], urlSchemes: ['ftp'] } }
+      );
+
+      expect(result.segments.map(s => [s.text, s.fontStyle, s.textDecoration, s.href])).toEqual([
+        ['x', 'italic', 'none', undefined],
+        ['y', 'normal', 'none', undefined],
+        ['z', 'normal', 'underline', 'ftp://host/f']
+      ]);
+      expect(reported(result).map(([code]) => code)).toEqual([
+        'disallowed-attribute', 'disallowed-css-property', 'disallowed-tag'
+      ]);
+    });
+
+    it('should reject unknown profile names', () => {
+      expect(() => new HTMLSanitizer('lenient' as never)).toThrow('Unknown sanitizer profile: lenient');
+    });
+  });
+
+  it('should report stripped tags once when the balancer reopens them', () => {
+    const result = parser.parseHTML('<span class="a"><p>one</span>two', { sanitize: 'basic-formatting' });
+
+    expect(reported(result).filter(([code]) => code.startsWith('disallowed'))).toEqual([
+      ['disallowed-tag', 'span', 'Stripped disallowed tag: <span>']
+    ]);
+  });
+});
@@ -13,6 +13,8 @@ import {
   StrikethroughTagStrategy,
   ColorTagStrategy,
   ListTagStrategy,
+  TableTagStrategy,
+  BlockquoteTagStrategy,
   BaseTagStrategy,
   TagStrategyRegistry,
   createDefaultTagStrategyRegistry,
@@ -20,7 +22,9 @@ import {
 } from '../src/strategies/index';
 
 import { ListHelpers } from '../src/helpers/composite';
+import { HTMLParser } from '../src/parser';
 import { TextStyle } from '../src/types';
+import { MONOSPACE_FONT_FAMILY } from '../src/constants';
 
 describe('Tag Strategies', () => {
   describe('BoldTagStrategy', () => {
@@ -126,7 +130,7 @@ describe('Tag Strategies', () => {
       };
 
       const newStyle = strategy.applyStyle(currentStyle, 'style="color: red"');
-      expect(newStyle.color).toBe('red');
+      expect(newStyle.color).toBe('#ff0000');
     });
 
     it('should parse font-weight from style attribute', () => {
@@ -172,7 +176,7 @@ describe('Tag Strategies', () => {
       };
 
       const newStyle = strategy.applyStyle(currentStyle, 'style="color: blue; font-weight: bold; font-style: italic"');
-      expect(newStyle.color).toBe('blue');
+      expect(newStyle.color).toBe('#0000ff');
       expect(newStyle.fontWeight).toBe('bold');
       expect(newStyle.fontStyle).toBe('italic');
     });
@@ -185,7 +189,223 @@ describe('Tag Strategies', () => {
       };
 
       const newStyle = strategy.applyStyle(currentStyle, 'style="color: red; font-weight:"');
-      expect(newStyle.color).toBe('red'); // Should still parse valid properties
+      expect(newStyle.color).toBe('#ff0000'); // Should still parse valid properties
+    });
+
+    it('should parse typographic properties', () => {
+      const currentStyle: TextStyle = {
+        fontWeight: 'normal',
+        fontStyle: 'normal',
+        color: '#000000'
+      };
+
+      const newStyle = strategy.applyStyle(
+        currentStyle,
+        'style="font-size: 20px; font-family: Georgia, serif; line-height: 1.5; letter-spacing: 0.1em; word-spacing: 4px"'
+      );
+      expect(newStyle).toEqual(expect.objectContaining({
+        fontSize: 20,
+        fontFamily: 'Georgia, serif',
+        lineHeight: 30,
+        letterSpacing: 2,
+        wordSpacing: 4
+      }));
+    });
+
+    it('should resolve relative and keyword font sizes', () => {
+      const currentStyle: TextStyle = {
+        fontWeight: 'normal',
+        fontStyle: 'normal',
+        color: '#000000',
+        fontSize: 20
+      };
+
+      expect(strategy.applyStyle(currentStyle, 'style="font-size: 1.5em"').fontSize).toBe(30);
+      expect(strategy.applyStyle(currentStyle, 'style="font-size: 50%"').fontSize).toBe(10);
+      expect(strategy.applyStyle(currentStyle, 'style="font-size: 12pt"').fontSize).toBe(16);
+      expect(strategy.applyStyle(currentStyle, 'style="font-size: large"').fontSize).toBe(18);
+      expect(strategy.applyStyle(currentStyle, 'style="font-size: -2px"').fontSize).toBe(20);
+    });
+
+    it('should parse the font shorthand and let longhands override it', () => {
+      const currentStyle: TextStyle = {
+        fontWeight: 'bold',
+        fontStyle: 'normal',
+        color: '#000000',
+        lineHeight: 40
+      };
+
+      expect(strategy.applyStyle(currentStyle, 'style="font: italic 16px/24px \'Times New Roman\', serif"')).toEqual(
+        expect.objectContaining({ fontStyle: 'italic', fontWeight: 'normal', fontSize: 16, lineHeight: 24, fontFamily: "'Times New Roman', serif" })
+      );
+      expect(strategy.applyStyle(currentStyle, 'style="font: 12px Arial; font-weight: bold"')).toEqual(
+        expect.objectContaining({ fontWeight: 'bold', fontSize: 12, fontFamily: 'Arial' })
+      );
+      expect(strategy.applyStyle(currentStyle, 'style="font: 12px Arial"').lineHeight).toBeUndefined();
+    });
+
+    it('should validate typographic properties', () => {
+      expect(strategy.validateAttributes('style="font-size: 2em; font: bold 12px sans-serif; letter-spacing: normal"').isValid).toBe(true);
+      expect(strategy.validateAttributes('style="font-size: huge; line-height: -1; font: bold"').errors).toEqual([
+        'Invalid font-size value: huge',
+        'Invalid line-height value: -1',
+        'Invalid font value: bold'
+      ]);
+    });
+
+    it('should keep numeric font weights and resolve relative ones', () => {
+      const currentStyle: TextStyle = {
+        fontWeight: 300,
+        fontStyle: 'normal',
+        color: '#000000'
+      };
+      const weight = (css: string) => strategy.applyStyle(currentStyle, `style="${css}"`).fontWeight;
+
+      expect(weight('font-weight: 600')).toBe(600);
+      expect(weight('font-weight: 450.5')).toBe(450.5);
+      expect(weight('font-weight: 400')).toBe('normal');
+      expect(weight('font-weight: 700')).toBe('bold');
+      expect(weight('font-weight: bolder')).toBe('normal');
+      expect(weight('font-weight: lighter')).toBe(100);
+      expect(weight('font-weight: 1200')).toBe(300);
+      expect(weight('font: 800 12px Inter')).toBe(800);
+      expect(weight('font: bolder 12px Inter')).toBe('normal');
+      expect(strategy.applyStyle({ ...currentStyle, fontWeight: 'bold' }, 'style="font-weight: bolder"').fontWeight).toBe(900);
+      expect(strategy.applyStyle({ ...currentStyle, fontWeight: 'bold' }, 'style="font-weight: lighter"').fontWeight).toBe('normal');
+      expect(strategy.validateAttributes('style="font-weight: 0"').errors).toEqual(['Invalid font-weight value: 0']);
+    });
+
+    it('should parse combined text decorations with their color, style and thickness', () => {
+      const currentStyle: TextStyle = {
+        fontWeight: 'normal',
+        fontStyle: 'normal',
+        color: '#000000',
+        fontSize: 20,
+        textDecoration: 'underline',
+        textDecorationStyle: 'dotted'
+      };
+      const decoration = (css: string) => {
+        const style = strategy.applyStyle(currentStyle, `style="${css}"`);
+        return [style.textDecoration, style.textDecorationColor, style.textDecorationStyle, style.textDecorationThickness];
+      };
+
+      expect(decoration('text-decoration: line-through underline overline')).toEqual(['underline overline line-through', undefined, undefined, undefined]);
+      expect(decoration('text-decoration: wavy underline rgb(255 0 0 / 50%) 0.1em')).toEqual(['underline', '#ff0000', 'wavy', 2]);
+      expect(decoration('text-decoration: overline; text-decoration-style: double; text-decoration-thickness: 3px')).toEqual(['overline', undefined, 'double', 3]);
+      expect(decoration('text-decoration-line: line-through; text-decoration-color: navy')).toEqual(['line-through', '#000080', 'dotted', undefined]);
+      expect(decoration('text-decoration: none')).toEqual(['none', undefined, undefined, undefined]);
+      expect(decoration('text-decoration: underline none')).toEqual(['underline', undefined, 'dotted', undefined]);
+      expect(decoration('text-decoration-line: red')).toEqual(['underline', undefined, 'dotted', undefined]);
+      expect(strategy.validateAttributes('style="text-decoration: underline dashed; text-decoration-color: blue"').isValid).toBe(true);
+      expect(strategy.validateAttributes('style="text-decoration-style: zigzag"').errors).toEqual(['Invalid text-decoration-style value: zigzag']);
+    });
+
+    it('should normalize CSS colors and carry their alpha as opacity', () => {
+      const currentStyle: TextStyle = {
+        fontWeight: 'normal',
+        fontStyle: 'normal',
+        color: '#123456',
+        opacity: 0.5
+      };
+      const color = (value: string) => {
+        const { color, opacity } = strategy.applyStyle(currentStyle, `style="color: ${value}"`);
+        return [color, opacity];
+      };
+
+      expect(color('RebeccaPurple')).toEqual(['#663399', undefined]);
+      expect(color('#ABC')).toEqual(['#aabbcc', undefined]);
+      expect(color('#ff000080')).toEqual(['#ff0000', 0.502]);
+      expect(color('#0f08')).toEqual(['#00ff00', 0.533]);
+      expect(color('rgb(255, 128, 0)')).toEqual(['#ff8000', undefined]);
+      expect(color('rgba(100%, 0%, 0%, .25)')).toEqual(['#ff0000', 0.25]);
+      expect(color('rgb(0 0 255 / 40%)')).toEqual(['#0000ff', 0.4]);
+      expect(color('hsl(120, 100%, 25%)')).toEqual(['#008000', undefined]);
+      expect(color('hsla(0.5turn 100% 50% / 0.1)')).toEqual(['#00ffff', 0.1]);
+      expect(color('transparent')).toEqual(['#000000', 0]);
+      expect(color('currentColor')).toEqual(['#123456', 0.5]);
+      expect(color('rgb(1, 2)')).toEqual(['#123456', 0.5]);
+    });
+
+    it('should not read background-color as the text color', () => {
+      const currentStyle: TextStyle = {
+        fontWeight: 'normal',
+        fontStyle: 'normal',
+        color: '#000000'
+      };
+
+      expect(strategy.applyStyle(currentStyle, 'style="background-color: yellow"').color).toBe('#000000');
+    });
+
+    it('should parse background colors with their padding and corner radius', () => {
+      const currentStyle: TextStyle = {
+        fontWeight: 'normal',
+        fontStyle: 'normal',
+        color: '#123456',
+        fontSize: 20,
+        backgroundColor: '#ffff00'
+      };
+      const background = (css: string) => {
+        const style = strategy.applyStyle(currentStyle, `style="${css}"`);
+        return [style.backgroundColor, style.backgroundOpacity, style.backgroundPadding, style.backgroundRadius];
+      };
+
+      expect(background('background-color: rgba(255, 0, 0, 0.5); padding: 2px 0.5em; border-radius: 4px')).toEqual([
+        '#ff0000', 0.5, { top: 2, right: 10, bottom: 2, left: 10 }, 4
+      ]);
+      expect(background('background: lightblue; padding: 1px 2px 3px')).toEqual(['#add8e6', undefined, { top: 1, right: 2, bottom: 3, left: 2 }, undefined]);
+      expect(background('background-color: currentColor')).toEqual(['#123456', undefined, undefined, undefined]);
+      expect(background('background-color: transparent; padding: -1px')).toEqual(['#ffff00', undefined, undefined, undefined]);
+      expect(strategy.validateAttributes('style="background: none; padding: 0 4px; border-radius: .2em"').isValid).toBe(true);
+      expect(strategy.validateAttributes('style="background: url(x.png); padding: 1px 2px 3px 4px 5px"').errors).toEqual([
+        'Invalid background value: url(x.png)',
+        'Invalid padding value: 1px 2px 3px 4px 5px'
+      ]);
+    });
+
+    it('should parse borders around the background', () => {
+      const currentStyle: TextStyle = {
+        fontWeight: 'normal',
+        fontStyle: 'normal',
+        color: '#123456'
+      };
+      const border = (css: string, style: TextStyle = currentStyle) => {
+        const newStyle = strategy.applyStyle(style, `style="${css}"`);
+        return [newStyle.borderWidth, newStyle.borderColor];
+      };
+
+      expect(border('border: 2px solid rgb(255 0 0)')).toEqual([2, '#ff0000']);
+      expect(border('border: dashed')).toEqual([3, '#123456']);
+      expect(border('border: thin solid; border-color: navy; border-width: 4px')).toEqual([4, '#000080']);
+      expect(border('border: 1px red')).toEqual([undefined, undefined]);
+      expect(border('border: none', { ...currentStyle, borderWidth: 1, borderColor: '#d0d7de' })).toEqual([undefined, undefined]);
+      expect(strategy.validateAttributes('style="border-width: 1px red"').errors).toEqual(['Invalid border-width value: 1px red']);
+    });
+
+    it('should parse white-space and tab-size', () => {
+      const currentStyle: TextStyle = {
+        fontWeight: 'normal',
+        fontStyle: 'normal',
+        color: '#000000',
+        whiteSpace: 'pre'
+      };
+      const whiteSpace = (css: string) => {
+        const style = strategy.applyStyle(currentStyle, `style="${css}"`);
+        return [style.whiteSpace, style.tabSize];
+      };
+
+      expect(whiteSpace('white-space: Pre-Wrap; tab-size: 4')).toEqual(['pre-wrap', 4]);
+      expect(whiteSpace('white-space: normal')).toEqual([undefined, undefined]);
+      expect(whiteSpace('white-space: wrap; tab-size: 2em')).toEqual(['pre', undefined]);
+      expect(strategy.validateAttributes('style="white-space: wrap; tab-size: -1"').errors).toEqual([
+        'Invalid white-space value: wrap',
+        'Invalid tab-size value: -1'
+      ]);
+    });
+
+    it('should validate colors', () => {
+      expect(strategy.validateAttributes('style="color: hsl(200 50% 50%)"').isValid).toBe(true);
+      expect(strategy.validateAttributes('style="color: currentColor"').isValid).toBe(true);
+      expect(strategy.validateAttributes('style="color: bluish"').errors).toEqual(['Invalid color value: bluish']);
     });
   });
 
@@ -257,7 +477,7 @@ describe('Tag Strategies', () => {
       };
 
       const newStyle = strategy.applyStyle(currentStyle, 'href="https://example.com"');
-      expect(newStyle.color).toBe('#0066CC');
+      expect(newStyle.color).toBe('#0066cc');
       expect(newStyle.textDecoration).toBe('underline');
     });
 
@@ -269,6 +489,27 @@ describe('Tag Strategies', () => {
       expect(validation2.isValid).toBe(false);
       expect(validation2.errors).toContain('Invalid URL in href attribute');
     });
+
+    it.each([
+      ['href="x"', 'invalid-url'],
+      ['href="http://exa mple.com"', 'invalid-url'],
+      ['href="javascript:alert(1)"', 'unsafe-url'],
+      ['href="java&#9;script:alert(1)"', 'unsafe-url'],
+      ['href="DATA:text/html,x"', 'unsafe-url']
+    ])('should report %s as %s', (attributes, code) => {
+      expect(strategy.validateAttributes(attributes).diagnostics?.map(diagnostic => diagnostic.code)).toEqual([code]);
+    });
+
+    it.each([
+      ['href=/docs/page', '/docs/page'],
+      ['HREF="/upper"', '/upper'],
+      [`href="/it's" title='say "hi"'`, "/it's"],
+      ['data-href="/wrong" href="/right"', '/right'],
+      ['data-href="/wrong"', undefined],
+      ['download href', '']
+    ])('should extract the href from %s', (attributes, expected) => {
+      expect(strategy.extractHref(attributes)).toBe(expected);
+    });
   });
 
   describe('CodeTagStrategy', () => {
@@ -292,6 +533,38 @@ describe('Tag Strategies', () => {
 
       const newStyle = strategy.applyStyle(currentStyle, '');
       expect(newStyle.color).toBe('#d63384'); // Code color
+      expect(newStyle.fontFamily).toBe(MONOSPACE_FONT_FAMILY);
+    });
+
+    it('should box inline code and keys but not code inside a pre block', () => {
+      const currentStyle: TextStyle = {
+        fontWeight: 'normal',
+        fontStyle: 'normal',
+        color: '#000000',
+        fontSize: 20
+      };
+      const box = (style: TextStyle) => [style.backgroundColor, style.backgroundOpacity, style.borderColor, style.borderWidth];
+      const pre = strategy.applyStyle(currentStyle, '', 'pre');
+
+      expect(box(strategy.applyStyle(currentStyle, '', 'code'))).toEqual(['#afb8c1', 0.2, undefined, undefined]);
+      expect(strategy.applyStyle(currentStyle, '', 'code').backgroundPadding).toEqual({ top: 4, right: 8, bottom: 4, left: 8 });
+      expect(box(strategy.applyStyle(currentStyle, '', 'kbd'))).toEqual(['#f6f8fa', undefined, '#d0d7de', 1]);
+      expect(box(pre)).toEqual([undefined, undefined, undefined, undefined]);
+      expect(box(strategy.applyStyle(pre, '', 'code'))).toEqual([undefined, undefined, undefined, undefined]);
+      expect(box(strategy.applyStyle(pre, '', 'kbd'))).toEqual(['#f6f8fa', undefined, '#d0d7de', 1]);
+    });
+
+    it('should make pre a block that keeps its whitespace', () => {
+      const currentStyle: TextStyle = {
+        fontWeight: 'normal',
+        fontStyle: 'normal',
+        color: '#000000'
+      };
+
+      expect(strategy.applyStyle(currentStyle, '', 'pre').whiteSpace).toBe('pre');
+      expect(strategy.applyStyle(currentStyle, '', 'code').whiteSpace).toBeUndefined();
+      expect(strategy.isLineBreak('pre')).toBe(true);
+      expect(strategy.isLineBreak('code')).toBe(false);
     });
   });
 
@@ -316,6 +589,7 @@ describe('Tag Strategies', () => {
 
       const newStyle = strategy.applyStyle(currentStyle, '');
       expect(newStyle.color).toBe('#212529'); // Highlight text color
+      expect(newStyle.backgroundColor).toBe('#fff3cd');
     });
   });
 
@@ -367,7 +641,8 @@ describe('Tag Strategies', () => {
 
     it('should return correct tag names', () => {
       const tagNames = strategy.getTagNames();
-      expect(tagNames).toEqual(['red', 'green', 'blue', 'yellow', 'orange', 'purple', 'black']);
+      expect(tagNames).toHaveLength(148);
+      expect(tagNames).toEqual(expect.arrayContaining(['red', 'green', 'rebeccapurple', 'lightgoldenrodyellow']));
     });
 
     it('should apply red color', () => {
@@ -378,7 +653,7 @@ describe('Tag Strategies', () => {
       };
 
       const newStyle = strategy.applyStyle(currentStyle, '', 'red');
-      expect(newStyle.color).toBe('#FF0000');
+      expect(newStyle.color).toBe('#ff0000');
     });
 
     it('should apply green color', () => {
@@ -389,7 +664,7 @@ describe('Tag Strategies', () => {
       };
 
       const newStyle = strategy.applyStyle(currentStyle, '', 'green');
-      expect(newStyle.color).toBe('#00FF00');
+      expect(newStyle.color).toBe('#008000');
     });
 
     it('should handle unknown colors', () => {
@@ -428,6 +703,17 @@ describe('Tag Strategies', () => {
       expect(newStyle.textDecoration).toBe('line-through');
       expect(newStyle.color).toBe('#6c757d'); // Muted color
     });
+
+    it('should add the line to an inherited decoration', () => {
+      const currentStyle: TextStyle = {
+        fontWeight: 'normal',
+        fontStyle: 'normal',
+        color: '#000000',
+        textDecoration: 'underline overline'
+      };
+
+      expect(strategy.applyStyle(currentStyle, '').textDecoration).toBe('underline overline line-through');
+    });
   });
 
   describe('ListTagStrategy', () => {
@@ -495,6 +781,113 @@ describe('Tag Strategies', () => {
       expect(invalidAttrs.isValid).toBe(false);
     });
   });
+
+  describe('TableTagStrategy', () => {
+    let strategy: TableTagStrategy;
+
+    beforeEach(() => {
+      strategy = new TableTagStrategy();
+      TableTagStrategy.resetTableState();
+    });
+
+    const cells = (html: string) => new HTMLParser().parseHTML(html).segments
+      .filter(segment => segment.tableCell)
+      .map(({ text, fontWeight, tableCell }) => [text, fontWeight, tableCell]);
+
+    it('should return correct tag names', () => {
+      expect(strategy.getTagNames()).toEqual(['table', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td']);
+      expect(strategy.isLineBreak()).toBe(true);
+    });
+
+    it('should make header cells bold', () => {
+      const currentStyle: TextStyle = { fontWeight: 'normal', fontStyle: 'normal', color: '#000000' };
+
+      expect(strategy.applyStyle(currentStyle, '', 'th').fontWeight).toBe('bold');
+      expect(strategy.applyStyle(currentStyle, '', 'td')).toEqual(currentStyle);
+    });
+
+    it('should place cells in the grid of their table', () => {
+      const html = '<table><thead><tr><th>A</th><th>B</th></tr></thead>'
+        + '<tbody><tr><td rowspan="2">C</td><td>D</td></tr><tr><td>E</td></tr><tr><td colspan="2"></td></tr></tbody></table>';
+
+      expect(cells(html)).toEqual([
+        ['A', 'bold', { table: 1, row: 0, column: 0, rowSpan: 1, colSpan: 1, header: true }],
+        ['B', 'bold', { table: 1, row: 0, column: 1, rowSpan: 1, colSpan: 1, header: true }],
+        ['C', 'normal', { table: 1, row: 1, column: 0, rowSpan: 2, colSpan: 1, header: false }],
+        ['D', 'normal', { table: 1, row: 1, column: 1, rowSpan: 1, colSpan: 1, header: false }],
+        ['E', 'normal', { table: 1, row: 2, column: 1, rowSpan: 1, colSpan: 1, header: false }],
+        ['\u00A0', 'normal', { table: 1, row: 3, column: 0, rowSpan: 1, colSpan: 2, header: false }]
+      ]);
+    });
+
+    it('should number tables and imply rows and end tags', () => {
+      expect(cells('<table><td>a<td>b</table><table><tr><td>c</table>').map(([text, , cell]) => [text, cell])).toEqual([
+        ['a', expect.objectContaining({ table: 1, row: 0, column: 0 })],
+        ['b', expect.objectContaining({ table: 1, row: 0, column: 1 })],
+        ['c', expect.objectContaining({ table: 2, row: 0, column: 0 })]
+      ]);
+    });
+
+    it('should validate span attributes', () => {
+      expect(strategy.validateAttributes('colspan="2" rowspan="3"').isValid).toBe(true);
+      expect(strategy.validateAttributes('colspan="0"').errors).toEqual(['Invalid colspan attribute for table cell: 0']);
+      expect(strategy.validateAttributes('rowspan="two"').errors).toEqual(['Invalid rowspan attribute for table cell: two']);
+
+      const result = new HTMLParser().parseHTML('<table><tr><td colspan="-1">x</td></tr></table>');
+      expect(result.errors).toEqual(expect.arrayContaining([expect.stringContaining('Invalid colspan attribute for table cell: -1')]));
+      expect(result.segments.find(segment => segment.text === 'x')?.tableCell?.colSpan).toBe(1);
+    });
+  });
+
+  describe('BlockquoteTagStrategy', () => {
+    let strategy: BlockquoteTagStrategy;
+
+    beforeEach(() => {
+      strategy = new BlockquoteTagStrategy();
+      BlockquoteTagStrategy.resetQuoteState();
+    });
+
+    const quoted = (html: string) => new HTMLParser().parseHTML(html).segments
+      .map(({ text, blockquotes, fontStyle, color }) => [text, blockquotes, fontStyle, color]);
+
+    it('should return correct tag names', () => {
+      expect(strategy.getTagNames()).toEqual(['blockquote', 'cite']);
+      expect(strategy.isLineBreak('blockquote')).toBe(true);
+      expect(strategy.isLineBreak('cite')).toBe(false);
+    });
+
+    it('should mute quotes and italicize citations', () => {
+      const currentStyle: TextStyle = { fontWeight: 'normal', fontStyle: 'normal', color: '#000000' };
+
+      expect(strategy.applyStyle(currentStyle, '', 'blockquote')).toEqual({ ...currentStyle, color: '#6c757d' });
+      expect(strategy.applyStyle(currentStyle, '', 'cite')).toEqual({ ...currentStyle, fontStyle: 'italic', color: '#6c757d' });
+    });
+
+    it('should number nested quotes and end each quote on one line break', () => {
+      expect(quoted('Said:<blockquote><p>one</p><blockquote>two</blockquote></blockquote><blockquote>three</blockquote>')).toEqual([
+        ['Said:', undefined, 'normal', '#000000'],
+        ['\n', undefined, 'normal', '#000000'],
+        ['one', [1], 'normal', '#6c757d'],
+        ['\n', [1], 'normal', '#6c757d'],
+        ['two', [1, 2], 'normal', '#6c757d'],
+        ['\n', [1, 2], 'normal', '#6c757d'],
+        ['three', [3], 'normal', '#6c757d']
+      ]);
+    });
+
+    it('should put the citation of a quote on an attribution line and keep other citations inline', () => {
+      expect(quoted('<blockquote>Great <cite>Ann</cite></blockquote>See <cite>Book</cite>.')).toEqual([
+        ['Great', [1], 'normal', '#6c757d'],
+        ['\n', [1], 'normal', '#6c757d'],
+        ['\u2014', [1], 'normal', '#6c757d'],
+        ['Ann', [1], 'italic', '#6c757d'],
+        ['\n', [1], 'italic', '#6c757d'],
+        ['See', undefined, 'normal', '#000000'],
+        ['Book', undefined, 'italic', '#6c757d'],
+        ['.', undefined, 'normal', '#000000']
+      ]);
+    });
+  });
 });
 
 describe('TagStrategyRegistry', () => {
@@ -634,6 +1027,15 @@ describe('Factory Functions', () => {
       expect(registry.isSupported('ul')).toBe(true);
       expect(registry.isSupported('ol')).toBe(true);
       expect(registry.isSupported('li')).toBe(true);
+
+      // Test table strategies
+      expect(registry.isSupported('table')).toBe(true);
+      expect(registry.isSupported('tr')).toBe(true);
+      expect(registry.isSupported('td')).toBe(true);
+
+      // Test quotation strategies
+      expect(registry.isSupported('blockquote')).toBe(true);
+      expect(registry.isSupported('cite')).toBe(true);
     });
 
     it('should return functioning strategies', () => {
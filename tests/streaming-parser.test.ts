@@ -0,0 +1,131 @@
+import { StreamingHTMLParser } from '../src/streaming-parser';
+import { HTMLParser } from '../src/parser';
+import { HTMLToVegaLite } from '../src/index';
+import { TextSegment } from '../src/types';
+
+describe('StreamingHTMLParser', () => {
+  const streamInChunks = (html: string, size: number): { result: ReturnType<StreamingHTMLParser['end']>; written: TextSegment[] } => {
+    const stream = new StreamingHTMLParser();
+    const written: TextSegment[] = [];
+    for (let i = 0; i < html.length; i += size) {
+      written.push(...stream.write(html.slice(i, i + size)));
+    }
+    const before = written.length;
+    const result = stream.end();
+    written.push(...result.segments.slice(before));
+    return { result, written };
+  };
+
+  const documents = [
+    '<h1>Title</h1><p>Some <b>bold</b> and <i>italic</i> text.</p><p>Second &amp; last</p>',
+    '<ul><li>One<li>Two <b>bold</b></ul><p>After the list',
+    '<b>1<i>2</b>3</i> <a href="/x?a=1&amp;b=2">link</a><!-- note --> tail',
+    '<p>Inline <script>if (a < b) { x = "</b>"; }</script> done</p>',
+    'Caf&eacute; &#8212; <span style="color: red">red</span>&nbsp;km<br/>next line',
+    'Code:<pre>\nif (x) {\n\treturn  <b>y</b>;\n}\n</pre><span style="white-space: pre-line">a  \n b</span>',
+    '<table><tr><th>Name<th>Qty<tr><td colspan="2">none</td></tr><tr><td></td><td>2 <b>each</b></table>after',
+    'Said:<blockquote><p>Great <b>product</b></p><blockquote>again</blockquote><cite>Ann</cite></blockquote>See <cite>it</cite>'
+  ];
+
+  describe('chunked input', () => {
+    it.each(documents)('should parse %s like a batch parse for any chunk size', html => {
+      const batch = new HTMLParser().parseHTML(html);
+
+      for (const size of [1, 2, 3, 7, 16, html.length]) {
+        const { result, written } = streamInChunks(html, size);
+
+        expect(result.segments).toEqual(batch.segments);
+        expect(written).toEqual(result.segments);
+        expect(result.warnings).toEqual(batch.warnings);
+        expect(result.errors).toEqual(batch.errors);
+      }
+    });
+
+  });
+
+  describe('incremental output', () => {
+    it('should emit completed text before the document ends', () => {
+      const stream = new StreamingHTMLParser();
+
+      expect(stream.write('<p>Hello wor')).toEqual([]);
+      expect(stream.getSegments().map(segment => segment.text)).toEqual(['Hello']);
+
+      stream.write('ld and <b>more');
+      expect(stream.getSegments().map(segment => segment.text)).toEqual(['Hello world and']);
+
+      const emitted = stream.write(' text</b></p>');
+      expect(emitted.map(segment => segment.text)).toEqual(['Hello world and']);
+      expect(emitted[0].hasSpaceAfter).toBe(true);
+      expect(stream.getSegments().map(segment => [segment.text, segment.fontWeight])).toEqual([
+        ['Hello world and', 'normal'],
+        ['more text', 'bold']
+      ]);
+    });
+
+    it('should hold back unterminated markup and references', () => {
+      const stream = new StreamingHTMLParser();
+      stream.write('Tom &am');
+      stream.write('p; Jerry <span sty');
+      stream.write('le="color: red">red</span>');
+
+      const texts = stream.end().segments.map(segment => [segment.text, segment.color]);
+      expect(texts).toEqual([['Tom & Jerry', '#000000'], ['red', '#ff0000']]);
+    });
+
+    it('should keep the style stack across chunks', () => {
+      const stream = new StreamingHTMLParser();
+      stream.write('<b>bold ');
+      stream.write('<i>both ');
+      stream.write('</b>italic</i>');
+
+      const styles = stream.end().segments.map(segment => [segment.text, segment.fontWeight, segment.fontStyle]);
+      expect(styles).toEqual([
+        ['bold', 'bold', 'normal'],
+        ['both', 'bold', 'italic'],
+        ['italic', 'normal', 'italic']
+      ]);
+    });
+
+    it('should not write after end', () => {
+      const stream = new StreamingHTMLParser();
+      stream.write('text');
+      stream.end();
+
+      expect(() => stream.write('more')).toThrow('Cannot write to a stream that has ended');
+    });
+
+    it('should drop input past the length limit', () => {
+      const stream = new StreamingHTMLParser(new HTMLParser(), { limits: { maxInputLength: 14 } });
+      stream.write('<b>one</b> ');
+      stream.write('two three');
+      const result = stream.end();
+
+      expect(result.segments.map(s => s.text)).toEqual(['one', 'two']);
+      expect(result.diagnostics.map(d => d.code)).toEqual(['limit-exceeded']);
+    });
+
+    it('should report empty input like parseHTML', () => {
+      expect(new StreamingHTMLParser().end().errors).toEqual(['Input must be a non-empty string']);
+    });
+  });
+
+  describe('HTMLToVegaLite.createStream', () => {
+    it('should regenerate the spec after each chunk and match convert() at the end', () => {
+      const converter = new HTMLToVegaLite();
+      const html = '<p>Streaming <b>text</b> from a model, one token at a time.</p>';
+      const stream = converter.createStream();
+
+      const texts: string[][] = [];
+      for (const chunk of html.match(/.{1,6}/g) ?? []) {
+        const spec = stream.write(chunk);
+        texts.push(spec.layer.flatMap(layer => layer.data.values.map((value: { text?: string }) => value.text ?? '')));
+      }
+      const { spec, diagnostics } = stream.end();
+
+      expect(texts[0]).toEqual([]);
+      expect(texts[texts.length - 1]).toContain('text');
+      expect(diagnostics).toEqual([]);
+      expect(spec).toEqual(converter.convert(html));
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { HTMLParser } from '../src/parser';
+import { StreamingHTMLParser } from '../src/streaming-parser';
+import { ParseResult } from '../src/types';
+
+describe('Stylesheet', () => {
+  let parser: HTMLParser;
+
+  beforeEach(() => {
+    parser = new HTMLParser();
+  });
+
+  const styled = (result: ParseResult, property: 'color' | 'fontWeight' | 'fontStyle' | 'fontSize'): Array<[string, unknown]> =>
+    result.segments.filter(s => s.text !== '\n').map(s => [s.text, s[property]]);
+
+  describe('selectors', () => {
+    it('should apply class, id and type rules in order of specificity', () => {
+      const result = parser.parseHTML(
+        '<style>#a { color: blue } p.x { color: green } p { color: red } .x { color: gray }</style>' +
+        '<p id="a" class="x">one</p><p class="x">two</p><p>three</p>'
+      );
+
+      expect(styled(result, 'color')).toEqual([['one', '#0000ff'], ['two', '#008000'], ['three', '#ff0000']]);
+    });
+
+    it('should let later rules of the same specificity win', () => {
+      const result = parser.parseHTML('<style>.a { color: red } .b { color: blue }</style><span class="b a">x</span>');
+
+      expect(styled(result, 'color')).toEqual([['x', '#0000ff']]);
+    });
+
+    it('should match descendant and compound selectors', () => {
+      const result = parser.parseHTML(
+        '<style>.report b.key { color: red }</style>' +
+        '<div class="report"><p><b class="key">in</b> <b>plain</b></p></div><b class="key">out</b>'
+      );
+
+      expect(styled(result, 'color')).toEqual([['in', '#ff0000'], ['plain', '#000000'], ['out', '#000000']]);
+    });
+
+    it('should report and skip unsupported selectors and at-rules', () => {
+      const result = parser.parseHTML(
+        '<style>a:hover, p { color: blue } ul > li { color: red } @media print { p { color: red } } @import url(x.css);</style><p>text</p>'
+      );
+
+      expect(styled(result, 'color')).toEqual([['text', '#0000ff']]);
+      expect((result.diagnostics ?? []).filter(d => d.code === 'unsupported-css-selector').map(d => [d.message, d.tagName])).toEqual([
+        ['Ignored unsupported CSS selector: a:hover', 'style'],
+        ['Ignored unsupported CSS selector: ul > li', 'style'],
+        ['Ignored CSS at-rule: @media', 'style'],
+        ['Ignored CSS at-rule: @import', 'style']
+      ]);
+    });
+  });
+
+  describe('cascade', () => {
+    it('should override tag defaults with author rules and inherit into children', () => {
+      const result = parser.parseHTML(
+        '<style>b.light { font-weight: normal } a { color: green } .muted { color: gray }</style>' +
+        '<b class="light">x</b> <b>y</b> <a href="/">z</a> <div class="muted">quiet <a href="/">link</a></div> after'
+      );
+
+      expect(styled(result, 'fontWeight').slice(0, 2)).toEqual([['x', 'normal'], ['y', 'bold']]);
+      expect(styled(result, 'color').slice(2)).toEqual([['z', '#008000'], ['quiet', '#808080'], ['link', '#008000'], ['after', '#000000']]);
+    });
+
+    it('should rank !important over inline styles and inline styles over rules', () => {
+      const result = parser.parseHTML(
+        '<style>span { color: red !important; font-style: italic } .c { font-weight: bold }</style>' +
+        '<span class="c" style="color: blue; font-style: normal">t</span>'
+      );
+
+      expect(result.segments[0]).toEqual(expect.objectContaining({ color: '#ff0000', fontStyle: 'normal', fontWeight: 'bold' }));
+    });
+
+    it('should inherit custom properties and substitute var() references', () => {
+      const result = parser.parseHTML(
+        '<style>:root { --brand: #00aa00 } .title { --size: 20px; color: var(--brand); font-size: var(--size) }' +
+        ' .title b { font-size: var(--missing, 30px) } i { color: var(--missing) }</style>' +
+        '<p class="title">A <b>B</b> <i>C</i></p>'
+      );
+
+      expect(result.segments.filter(s => s.text !== '\n').map(s => [s.text, s.color, s.fontSize])).toEqual([
+        ['A', '#00aa00', 20],
+        ['B', '#00aa00', 30],
+        ['C', '#00aa00', 20]
+      ]);
+    });
+
+    it('should not report inline var() references and custom properties as invalid', () => {
+      const result = parser.parseHTML(
+        '<style>:root { --c: red }</style><span style="color: var(--c)">x</span><span style="--d: blue; color: var(--d)">y</span>'
+      );
+
+      expect(styled(result, 'color')).toEqual([['x', '#ff0000'], ['y', '#0000ff']]);
+      expect(result.diagnostics).toEqual([]);
+    });
+
+    it('should style text outside of any element with :root rules', () => {
+      const result = parser.parseHTML('<style>:root { color: navy }</style>loose <b>bold</b>');
+
+      expect(styled(result, 'color')).toEqual([['loose', '#000080'], ['bold', '#000080']]);
+    });
+
+    it('should leave documents without style sheets alone', () => {
+      const result = parser.parseHTML('<b style="color: red">x</b>');
+
+      expect(styled(result, 'color')).toEqual([['x', '#000000']]);
+    });
+  });
+
+  describe('sanitizer', () => {
+    it('should ignore style sheets when the sanitizer does not allow style elements', () => {
+      const result = parser.parseHTML('<style>.x { color: red }</style><span class="x">t</span>', { sanitize: 'rich' });
+
+      expect(styled(result, 'color')).toEqual([['t', '#000000']]);
+    });
+
+    it('should drop rule declarations outside the CSS allow-list', () => {
+      const result = parser.parseHTML(
+        '<style>.x { color: red; font-weight: bold }</style><span class="x">t</span>',
+        { sanitize: { tags: ['style', 'span'], attributes: { '*': ['class'] }, cssProperties: ['color'] } }
+      );
+
+      expect(result.segments[0]).toEqual(expect.objectContaining({ color: '#ff0000', fontWeight: 'normal' }));
+    });
+  });
+
+  it('should style a stream like a batch parse', () => {
+    const html = '<style>.a b { color: red }</style><p class="a">x <b>y</b></p>';
+    const stream = new StreamingHTMLParser(parser);
+    for (let i = 0; i < html.length; i += 4) {
+      stream.write(html.slice(i, i + 4));
+    }
+
+    expect(stream.end().segments).toEqual(parser.parseHTML(html).segments);
+  });
+});
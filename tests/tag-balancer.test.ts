@@ -0,0 +1,189 @@
+import { TagBalancer } from '../src/tag-balancer';
+import { HTMLTokenizer } from '../src/tokenizer';
+import { HTMLParser } from '../src/parser';
+
+describe('TagBalancer', () => {
+  const tokenizer = new HTMLTokenizer();
+  let balancer: TagBalancer;
+
+  const tagSequence = (html: string): string[] =>
+    balancer.balance(tokenizer.tokenize(html)).tokens.map(token => {
+      switch (token.type) {
+        case 'start-tag': return `<${token.tagName}>`;
+        case 'end-tag': return `</${token.tagName}>`;
+        case 'self-closing-tag': return `<${token.tagName}/>`;
+        default: return token.text ?? '';
+      }
+    });
+
+  beforeEach(() => {
+    balancer = new TagBalancer();
+  });
+
+  describe('optional end tags', () => {
+    it('should close a paragraph when another paragraph starts', () => {
+      const result = balancer.balance(tokenizer.tokenize('<p>one<p>two'));
+
+      expect(tagSequence('<p>one<p>two')).toEqual(['<p>', 'one', '</p>', '<p>', 'two', '</p>']);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('should close list items when the next item starts', () => {
+      expect(tagSequence('<ul><li>a<li>b</ul>')).toEqual(
+        ['<ul>', '<li>', 'a', '</li>', '<li>', 'b', '</li>', '</ul>']
+      );
+    });
+
+    it('should not close an outer list item from a nested list', () => {
+      expect(tagSequence('<ul><li>a<ul><li>b</ul></ul>')).toEqual(
+        ['<ul>', '<li>', 'a', '<ul>', '<li>', 'b', '</li>', '</ul>', '</li>', '</ul>']
+      );
+    });
+
+    it('should close dt and dd on each other', () => {
+      expect(tagSequence('<dl><dt>term<dd>def<dt>next</dl>')).toEqual(
+        ['<dl>', '<dt>', 'term', '</dt>', '<dd>', 'def', '</dd>', '<dt>', 'next', '</dt>', '</dl>']
+      );
+    });
+
+    it('should close table cells and rows', () => {
+      expect(tagSequence('<table><tr><td>a<td>b<tr><th>c</table>')).toEqual([
+        '<table>', '<tr>', '<td>', 'a', '</td>', '<td>', 'b', '</td>', '</tr>',
+        '<tr>', '<th>', 'c', '</th>', '</tr>', '</table>'
+      ]);
+    });
+
+    it('should close open cells and rows at the end of their table', () => {
+      const html = '<table><tbody><tr><td>a<td><b>b</table>c';
+
+      expect(tagSequence(html)).toEqual([
+        '<table>', '<tbody>', '<tr>', '<td>', 'a', '</td>', '<td>', '<b>', 'b', '</b>', '</td>', '</tr>', '</tbody>', '</table>', '<b>', 'c', '</b>'
+      ]);
+      expect(balancer.balance(tokenizer.tokenize(html)).warnings).toEqual(['Mismatched closing tag: </table> (implicitly closed <b>)', 'Unclosed tags: b']);
+    });
+
+    it('should close a paragraph before a block element', () => {
+      expect(tagSequence('<p>text<h1>title</h1>')).toEqual(['<p>', 'text', '</p>', '<h1>', 'title', '</h1>']);
+    });
+  });
+
+  describe('misnested tags', () => {
+    it('should reopen formatting elements closed by a misnested end tag', () => {
+      const result = balancer.balance(tokenizer.tokenize('<b>1<i>2</b>3</i>'));
+
+      expect(tagSequence('<b>1<i>2</b>3</i>')).toEqual(
+        ['<b>', '1', '<i>', '2', '</i>', '</b>', '<i>', '3', '</i>']
+      );
+      expect(result.warnings).toEqual(['Mismatched closing tag: </b> (implicitly closed <i>)']);
+      expect(result.tokens.filter(token => token.implied)).toHaveLength(2);
+    });
+
+    it('should carry formatting across a closed paragraph', () => {
+      expect(tagSequence('<p><b>bold</p>more')).toEqual(
+        ['<p>', '<b>', 'bold', '</b>', '</p>', '<b>', 'more', '</b>']
+      );
+    });
+
+    it('should drop stray end tags with a warning', () => {
+      const result = balancer.balance(tokenizer.tokenize('text</i>'));
+
+      expect(result.tokens.map(token => token.type)).toEqual(['text']);
+      expect(result.warnings).toEqual(['Mismatched closing tag: </i>']);
+    });
+
+    it('should close unclosed elements at the end of input', () => {
+      const result = balancer.balance(tokenizer.tokenize('<b>bold <i>both'));
+
+      expect(tagSequence('<b>bold <i>both')).toEqual(['<b>', 'bold ', '<i>', 'both', '</i>', '</b>']);
+      expect(result.warnings).toEqual(['Unclosed tags: b, i']);
+    });
+
+    it('should report repairs as diagnostics with source ranges', () => {
+      const result = balancer.balance(tokenizer.tokenize('<b>x<i>y</b></u>'));
+
+      expect(result.diagnostics).toEqual([
+        {
+          code: 'mismatched-end-tag',
+          severity: 'warning',
+          message: 'Mismatched closing tag: </b> (implicitly closed <i>)',
+          tagName: 'b',
+          range: { start: 8, end: 12 }
+        },
+        {
+          code: 'mismatched-end-tag',
+          severity: 'warning',
+          message: 'Mismatched closing tag: </u>',
+          tagName: 'u',
+          range: { start: 12, end: 16 }
+        }
+      ]);
+    });
+
+    it('should report each unclosed element at its start tag', () => {
+      const result = balancer.balance(tokenizer.tokenize('<b>bold <i>both'));
+
+      expect(result.diagnostics.map(d => [d.code, d.tagName, d.range])).toEqual([
+        ['unclosed-tag', 'b', { start: 0, end: 3 }],
+        ['unclosed-tag', 'i', { start: 8, end: 11 }]
+      ]);
+    });
+
+    it('should give non-void self-closing tags an end tag', () => {
+      expect(tagSequence('<b/>x<br/>')).toEqual(['<b/>', '</b>', 'x', '<br/>']);
+    });
+  });
+
+  describe('parser integration', () => {
+    let parser: HTMLParser;
+
+    beforeEach(() => {
+      parser = new HTMLParser();
+    });
+
+    it('should accept optional end tags as valid HTML', () => {
+      expect(parser.validateHTML('<p>one<p>two').isValid).toBe(true);
+      expect(parser.validateHTML('<ul><li>a<li>b</ul>').isValid).toBe(true);
+    });
+
+    it('should render paragraphs without end tags on separate lines', () => {
+      const result = parser.parseHTML('<p>one<p>two');
+
+      expect(result.segments.map(segment => segment.text)).toEqual(['one', '\n', 'two']);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('should number list items without end tags', () => {
+      const result = parser.parseHTML('<ol><li>a<li>b</ol>');
+      const texts = result.segments.map(segment => segment.text).filter(text => text !== '\n');
+
+      expect(texts).toEqual(['1.', 'a', '2.', 'b']);
+    });
+
+    it('should keep styling correct for misnested tags', () => {
+      const result = parser.parseHTML('<b>1<i>2</b>3</i>4');
+
+      expect(result.segments.map(s => [s.text, s.fontWeight, s.fontStyle])).toEqual([
+        ['1', 'bold', 'normal'],
+        ['2', 'bold', 'italic'],
+        ['3', 'normal', 'italic'],
+        ['4', 'normal', 'normal']
+      ]);
+      expect(result.errors).toEqual([]);
+      expect(result.warnings).toHaveLength(1);
+    });
+
+    it('should keep parsing when a strategy throws', () => {
+      parser.registerTagStrategy({
+        getTagNames: () => ['boom'],
+        applyStyle: style => style,
+        parse: () => { throw new Error('exploded'); }
+      });
+
+      const result = parser.parseHTML('<b>before</b><boom>inside</boom> after');
+
+      expect(result.segments.map(segment => segment.text)).toEqual(['before', 'inside', 'after']);
+      expect(result.segments[0].fontWeight).toBe('bold');
+      expect(result.errors).toContain('Parse error in <boom>: exploded');
+    });
+  });
+});
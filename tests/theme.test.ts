@@ -0,0 +1,155 @@
+import { HTMLToVegaLite } from '../src/index';
+import { HTMLParser } from '../src/parser';
+import { TextLayoutEngine } from '../src/layout';
+import { ThemeHelpers } from '../src/helpers/theme';
+import { headingSizes, THEME_PRESETS } from '../src/constants';
+import { ParseResult } from '../src/types';
+
+describe('Theme', () => {
+  let parser: HTMLParser;
+
+  beforeEach(() => {
+    parser = new HTMLParser();
+  });
+
+  const styled = (result: ParseResult): Array<[string, string, number | undefined]> =>
+    result.segments.filter(s => s.text !== '\n').map(s => [s.text, s.color, s.fontSize]);
+
+  describe('ThemeHelpers', () => {
+    it('should resolve presets and keep the default heading sizes for light', () => {
+      expect(ThemeHelpers.resolve()).toBe(THEME_PRESETS.light);
+      expect(ThemeHelpers.getHeadingSizes(ThemeHelpers.resolve('light'))).toEqual(headingSizes);
+    });
+
+    it('should merge custom themes onto the preset they extend', () => {
+      const theme = ThemeHelpers.resolve({
+        extends: 'dark',
+        tags: { A: { color: '#ff00ff' }, q: { fontStyle: 'italic' } },
+        headingScale: { h1: 3 },
+        listIndent: 32
+      });
+
+      expect(theme.textColor).toBe(THEME_PRESETS.dark.textColor);
+      expect(theme.tags['a']).toEqual({ color: '#ff00ff' });
+      expect(theme.tags['q']).toEqual({ fontStyle: 'italic' });
+      expect(theme.tags['code']).toEqual(THEME_PRESETS.dark.tags['code']);
+      expect(ThemeHelpers.getHeadingSizes(theme, 10)).toEqual(expect.objectContaining({ h1: 30, h2: 17.14 }));
+      expect(theme.listIndent).toBe(32);
+      expect(theme.tableBorderColor).toBe(THEME_PRESETS.dark.tableBorderColor);
+      expect(theme.quoteBarColor).toBe(THEME_PRESETS.dark.quoteBarColor);
+    });
+
+    it('should only use lower-case hex colors in the presets', () => {
+      const colors = JSON.stringify(THEME_PRESETS).match(/#[0-9a-zA-Z]+/g) ?? [];
+
+      expect(colors.length).toBeGreaterThan(0);
+      expect(colors.filter(color => !/^#[0-9a-f]{6}$/.test(color))).toEqual([]);
+    });
+
+    it('should reject unknown presets', () => {
+      expect(() => ThemeHelpers.resolve('sepia' as 'light')).toThrow('Unknown theme preset: sepia');
+    });
+  });
+
+  describe('parsing', () => {
+    it('should color links, code and muted text from the theme', () => {
+      const result = parser.parseHTML(
+        '<a href="/">a</a> <code>b</code> <small>c</small> plain <span style="color: #000">black</span>',
+        { theme: 'dark' }
+      );
+      const { tags, textColor } = THEME_PRESETS.dark;
+
+      expect(styled(result).map(([text, color]) => [text, color])).toEqual([
+        ['a', tags['a']?.color],
+        ['b', tags['code']?.color],
+        ['c', tags['small']?.color],
+        ['plain', textColor],
+        ['black', '#000000']
+      ]);
+    });
+
+    it('should draw the attribution dash of a quote in the theme color of its citation', () => {
+      const result = parser.parseHTML('<blockquote>Quote <cite>Ann</cite></blockquote>', { theme: 'dark' });
+      const muted = THEME_PRESETS.dark.tags['cite']?.color;
+
+      expect(muted).not.toBe('#6c757d');
+      expect(styled(result).map(([text, color]) => [text, color])).toEqual([['Quote', muted], ['\u2014', muted], ['Ann', muted]]);
+      expect(result.segments.find(s => s.text === '\u2014')?.fontStyle).toBe('normal');
+    });
+
+    it('should draw code in the monospace font family and keys in the theme colors', () => {
+      const result = parser.parseHTML(
+        '<code>a</code> <pre><code>b</code></pre> <kbd style="font-family: Courier">c</kbd>',
+        { theme: 'dark', monospaceFontFamily: 'Fira Code, monospace' }
+      );
+
+      expect(result.segments.filter(s => s.text !== '\n').map(s => [s.text, s.fontFamily, s.backgroundColor, s.borderColor])).toEqual([
+        ['a', 'Fira Code, monospace', '#afb8c1', undefined],
+        ['b', 'Fira Code, monospace', undefined, undefined],
+        ['c', 'Courier', THEME_PRESETS.dark.tags['kbd']?.backgroundColor, THEME_PRESETS.dark.tags['kbd']?.borderColor]
+      ]);
+    });
+
+    it('should scale headings with the base font size', () => {
+      const result = parser.parseHTML('<h1>Big</h1><h3>Small</h3>', { theme: 'print', fontSize: 10 });
+
+      expect(styled(result).map(([text, , fontSize]) => [text, fontSize])).toEqual([['Big', 20], ['Small', 12.5]]);
+    });
+
+    it('should apply tag styles over strategies, under inline styles and style sheets', () => {
+      const theme = { tags: { b: { color: '#aa0000' }, span: { color: '#00aa00' }, custom: { fontSize: 20 } } };
+      const result = parser.parseHTML(
+        '<style>.x { color: navy }</style><b>one</b> <b class="x">two</b> <span style="color: red">three</span> <custom>four</custom>',
+        { theme }
+      );
+
+      expect(styled(result)).toEqual([
+        ['one', '#aa0000', undefined],
+        ['two', '#000080', undefined],
+        ['three', '#ff0000', undefined],
+        ['four', '#000000', 20]
+      ]);
+    });
+  });
+
+  describe('layout', () => {
+    it('should use the heading spacing and list indentation of the theme', () => {
+      const segments = parser.parseHTML('<h2>Title</h2><ul><li>item</li></ul>').segments;
+      const light = new TextLayoutEngine().layoutSegments(segments);
+      const custom = new TextLayoutEngine({ theme: { headingSpacing: 1, listIndent: 40 } }).layoutSegments(segments);
+      const bullet = (positioned: typeof light) => positioned.find(s => s.text === '•');
+
+      expect((bullet(custom)?.y ?? 0) - (bullet(light)?.y ?? 0)).toBe(headingSizes['h2']! / 2);
+      expect((bullet(custom)?.x ?? 0) - (bullet(light)?.x ?? 0)).toBe(20);
+    });
+  });
+
+  describe('rendering', () => {
+    it('should draw text in the theme text color on its background unless it sets its own color', () => {
+      const spec = new HTMLToVegaLite({ theme: 'dark' }).convert('x <span style="color: #000">y</span>');
+      const colors = spec.layer.map(layer => [layer.data.values[0]?.text, layer.mark.color]);
+
+      expect(spec.background).toBe(THEME_PRESETS.dark.background);
+      expect(colors).toEqual([['x', THEME_PRESETS.dark.textColor], ['y', '#000000']]);
+    });
+
+    it('should place text the same in every theme with the same sizes', () => {
+      const html = '<p>Some <b>bold</b>text and <span>plain</span> words</p><ul><li>one</li></ul>';
+      const positions = (theme: 'light' | 'dark'): unknown[] => new HTMLToVegaLite({ theme }).convert(html).layer
+        .flatMap(layer => layer.data.values.map((value: { text?: string; x: number; y: number }) => [value.text, value.x, value.y]));
+
+      expect(positions('dark')).toEqual(positions('light'));
+    });
+
+    it('should take the background of the converter from its theme unless one is set', () => {
+      const converter = new HTMLToVegaLite({ theme: 'print' });
+
+      expect(converter.getOptions().background).toBe(THEME_PRESETS.print.background);
+      expect(new HTMLToVegaLite({ theme: 'print', background: '#eeeeee' }).convert('x').background).toBe('#eeeeee');
+      expect(converter.convert('x', { theme: 'dark' }).background).toBe(THEME_PRESETS.dark.background);
+
+      converter.updateOptions({ theme: 'light' });
+      expect(converter.convert('x').background).toBe('transparent');
+    });
+  });
+});
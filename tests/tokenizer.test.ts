@@ -0,0 +1,114 @@
+import { HTMLTokenizer } from '../src/tokenizer';
+import { HTMLParser } from '../src/parser';
+
+describe('HTMLTokenizer', () => {
+  let tokenizer: HTMLTokenizer;
+
+  beforeEach(() => {
+    tokenizer = new HTMLTokenizer();
+  });
+
+  describe('tokenize', () => {
+    it('should emit start, text and end tokens with source offsets', () => {
+      const html = '<b>Bold</b> text';
+      const tokens = tokenizer.tokenize(html);
+
+      expect(tokens.map(t => t.type)).toEqual(['start-tag', 'text', 'end-tag', 'text']);
+      expect(tokens[0]).toMatchObject({ tagName: 'b', start: 0, end: 3 });
+      expect(tokens[1]).toMatchObject({ text: 'Bold', start: 3, end: 7 });
+      expect(tokens[2]).toMatchObject({ tagName: 'b', start: 7, end: 11 });
+      expect(html.slice(tokens[3].start, tokens[3].end)).toBe(' text');
+    });
+
+    it('should lower-case tag names', () => {
+      const tokens = tokenizer.tokenize('<STRONG>x</Strong>');
+
+      expect(tokens[0].tagName).toBe('strong');
+      expect(tokens[2].tagName).toBe('strong');
+    });
+
+    it('should keep attribute values containing > inside the tag', () => {
+      const tokens = tokenizer.tokenize('<a href="/q?a>b" title=\'x > y\'>link</a>');
+
+      expect(tokens.map(t => t.type)).toEqual(['start-tag', 'text', 'end-tag']);
+      expect(tokens[0].attributes).toBe(' href="/q?a>b" title=\'x > y\'');
+      expect(tokens[1].text).toBe('link');
+    });
+
+    it('should report self-closing syntax', () => {
+      const tokens = tokenizer.tokenize('a<br/>b<br />c');
+
+      expect(tokens.map(t => t.type)).toEqual(['text', 'self-closing-tag', 'text', 'self-closing-tag', 'text']);
+      expect(tokens[1].tagName).toBe('br');
+      expect(tokens[1].attributes).toBe('');
+    });
+
+    it('should emit comments, doctype and CDATA without leaking text', () => {
+      const tokens = tokenizer.tokenize('<!DOCTYPE html><!-- note <b> -->Hi<![CDATA[raw]]>');
+
+      expect(tokens.map(t => t.type)).toEqual(['doctype', 'comment', 'text', 'comment']);
+      expect(tokens[0].text).toBe('html');
+      expect(tokens[1].text).toBe(' note <b> ');
+      expect(tokens[3].text).toBe('raw');
+    });
+
+    it('should keep a stray < as text', () => {
+      const tokens = tokenizer.tokenize('1 < 2 and 3<4');
+
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0].text).toBe('1 < 2 and 3<4');
+    });
+
+    it('should treat script content as raw text', () => {
+      const tokens = tokenizer.tokenize('<script>if (a<b) { x = "</b>"; }</script>after');
+
+      expect(tokens.map(t => t.type)).toEqual(['start-tag', 'text', 'end-tag', 'text']);
+      expect(tokens[1].text).toBe('if (a<b) { x = "</b>"; }');
+      expect(tokens[2].tagName).toBe('script');
+    });
+
+    it('should keep unterminated markup at the end of input as text', () => {
+      const tokens = tokenizer.tokenize('text <b class="x');
+
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0].text).toBe('text <b class="x');
+    });
+  });
+
+  describe('parser integration', () => {
+    let parser: HTMLParser;
+
+    beforeEach(() => {
+      parser = new HTMLParser();
+    });
+
+    it('should ignore comments and doctype', () => {
+      const result = parser.parseHTML('<!DOCTYPE html><!-- hidden --><b>Bold</b>');
+
+      expect(result.segments).toHaveLength(1);
+      expect(result.segments[0].text).toBe('Bold');
+      expect(result.segments[0].fontWeight).toBe('bold');
+    });
+
+    it('should handle self-closing line breaks', () => {
+      const result = parser.parseHTML('Line 1<br/>Line 2');
+
+      expect(result.segments.map(s => s.text)).toEqual(['Line 1', '\n', 'Line 2']);
+      expect(parser.validateHTML('Line 1<br/>Line 2').isValid).toBe(true);
+    });
+
+    it('should close non-void self-closing tags immediately', () => {
+      const result = parser.parseHTML('<b/>plain');
+
+      expect(result.segments).toHaveLength(1);
+      expect(result.segments[0].fontWeight).toBe('normal');
+    });
+
+    it('should read href values containing >', () => {
+      const result = parser.parseHTML('<a href="https://example.com/?q=a>b">link</a>');
+
+      expect(result.segments[0].text).toBe('link');
+      expect(result.segments[0].href).toBe('https://example.com/?q=a>b');
+    });
+  });
+});
@@ -231,6 +231,190 @@ describe('VegaLiteGenerator', () => {
       expect(spec.background).toBe('#FFFFFF');
     });
 
+    it('should give segments with their own font family and line height their own layer', () => {
+      const base = { x: 10, y: 30, width: 70, height: 20, fontWeight: 'normal', fontStyle: 'normal', color: '#000000' } as const;
+      const segments: PositionedTextSegment[] = [
+        { ...base, text: 'plain' },
+        { ...base, text: 'serif', fontSize: 20, fontFamily: 'Georgia, serif', lineHeight: 30 }
+      ];
+
+      const spec = generator.generateSpec(segments, { width: 200, height: 50 }, { fontFamily: 'Arial' });
+
+      expect(spec.layer.map(layer => [layer.mark.fontFamily, layer.mark.fontSize, layer.mark.lineHeight])).toEqual([
+        ['Arial', 14, undefined],
+        ['Georgia, serif', 20, 30]
+      ]);
+    });
+
+    it('should pass numeric font weights to the text marks', () => {
+      const base = { x: 10, y: 30, width: 70, height: 20, fontStyle: 'normal', color: '#000000' } as const;
+      const segments: PositionedTextSegment[] = [
+        { ...base, text: 'light', fontWeight: 300 },
+        { ...base, text: 'bold', fontWeight: 'bold' }
+      ];
+
+      const spec = generator.generateSpec(segments, { width: 200, height: 50 });
+
+      expect(spec.layer.map(layer => layer.mark.fontWeight)).toEqual([300, 'bold']);
+    });
+
+    it('should draw translucent colors and their decorations with opacity', () => {
+      const base = { x: 10, y: 30, width: 70, height: 20, fontWeight: 'normal', fontStyle: 'normal', color: '#ff0000' } as const;
+      const segments: PositionedTextSegment[] = [
+        { ...base, text: 'solid' },
+        { ...base, text: 'faded', opacity: 0.5, textDecoration: 'underline' }
+      ];
+
+      const spec = generator.generateSpec(segments, { width: 200, height: 50 });
+
+      expect(spec.layer.map(layer => [layer.mark.type, layer.mark.opacity])).toEqual([
+        ['text', undefined],
+        ['text', 0.5],
+        ['rule', 0.5]
+      ]);
+    });
+
+    it('should draw one layer per decoration line with its color, style and thickness', () => {
+      const base = { x: 10, y: 30, width: 60, height: 14, fontWeight: 'normal', fontStyle: 'normal', color: '#000000' } as const;
+      const segments: PositionedTextSegment[] = [
+        { ...base, text: 'both', textDecoration: 'underline line-through', textDecorationColor: '#ff0000' },
+        { ...base, text: 'dashed', y: 60, textDecoration: 'overline', textDecorationStyle: 'dashed', textDecorationThickness: 2 },
+        { ...base, text: 'double', y: 90, textDecoration: 'underline', textDecorationStyle: 'double' }
+      ];
+
+      const spec = generator.generateSpec(segments, { width: 200, height: 120 });
+      const rules = spec.layer.filter(layer => layer.mark.type === 'rule');
+
+      expect(rules.map(layer => [layer.mark.color, layer.mark.strokeWidth, layer.mark.strokeDash])).toEqual([
+        ['#ff0000', 1, undefined],
+        ['#ff0000', 1, undefined],
+        ['#000000', 2, [6, 4]],
+        ['#000000', 1, undefined]
+      ]);
+      expect(rules.map(layer => layer.data.values.map((value: { y: number }) => value.y))).toEqual([
+        [45], [37], [60], [105, 107]
+      ]);
+    });
+
+    it('should draw wavy decorations as a line through alternating points, scaled with the font size', () => {
+      const segments: PositionedTextSegment[] = [{
+        text: 'wave', x: 0, y: 0, width: 12, height: 28, fontSize: 28,
+        fontWeight: 'normal', fontStyle: 'normal', color: '#0000ff',
+        textDecoration: 'underline', textDecorationStyle: 'wavy'
+      }];
+
+      const spec = generator.generateSpec(segments, { width: 100, height: 50 });
+      const wave = spec.layer[1];
+
+      expect(wave.mark).toEqual(expect.objectContaining({ type: 'line', color: '#0000ff', strokeWidth: 2 }));
+      expect(wave.data.values.map((point: { x: number; y: number }) => [point.x, point.y])).toEqual([
+        [0, 28], [6, 32], [12, 28]
+      ]);
+    });
+
+    it('should draw backgrounds beneath the text with one rect per line fragment', () => {
+      const base = { height: 14, fontWeight: 'normal', fontStyle: 'normal', color: '#000000' } as const;
+      const highlight = { ...base, backgroundColor: '#fff3cd' } as const;
+      const segments: PositionedTextSegment[] = [
+        { ...base, text: 'A', x: 0, y: 0, width: 10 },
+        { ...highlight, text: 'wrapped', x: 14, y: 0, width: 40 },
+        { ...highlight, text: 'mark', x: 58, y: 0, width: 30 },
+        { ...highlight, text: 'continues', x: 0, y: 20, width: 50 },
+        { ...base, text: 'then', x: 54, y: 20, width: 30 },
+        { ...highlight, text: 'again', x: 88, y: 20, width: 30 }
+      ];
+
+      const spec = generator.generateSpec(segments, { width: 200, height: 50 });
+
+      expect(spec.layer.map(layer => layer.mark.type)).toEqual(['rect', 'text']);
+      expect(spec.layer[0].mark).toEqual({ type: 'rect', color: '#fff3cd' });
+      expect(spec.layer[0].data.values).toEqual([
+        { id: 1, x: 14, x2: 88, y: 0, y2: 14 },
+        { id: 3, x: 0, x2: 50, y: 20, y2: 34 },
+        { id: 5, x: 88, x2: 118, y: 20, y2: 34 }
+      ]);
+      expect(spec.layer[0].encoding.y2).toEqual({ field: 'y2', type: 'quantitative' });
+    });
+
+    it('should draw a separate box for each element that draws one', () => {
+      const kbd = {
+        height: 14, fontWeight: 'normal', fontStyle: 'normal', color: '#000000',
+        backgroundColor: '#f6f8fa', borderColor: '#d0d7de', borderWidth: 1
+      } as const;
+      const segments: PositionedTextSegment[] = [
+        { ...kbd, text: 'Ctrl', x: 0, y: 0, width: 30, boxStart: 0 },
+        { ...kbd, text: 'C', x: 30, y: 0, width: 10, boxStart: 15 }
+      ];
+
+      const spec = generator.generateSpec(segments, { width: 100, height: 50 });
+
+      expect(spec.layer[0].data.values).toEqual([
+        { id: 0, x: 0, x2: 30, y: 0, y2: 14 },
+        { id: 1, x: 30, x2: 40, y: 0, y2: 14 }
+      ]);
+    });
+
+    it('should pad and round backgrounds and keep their opacity apart from the border', () => {
+      const segments: PositionedTextSegment[] = [{
+        text: 'key', x: 10, y: 10, width: 30, height: 14, fontWeight: 'normal', fontStyle: 'normal', color: '#000000',
+        backgroundColor: '#0000ff', backgroundOpacity: 0.25, backgroundRadius: 3,
+        backgroundPadding: { top: 1, right: 4, bottom: 2, left: 4 }, borderColor: '#d0d7de', borderWidth: 1
+      }];
+
+      const spec = generator.generateSpec(segments, { width: 100, height: 50 });
+
+      expect(spec.layer[0].mark).toEqual({
+        type: 'rect', color: '#0000ff', fillOpacity: 0.25, stroke: '#d0d7de', strokeWidth: 1, cornerRadius: 3
+      });
+      expect(spec.layer[0].data.values).toEqual([{ id: 0, x: 6, x2: 44, y: 9, y2: 26 }]);
+    });
+
+    it('should draw table header backgrounds and cell borders beneath the text', () => {
+      const base = { height: 14, fontWeight: 'normal', fontStyle: 'normal', color: '#000000' } as const;
+      const cell = { table: 1, row: 0, column: 0, rowSpan: 1, colSpan: 1, header: true };
+      const segments: PositionedTextSegment[] = [
+        { ...base, text: 'Head', x: 8, y: 4, width: 30, tableCell: cell, cellBox: { x: 0, y: 0, x2: 50, y2: 20 } },
+        { ...base, text: 'one', x: 8, y: 24, width: 20, tableCell: { ...cell, row: 1, header: false }, cellBox: { x: 0, y: 20, x2: 50, y2: 40 } },
+        { ...base, text: 'two', x: 8, y: 38, width: 20, tableCell: { ...cell, row: 1, header: false }, cellBox: { x: 0, y: 20, x2: 50, y2: 40 } }
+      ];
+
+      const spec = generator.generateSpec(segments, { width: 100, height: 50 }, { theme: 'dark' });
+
+      expect(spec.layer.map(layer => layer.mark.type)).toEqual(['rect', 'rule', 'text']);
+      expect(spec.layer[0].mark).toEqual({ type: 'rect', color: '#161b22' });
+      expect(spec.layer[0].data.values).toEqual([{ x: 0, y: 0, x2: 50, y2: 20 }]);
+      expect(spec.layer[1].mark).toEqual({ type: 'rule', color: '#30363d', strokeWidth: 1 });
+      // The edge between the two cells is drawn once
+      expect(spec.layer[1].data.values).toEqual([
+        { x: 0, x2: 50, y: 0, y2: 0 },
+        { x: 0, x2: 50, y: 20, y2: 20 },
+        { x: 0, x2: 0, y: 0, y2: 20 },
+        { x: 50, x2: 50, y: 0, y2: 20 },
+        { x: 0, x2: 50, y: 40, y2: 40 },
+        { x: 0, x2: 0, y: 20, y2: 40 },
+        { x: 50, x2: 50, y: 20, y2: 40 }
+      ]);
+    });
+
+    it('should draw the left bar of every blockquote along its text', () => {
+      const base = { height: 14, width: 30, fontWeight: 'normal', fontStyle: 'normal', color: '#6c757d' } as const;
+      const segments: PositionedTextSegment[] = [
+        { ...base, text: 'one', x: 26, y: 0, blockquotes: [1], quoteBarX: [11.5] },
+        { ...base, text: 'two', x: 42, y: 20, blockquotes: [1, 2], quoteBarX: [11.5, 27.5] },
+        { ...base, text: 'three', x: 26, y: 40, blockquotes: [1], quoteBarX: [11.5] },
+        { ...base, text: 'after', x: 10, y: 60, color: '#000000' }
+      ];
+
+      const spec = generator.generateSpec(segments, { width: 100, height: 80 });
+
+      expect(spec.layer.map(layer => layer.mark.type)).toEqual(['rule', 'text', 'text']);
+      expect(spec.layer[0].mark).toEqual({ type: 'rule', color: '#d0d7de', strokeWidth: 3 });
+      expect(spec.layer[0].data.values).toEqual([
+        { x: 11.5, y: 0, y2: 54 },
+        { x: 27.5, y: 20, y2: 34 }
+      ]);
+    });
+
     it('should set correct encoding properties', () => {
       const segments: PositionedTextSegment[] = [{
         text: 'Test',
@@ -266,6 +450,23 @@ describe('VegaLiteGenerator', () => {
       });
     });
 
+    it('should carry source offsets into layer data', () => {
+      const segments: PositionedTextSegment[] = [
+        {
+          text: 'Hello',
+          fontWeight: 'normal',
+          fontStyle: 'normal',
+          color: '#000000',
+          x: 0, y: 0, width: 40, height: 16,
+          sourceStart: 3,
+          sourceEnd: 8
+        }
+      ];
+      const spec = generator.generateSpec(segments, { width: 200, height: 50 });
+
+      expect(spec.layer[0].data.values[0]).toMatchObject({ sourceStart: 3, sourceEnd: 8 });
+    });
+
     it('should handle empty segments array', () => {
       const segments: PositionedTextSegment[] = [];
       const bounds = { width: 200, height: 50 };